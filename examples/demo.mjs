@@ -2,7 +2,7 @@
 // scripts/demo.mjs
 
 // Usage:
-//   PASEO_ENDPOINT=https://<your-worker>.workers.dev node scripts/demo.mjs
+//   PASEO_ENDPOINT=https://<your-worker>.workers.dev PASEO_API_KEY=<admin key> node scripts/demo.mjs
 // Optionally reuse:
 //   export PASEO_POD_NAME=...; export PASEO_ACTOR_ID=...
 
@@ -12,12 +12,18 @@ if (!ENDPOINT) {
 	process.exit(1);
 }
 
+const API_KEY = process.env.PASEO_API_KEY;
+if (!API_KEY) {
+	console.error('❌ Set PASEO_API_KEY to the admin key (wrangler secret put PASEO_ADMIN_KEY) or a pod key');
+	process.exit(1);
+}
+
 let POD = process.env.PASEO_POD_NAME || null;
 let ACTOR = process.env.PASEO_ACTOR_ID || null;
 
 async function httpJson(url, init = {}) {
 	const res = await fetch(url, {
-		headers: { 'Content-Type': 'application/json', ...(init.headers || {}) },
+		headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${API_KEY}`, ...(init.headers || {}) },
 		...init,
 	});
 	if (!res.ok) {
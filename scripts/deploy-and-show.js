@@ -57,7 +57,10 @@ async function deployAndShowEndpoint() {
 		console.log('🎯 Creating default store actor...');
 
 		// Create a default pod and store actor
-		if (fullEndpoint && fetch) {
+		if (!process.env.PASEO_ADMIN_KEY) {
+			console.log('⚠️  Set PASEO_ADMIN_KEY (the value of the PASEO_ADMIN_KEY secret) to create a default store');
+		}
+		if (fullEndpoint && fetch && process.env.PASEO_ADMIN_KEY) {
 			try {
 				console.log(`Attempting to create pod at: ${fullEndpoint}/pods`);
 
@@ -65,6 +68,7 @@ async function deployAndShowEndpoint() {
 				const podResponse = await fetch(`${fullEndpoint}/pods`, {
 					method: 'POST',
 					headers: {
+						Authorization: `Bearer ${process.env.PASEO_ADMIN_KEY}`,
 						'User-Agent': 'paseo-deploy-script/1.0',
 						Accept: 'application/json',
 					},
@@ -100,6 +104,7 @@ async function deployAndShowEndpoint() {
 					method: 'POST',
 					headers: {
 						'Content-Type': 'application/json',
+						Authorization: `Bearer ${process.env.PASEO_ADMIN_KEY}`,
 						'User-Agent': 'paseo-deploy-script/1.0',
 						Accept: 'application/json',
 					},
@@ -128,30 +133,32 @@ async function deployAndShowEndpoint() {
 				console.log('');
 				console.log('📝 Store an item:');
 				console.log(`   curl -X POST ${fullEndpoint}/pods/${podName}/actors/${actorData.actorId}/items \\`);
+				console.log('     -H "Authorization: Bearer $PASEO_API_KEY" \\');
 				console.log('     -H "Content-Type: application/json" \\');
 				console.log('     -d \'{"id":"demo-item","data":{"message":"Hello Paseo!"}}\'');
 				console.log('');
 				console.log('📄 List all items:');
-				console.log(`   curl ${fullEndpoint}/pods/${podName}/actors/${actorData.actorId}/items`);
+				console.log(`   curl -H "Authorization: Bearer $PASEO_API_KEY" ${fullEndpoint}/pods/${podName}/actors/${actorData.actorId}/items`);
 				console.log('');
 				console.log('🔍 Get a specific item:');
-				console.log(`   curl ${fullEndpoint}/pods/${podName}/actors/${actorData.actorId}/items/demo-item`);
+				console.log(`   curl -H "Authorization: Bearer $PASEO_API_KEY" ${fullEndpoint}/pods/${podName}/actors/${actorData.actorId}/items/demo-item`);
 				console.log('');
 				console.log('📋 View API specification:');
-				console.log(`   curl ${fullEndpoint}/pods/${podName}/actors/${actorData.actorId}/openapi.json`);
+				console.log(`   curl -H "Authorization: Bearer $PASEO_API_KEY" ${fullEndpoint}/pods/${podName}/actors/${actorData.actorId}/openapi.json`);
 				console.log('');
 				console.log('💾 Environment variables for scripts:');
 				console.log(`   export PASEO_ENDPOINT="${fullEndpoint}"`);
+				console.log('   export PASEO_API_KEY="$PASEO_ADMIN_KEY"');
 				console.log(`   export PASEO_POD_NAME="${podName}"`);
 				console.log(`   export PASEO_ACTOR_ID="${actorData.actorId}"`);
 				console.log(`   export STORE_BASE_URL="$PASEO_ENDPOINT/pods/$PASEO_POD_NAME/actors/$PASEO_ACTOR_ID"`);
 				console.log('');
 				console.log('📚 Then use in your scripts:');
 				console.log(
-					'   # Store item: curl -X POST $STORE_BASE_URL/items -H "Content-Type: application/json" -d \'{"id":"test","data":{}}\''
+					'   # Store item: curl -X POST $STORE_BASE_URL/items -H "Authorization: Bearer $PASEO_API_KEY" -H "Content-Type: application/json" -d \'{"id":"test","data":{}}\''
 				);
-				console.log('   # List items: curl $STORE_BASE_URL/items');
-				console.log('   # Get item:   curl $STORE_BASE_URL/items/test');
+				console.log('   # List items: curl -H "Authorization: Bearer $PASEO_API_KEY" $STORE_BASE_URL/items');
+				console.log('   # Get item:   curl -H "Authorization: Bearer $PASEO_API_KEY" $STORE_BASE_URL/items/test');
 			} catch (error) {
 				console.log('⚠️  Could not create default store:', error.message);
 				console.log('');
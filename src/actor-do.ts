@@ -1,16 +1,85 @@
 // src/actor-do.ts
 import type { ActorConfig, StoreActorConfig } from "./types";
-import { registry } from "./registry";
+import { registry, versionNumber, type ConfigPlan, type Handler } from "./registry";
+import { ensureIdempotencyTable, idempotentWrite, remember, replay } from "./idempotency";
+import { ConfigError, configHistory, emptyPlan, parseConfig, recordConfig } from "./config";
+import { applyPatch, PatchError } from "./json-patch";
+import { parseSnapshot, snapshotStream, SnapshotError } from "./snapshot";
+import { changeLogBounds, checkChangeFilter, ensureChangeLog, readChanges, trimChangeLog } from "./changeFeed";
+import { QueryError } from "./handlers/listQuery";
+import { enqueueDeliveries, ensureWebhookTables, handleWebhooks, nextDeliveryAt, pruneDeliveries, runDeliveries } from "./webhooks";
+import {
+  checkPipelines, enqueuePipelines, ensurePipelineTables, isInternalRoute, nextPipelineAt, pipelineStatus, runPipelines, syncPipelines,
+  type PipelineConfig
+} from "./pipelines";
+import { REGISTRY_NAME } from "./pod-registry";
+
+/** how often the retention alarm re-runs once a window is configured */
+const RETENTION_INTERVAL_MS = 60 * 60 * 1000;
+/** index backfill batches processed per alarm before yielding */
+const BACKFILL_BATCHES_PER_ALARM = 10;
+/** change events read per query when catching a subscriber up */
+const CHANGE_BATCH = 500;
+
+/** the handler for a config; throws ConfigError when its type is unknown or the handler refuses it */
+function buildHandler(cfg: ActorConfig): Handler {
+  const key = `${cfg.actorType}.${cfg.version}`;
+  const factory = registry[key];
+  if (!factory) throw new ConfigError(`unknown actor type: ${key}`);
+  try {
+    return factory(cfg);
+  } catch (e) {
+    throw new ConfigError(e instanceof Error ? e.message : String(e));
+  }
+}
+
+const configRefused = (e: unknown) => {
+  if (!(e instanceof ConfigError)) throw e;
+  return Response.json({ 
+    error: "invalid_config", 
+    message: e.message,
+    ...(e.details ? { details: e.details } : {})
+  }, { status: 400 });
+};
+
+const exportNotSupported = (cfg: ActorConfig) =>
+  Response.json({ 
+    error: "not_supported", 
+    message: `${cfg.actorType}.${cfg.version} does not support export / import`
+  }, { status: 501 });
+
+/** kept on each subscriber socket, so it survives hibernation */
+type Subscription = {
+  query: string;                     // list-query filter, e.g. "status=completed&ts[gte]=1735689600"
+  cursor: number;                    // last change seq delivered (or skipped by the filter)
+};
+
+type PurgeResult = {
+  ran_at: number;                    // unix ms
+  cutoff: number;                    // unix seconds; rows with ts < cutoff were removed
+  rows_removed: Record<string, number>;
+  duration_ms: number;
+};
 
 export class ActorDO {
   private db!: SqlStorage;
   private cfg!: ActorConfig;
   private handler!: ReturnType<(typeof registry)["store.v1"]>;
+  /** why the persisted config builds no handler; until it is fixed only the config routes answer */
+  private configError: string | null = null;
+  /** Idempotency-Keys whose first request has not been answered yet */
+  private idempotencyInFlight = new Set<string>();
+  /** /pods/{podName}/actors/{actorId}, remembered for alarms (which have no request) */
+  private actorPath?: string;
 
-  constructor(private state: DurableObjectState, private env: any) {}
+  constructor(private state: DurableObjectState, private env: any) {
+    // keep-alives are answered without waking the object
+    this.state.setWebSocketAutoResponse(new WebSocketRequestResponsePair("ping", "pong"));
+  }
 
   private async init() {
     if (!this.db) this.db = this.state.storage.sql;
+    this.actorPath ??= await this.state.storage.get<string>("actor_path");
     if (!this.cfg) {
       // default until seeded
       this.cfg = { 
@@ -22,32 +91,542 @@ export class ActorDO {
       if (persisted) this.cfg = persisted;
       await this.state.storage.put("cfg", this.cfg);
     }
-    if (!this.handler) {
-      const key = `${this.cfg.actorType}.${this.cfg.version}`;
-      const factory = registry[key];
-      if (!factory) throw new Error(`unknown actor type: ${key}`);
-      this.handler = factory(this.cfg);
+    if (!this.handler && !this.configError) {
+      ensureChangeLog(this.db);
+      ensureWebhookTables(this.db);
+      ensurePipelineTables(this.db);
+      ensureIdempotencyTable(this.db);
+      try {
+        this.handler = buildHandler(this.cfg);
+      } catch (e) {
+        if (!(e instanceof ConfigError)) throw e;
+        this.configError = e.message;
+        return;
+      }
+      syncPipelines(this.db, this.cfg.pipelines ?? []);
       await this.handler.ensureSchema(this.db, this.cfg);
+      await this.runBackfill(1);
+      await this.scheduleRetention(false);
+    }
+  }
+
+  private retentionDays(): number | null {
+    const days = (this.cfg as { params?: { retention_days?: number } }).params?.retention_days;
+    return typeof days === "number" && days > 0 ? days : null;
+  }
+
+  /**
+   * Keep the retention schedule in line with params.retention_days.
+   * `reset` runs a purge right away (used when the config changes).
+   */
+  private async scheduleRetention(reset: boolean) {
+    if (this.retentionDays() == null || !this.handler.purgeExpired) {
+      await this.state.storage.delete("retention_next_at");
+    } else {
+      const next = await this.state.storage.get<number>("retention_next_at");
+      if (reset || next == null) {
+        await this.state.storage.put("retention_next_at", Date.now() + (reset ? 0 : RETENTION_INTERVAL_MS));
+      }
+    }
+    await this.rescheduleAlarm();
+  }
+
+  /** Run up to `batches` index backfill batches; remembers what is still pending */
+  private async runBackfill(batches: number) {
+    if (!this.handler.backfillStep) return;
+    let pending: string[] = [];
+    for (let i = 0; i < batches; i++) {
+      pending = await this.handler.backfillStep(this.db, this.cfg);
+      if (!pending.length) break;
+    }
+    if (pending.length) await this.state.storage.put("backfill_pending", pending);
+    else await this.state.storage.delete("backfill_pending");
+  }
+
+  /** The storage alarm fires for whichever of backfill / retention / webhook delivery / pipeline send / handler work is due first */
+  private async rescheduleAlarm() {
+    const due: number[] = [];
+    const retentionAt = await this.state.storage.get<number>("retention_next_at");
+    if (retentionAt != null) due.push(retentionAt);
+    if (await this.state.storage.get<string[]>("backfill_pending")) due.push(Date.now());
+    const deliveryAt = nextDeliveryAt(this.db);
+    if (deliveryAt != null) due.push(deliveryAt);
+    const pipelineAt = nextPipelineAt(this.db);
+    if (pipelineAt != null) due.push(pipelineAt);
+    const handlerAt = this.handler?.nextAlarmAt?.(this.db, this.cfg);
+    if (handlerAt != null) due.push(handlerAt);
+
+    if (due.length) await this.state.storage.setAlarm(Math.min(...due));
+    else await this.state.storage.deleteAlarm();
+  }
+
+  async alarm() {
+    await this.init();
+    if (this.configError) return;
+    await this.runBackfill(BACKFILL_BATCHES_PER_ALARM);
+
+    const days = this.retentionDays();
+    const retentionAt = await this.state.storage.get<number>("retention_next_at");
+    if (days != null && this.handler.purgeExpired && retentionAt != null && retentionAt <= Date.now()) {
+      const started = Date.now();
+      const cutoff = Math.floor(started / 1000) - days * 86400;
+      const rows_removed = await this.handler.purgeExpired(this.db, this.cfg, cutoff);
+      const result: PurgeResult = { ran_at: started, cutoff, rows_removed, duration_ms: Date.now() - started };
+      await this.state.storage.put("last_purge", result);
+      await this.state.storage.put("retention_next_at", Date.now() + RETENTION_INTERVAL_MS);
+      await this.notify();
+    }
+
+    if (this.handler.onAlarm) {
+      await this.handler.onAlarm(this.db, this.cfg);
+      await this.notify();
+    }
+
+    await runDeliveries(this.db);
+    pruneDeliveries(this.db);
+    await this.drainPipelines();
+    await this.rescheduleAlarm();
+  }
+
+  /** Validate a proposed config and build its handler; throws ConfigError */
+  private async prepareConfig(input: unknown): Promise<{ next: ActorConfig; handler: Handler }> {
+    const next = parseConfig(input);
+    const handler = buildHandler(next);
+    if (next.pipelines != null) {
+      try {
+        checkPipelines(next.pipelines, handler.changeFeed?.(next), this.actorPath?.split("/")[4] ?? "");
+      } catch (e) {
+        throw new ConfigError(e instanceof Error ? e.message : String(e));
+      }
+      for (const p of next.pipelines) {
+        if (!(await this.siblingExists(p.target))) throw new ConfigError(`pipeline '${p.name}': no actor ${p.target} in this pod`);
+      }
+    }
+    return { next, handler };
+  }
+
+  /** Persist a prepared config, migrate the stored data to it and record it in the history */
+  private async applyConfig(next: ActorConfig, handler: Handler, source: string) {
+    const previous = this.cfg;
+    // a fresh actor (create) or one about to be filled (import) has no data to migrate
+    const upgrade = previous.actorType === next.actorType && previous.version !== next.version &&
+      source !== "create" && source !== "import";
+    // the migration and the new config commit together: a failed migration leaves the actor as it was
+    try {
+      this.state.storage.transactionSync(() => {
+        if (upgrade) handler.migrateFrom?.(previous.version, this.db);
+        void this.state.storage.put("cfg", next);
+      });
+    } catch (e) {
+      throw new ConfigError(`migrating from ${previous.actorType}.${previous.version} failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    this.cfg = next;
+    this.handler = handler;
+    this.configError = null;
+    ensureChangeLog(this.db);
+    ensureWebhookTables(this.db);
+    ensurePipelineTables(this.db);
+    ensureIdempotencyTable(this.db);
+    await this.handler.ensureSchema(this.db, this.cfg);
+    syncPipelines(this.db, this.cfg.pipelines ?? []);
+    const revision = recordConfig(this.db, this.cfg, source, source === "create" ? undefined : previous);
+    await this.runBackfill(1);
+    await this.scheduleRetention(true);
+    return revision;
+  }
+
+  /** What replacing the config with `next` would do to the stored data */
+  private planConfig(next: ActorConfig, handler: Handler): ConfigPlan {
+    const from = `${this.cfg.actorType}.${this.cfg.version}`;
+    const to = `${next.actorType}.${next.version}`;
+    let plan = emptyPlan();
+    if (!this.handler) {
+      plan.notes.push(`replaces an unusable config (${this.configError})`);
+    } else if (from === to) {
+      plan = this.handler.planConfig?.(this.db, next) ?? plan;
+    } else if (this.cfg.actorType === next.actorType) {
+      if (!(versionNumber(next.version) > versionNumber(this.cfg.version))) {
+        plan.conflicts.push(`${from} cannot be downgraded to ${to}`);
+      } else {
+        plan.notes.push(`upgrades the actor from ${from} to ${to} in place${handler.migrateFrom ? "; the stored data is migrated" : ""}`);
+      }
+    } else if (this.handler.exportRows && !this.handler.exportRows(this.db, this.cfg)[Symbol.iterator]().next().done) {
+      plan.conflicts.push(`changing ${from} to ${to} needs an empty actor; export the data and import it into a new actor`);
+    } else {
+      plan.notes.push(`switches the actor from ${from} to ${to}`);
+    }
+
+    const kept = (next.pipelines ?? []).map(p => p.name);
+    const current = (this.cfg.pipelines ?? []).map(p => p.name);
+    for (const name of kept.filter(n => !current.includes(n))) plan.notes.push(`pipeline '${name}' forwards writes from now on`);
+    for (const name of current.filter(n => !kept.includes(n))) {
+      const queued = this.db.exec("SELECT COUNT(*) AS n FROM pipeline_outbox WHERE pipeline = ? AND status = 'pending'", name).toArray()[0].n;
+      plan.notes.push(`pipeline '${name}' is removed${queued ? ` and its ${queued} queued sends are dropped` : ""}`);
+    }
+    return plan;
+  }
+
+  /** Validate, plan and (unless dry_run) apply a config change for PATCH .../config and rollbacks */
+  private async changeConfig(input: unknown, source: string, dryRun: boolean): Promise<Response> {
+    let prepared;
+    try {
+      prepared = await this.prepareConfig(input);
+    } catch (e) {
+      return configRefused(e);
+    }
+    const plan = this.planConfig(prepared.next, prepared.handler);
+    if (plan.conflicts.length) {
+      return Response.json({ error: "config_conflict", message: plan.conflicts.join("; "), plan }, { status: 409 });
+    }
+    if (dryRun) return Response.json({ dry_run: true, config: prepared.next, plan });
+
+    let revision;
+    try {
+      ({ revision } = await this.applyConfig(prepared.next, prepared.handler, source));
+    } catch (e) {
+      return configRefused(e);
     }
+    return Response.json({ dry_run: false, revision, config: this.cfg, plan });
+  }
+
+  /** GET / PATCH .../config, GET .../config/history, POST .../config/rollback */
+  private async configRoute(req: Request, url: URL, subPath: string): Promise<Response | null> {
+    const dryRun = url.searchParams.get("dry_run") === "true";
+
+    if (subPath === "/config" && req.method === "GET") {
+      const [latest] = configHistory(this.db);
+      return Response.json({
+        config: this.cfg,
+        revision: latest?.revision ?? null,
+        applied_at: latest?.applied_at ?? null,
+        error: this.configError
+      });
+    }
+
+    if (subPath === "/config" && req.method === "PATCH") {
+      const body = await req.json().catch(() => undefined);
+      if (body === undefined) return Response.json({ error: "invalid_json" }, { status: 400 });
+      let candidate;
+      try {
+        // JSON Merge Patch by default, JSON Patch with application/json-patch+json
+        candidate = applyPatch(structuredClone(this.cfg), body, req.headers.get("Content-Type"));
+      } catch (e) {
+        if (!(e instanceof PatchError)) throw e;
+        return Response.json({ error: "patch_failed", message: e.message }, { status: 409 });
+      }
+      return this.changeConfig(candidate, "patch", dryRun);
+    }
+
+    if (subPath === "/config/history" && req.method === "GET") {
+      return Response.json({ revisions: configHistory(this.db) });
+    }
+
+    if (subPath === "/config/rollback" && req.method === "POST") {
+      const body = (await req.json().catch(() => null)) as { revision?: unknown } | null;
+      const target = configHistory(this.db).find(r => r.revision === body?.revision);
+      if (!target) {
+        return Response.json({ error: "revision_not_found", message: "pass the revision to restore, from GET .../config/history" }, { status: 404 });
+      }
+      return this.changeConfig(target.config, `rollback:${target.revision}`, dryRun);
+    }
+
+    return null;
+  }
+
+  /** true if the pod registry lists `actorId` in this actor's pod */
+  private async siblingExists(actorId: string): Promise<boolean> {
+    const podName = this.actorPath?.split("/")[2];
+    if (!podName) return false;
+    const registry = this.env.POD_REGISTRY.get(this.env.POD_REGISTRY.idFromName(REGISTRY_NAME));
+    const res = await registry.fetch(new Request(`https://registry/pods/${podName}/actors/${encodeURIComponent(actorId)}`));
+    await res.body?.cancel();
+    return res.ok;
+  }
+
+  /** Send due pipeline outbox entries to their target actors */
+  private async drainPipelines() {
+    const pipelines = this.cfg.pipelines ?? [];
+    if (!pipelines.length || !this.actorPath) return;
+    const podName = this.actorPath.split("/")[2];
+    // checked once per run; an actor deleted since the config was applied must not be recreated by a send
+    const exists = new Map<string, boolean>();
+    const send = async (p: PipelineConfig, body: string, headers: Record<string, string>) => {
+      if (!exists.has(p.target)) exists.set(p.target, await this.siblingExists(p.target));
+      if (!exists.get(p.target)) {
+        return Response.json({ error: "actor_not_found", message: `no actor ${p.target} in pod ${podName}` }, { status: 404 });
+      }
+      // sends go straight to the target's DO, past the router's guard; configs stored before the check are refused here
+      if (isInternalRoute(p.route ?? "items")) {
+        return Response.json({ error: "invalid_route", message: `route ${p.route} is internal` }, { status: 400 });
+      }
+      const target = `/pods/${podName}/actors/${p.target}`;
+      const stub = this.env.ACTOR_DO.get(this.env.ACTOR_DO.idFromName(`${podName}:${p.target}`));
+      return stub.fetch(new Request(`https://actor${target}/${p.route ?? "items"}`, { method: "POST", headers, body }));
+    };
+    await runPipelines(this.db, pipelines, send, this.actorPath);
+  }
+
+  /** GET .../subscribe: accept a hibernatable WebSocket that receives change events */
+  private subscribe(req: Request, url: URL): Response {
+    if (req.headers.get("Upgrade")?.toLowerCase() !== "websocket") {
+      return Response.json({ error: "upgrade_required", message: "subscribe is a WebSocket endpoint" }, { status: 426 });
+    }
+    const spec = this.handler.changeFeed?.(this.cfg);
+    if (!spec) {
+      return Response.json({ 
+        error: "not_supported", 
+        message: `${this.cfg.actorType}.${this.cfg.version} has no change feed`
+      }, { status: 501 });
+    }
+
+    const params = new URLSearchParams(url.search);
+    const since = params.get("since");
+    params.delete("since");
+    const query = params.toString();
+    if (since !== null && !/^\d+$/.test(since)) {
+      return Response.json({ error: "invalid_query", message: "since expects a change sequence number" }, { status: 400 });
+    }
+    try {
+      checkChangeFilter(query, spec);
+    } catch (e) {
+      if (!(e instanceof QueryError)) throw e;
+      return Response.json({ error: "invalid_query", message: e.message }, { status: 400 });
+    }
+
+    const { head, oldest } = changeLogBounds(this.db);
+    const cursor = since === null ? head : Number(since);
+    const [client, server] = Object.values(new WebSocketPair());
+    this.state.acceptWebSocket(server);
+    server.serializeAttachment({ query, cursor } satisfies Subscription);
+    server.send(JSON.stringify({ type: "subscribed", seq: cursor, head }));
+    // events between `since` and the oldest retained one were trimmed from the log
+    if (since !== null && oldest > 0 && cursor < oldest - 1) {
+      server.send(JSON.stringify({ type: "gap", since: cursor, oldest_seq: oldest }));
+    }
+    this.deliver(server);
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  /** Send a subscriber every change after its cursor that passes its filter */
+  private deliver(ws: WebSocket) {
+    const spec = this.handler.changeFeed?.(this.cfg);
+    const sub = ws.deserializeAttachment() as Subscription | null;
+    if (!spec || !sub) return;
+    for (;;) {
+      const { events, cursor } = readChanges(this.db, spec, sub.query, sub.cursor, CHANGE_BATCH);
+      for (const event of events) ws.send(JSON.stringify(event));
+      sub.cursor = cursor;
+      if (events.length < CHANGE_BATCH) break;
+    }
+    ws.serializeAttachment(sub);
+  }
+
+  /** Push new changes to every subscriber (after writes, imports and purges) */
+  private broadcast() {
+    for (const ws of this.state.getWebSockets()) {
+      try {
+        this.deliver(ws);
+      } catch (e) {
+        ws.close(1011, e instanceof Error ? e.message.slice(0, 120) : "delivery failed");
+      }
+    }
+  }
+
+  /**
+   * Fan new changes out after writes, imports and purges: push them to subscribers and queue
+   * webhook deliveries and pipeline sends. Both go out from the alarm, so a slow receiver never holds up a write.
+   */
+  private async notify() {
+    this.broadcast();
+    const spec = this.handler.changeFeed?.(this.cfg);
+    const events = this.handler.webhookEvents;
+    if (!spec) return;
+    const pipelines = this.cfg.pipelines ?? [];
+    const queued = this.state.storage.transactionSync(() => {
+      const n = (events ? enqueueDeliveries(this.db, spec, events) : 0) + (pipelines.length ? enqueuePipelines(this.db, spec, pipelines) : 0);
+      // both have read up to the head now, so the log can let go of its oldest entries
+      trimChangeLog(this.db);
+      return n;
+    });
+    // the alarm may be hours away (retention); pull it in for the new deliveries
+    if (queued) await this.rescheduleAlarm();
+  }
+
+  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer) {
+    // subscribers only listen; "ping" is answered by the auto-response
+    ws.send(JSON.stringify({ type: "error", message: "subscribe sockets are receive-only" }));
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string) {
+    if (ws.readyState === WebSocket.CLOSED) return;
+    // Echo the client's code when it may be sent; reserved ones (1005 no status, 1006 abnormal) throw
+    const sendable = code === 1000 || (code >= 3000 && code <= 4999);
+    ws.close(sendable ? code : 1000, sendable ? reason : "");
+  }
+
+  /** Replay an NDJSON snapshot into this (empty) actor; rows are all-or-nothing */
+  private async importSnapshot(text: string): Promise<Response> {
+    let snapshot;
+    try {
+      snapshot = parseSnapshot(text);
+    } catch (e) {
+      if (!(e instanceof SnapshotError)) throw e;
+      return Response.json({ error: "invalid_snapshot", line: e.line, message: e.message }, { status: 400 });
+    }
+
+    if (!this.handler.exportRows || !this.handler.importRow) return exportNotSupported(this.cfg);
+    if (!this.handler.exportRows(this.db, this.cfg)[Symbol.iterator]().next().done) {
+      return Response.json({ error: "actor_not_empty", message: "import replays into a fresh actor" }, { status: 409 });
+    }
+
+    // the snapshot's config replaces this actor's config before any rows are stored
+    if (snapshot.config) {
+      try {
+        const { next, handler } = await this.prepareConfig(snapshot.config);
+        await this.applyConfig(next, handler, "import");
+      } catch (e) {
+        return configRefused(e);
+      }
+      if (!this.handler.importRow) return exportNotSupported(this.cfg);
+    }
+
+    const importRow = this.handler.importRow.bind(this.handler);
+    let line = 0;
+    try {
+      this.state.storage.transactionSync(() => {
+        for (const r of snapshot.rows) {
+          line = r.line;
+          importRow(this.db, this.cfg, r.row);
+        }
+      });
+    } catch (e) {
+      if (e instanceof SnapshotError) {
+        return Response.json({ error: "invalid_snapshot", line, message: e.message }, { status: 400 });
+      }
+      return Response.json({ 
+        error: "import_failed", 
+        line, 
+        message: e instanceof Error ? e.message : String(e)
+      }, { status: 409 });
+    }
+
+    return Response.json({ 
+      actorType: this.cfg.actorType, 
+      version: this.cfg.version, 
+      config_applied: !!snapshot.config, 
+      rows_imported: snapshot.rows.length 
+    });
   }
 
   async fetch(req: Request) {
     await this.init();
     const url = new URL(req.url);
     const path = url.pathname;
+    // path below /pods/{podName}/actors/{actorId}
+    const subPath = "/" + path.split("/").filter(Boolean).slice(4).join("/");
+    if (!this.actorPath) {
+      this.actorPath = "/" + path.split("/").filter(Boolean).slice(0, 4).join("/");
+      await this.state.storage.put("actor_path", this.actorPath);
+    }
 
     // POST .../__seed
-    if (path.endsWith("/__seed") && req.method === "POST") {
+    if (subPath === "/__seed" && req.method === "POST") {
       const incoming = (await req.json().catch(() => ({}))) as Partial<ActorConfig>;
-      this.cfg = { ...this.cfg, ...incoming } as ActorConfig;
-      await this.state.storage.put("cfg", this.cfg);
-
-      const factory = registry[`${this.cfg.actorType}.${this.cfg.version}`];
-      this.handler = factory(this.cfg);
-      await this.handler.ensureSchema(this.db, this.cfg);
+      try {
+        const { next, handler } = await this.prepareConfig({ ...this.cfg, ...incoming });
+        await this.applyConfig(next, handler, "create");
+      } catch (e) {
+        return configRefused(e);
+      }
       return new Response("ok");
     }
 
+    // POST .../__destroy (the router calls this when the actor is deleted)
+    if (subPath === "/__destroy" && req.method === "POST") {
+      await this.handler?.onDestroy?.(this.db, this.cfg);
+      for (const ws of this.state.getWebSockets()) ws.close(1001, "actor deleted");
+      await this.state.storage.deleteAlarm();
+      await this.state.storage.deleteAll();
+      this.cfg = undefined!;
+      this.handler = undefined!;
+      this.configError = null;
+      return new Response(null, { status: 204 });
+    }
+
+    // GET / PATCH .../config, GET .../config/history, POST .../config/rollback
+    if (subPath === "/config" || subPath.startsWith("/config/")) {
+      const res = await this.configRoute(req, url, subPath);
+      if (res) return res;
+    }
+
+    if (this.configError) {
+      return Response.json({
+        error: "config_unusable",
+        message: `the stored config no longer builds this actor (${this.configError}); fix it with PATCH .../config or POST .../config/rollback`
+      }, { status: 500 });
+    }
+
+    // GET .../export
+    if (req.method === "GET" && subPath === "/export") {
+      if (!this.handler.exportRows) return exportNotSupported(this.cfg);
+      return new Response(snapshotStream(this.cfg, this.handler.exportRows(this.db, this.cfg)), {
+        headers: {
+          "Content-Type": "application/x-ndjson",
+          "Content-Disposition": `attachment; filename="${this.cfg.actorType}-${Date.now()}.ndjson"`
+        }
+      });
+    }
+
+    // POST .../import
+    if (req.method === "POST" && subPath === "/import") {
+      const res = await this.importSnapshot(await req.text());
+      await this.notify();
+      return res;
+    }
+
+    // GET .../subscribe
+    if (req.method === "GET" && subPath === "/subscribe") {
+      return this.subscribe(req, url);
+    }
+
+    // .../webhooks[/{id}[/deliveries[/{deliveryId}/retry]]]
+    if (subPath === "/webhooks" || subPath.startsWith("/webhooks/")) {
+      const spec = this.handler.changeFeed?.(this.cfg);
+      if (!spec || !this.handler.webhookEvents) {
+        return Response.json({ 
+          error: "not_supported", 
+          message: `${this.cfg.actorType}.${this.cfg.version} does not emit webhook events`
+        }, { status: 501 });
+      }
+      const res = await handleWebhooks(req, this.db, subPath.split("/").filter(Boolean).slice(1), this.actorPath, spec, this.handler.webhookEvents);
+      // a retried dead letter is due right away
+      if (req.method === "POST") await this.rescheduleAlarm();
+      return res;
+    }
+
+    // GET .../pipelines
+    if (req.method === "GET" && subPath === "/pipelines") {
+      return Response.json(pipelineStatus(this.db, this.cfg.pipelines ?? []));
+    }
+
+    // GET .../status
+    if (req.method === "GET" && subPath === "/status") {
+      const nextAlarm = await this.state.storage.getAlarm();
+      return Response.json({
+        actorType: this.cfg.actorType,
+        version: this.cfg.version,
+        retention: {
+          retention_days: this.retentionDays(),
+          next_purge_at: (await this.state.storage.get<number>("retention_next_at")) ?? null,
+          last_purge: (await this.state.storage.get<PurgeResult>("last_purge")) ?? null
+        },
+        index_backfill: {
+          pending_columns: (await this.state.storage.get<string[]>("backfill_pending")) ?? [],
+          next_run_at: nextAlarm ?? null
+        }
+      });
+    }
+
     // GET .../openapi.json
     if (path.endsWith("/openapi.json")) {
       // basePath = everything before /openapi.json
@@ -56,6 +635,41 @@ export class ActorDO {
     }
 
     // Delegate to handler (items, etc.)
-    return this.handler.handle(req, this.db, this.cfg);
+    if (req.method === "GET" || req.method === "HEAD") {
+      return this.handler.handle(req, this.db, this.cfg, fn => this.state.storage.transactionSync(fn));
+    }
+    const key = req.headers.get("Idempotency-Key");
+    return key == null ? this.write(req) : this.idempotent(req, key);
+  }
+
+  /** A write to the handler's data routes, followed by change notifications */
+  private async write(req: Request): Promise<Response> {
+    const res = await this.handler.handle(req, this.db, this.cfg, fn => this.state.storage.transactionSync(fn));
+    await this.notify();
+    // a write may have moved the handler's next due time (expiry, redelivery ...)
+    if (this.handler.nextAlarmAt) await this.rescheduleAlarm();
+    return res;
+  }
+
+  /** A write sent with an Idempotency-Key: answered once, replayed from storage within the window */
+  private async idempotent(req: Request, key: string): Promise<Response> {
+    const w = await idempotentWrite(req, key);
+    if (w instanceof Response) return w;
+    // the first request may still be running (reading its body or awaiting the handler)
+    if (this.idempotencyInFlight.has(key)) {
+      return Response.json({
+        error: "idempotency_key_in_use",
+        message: "a request with this Idempotency-Key is still in progress"
+      }, { status: 409 });
+    }
+    const replayed = replay(this.db, w);
+    if (replayed) return replayed;
+
+    this.idempotencyInFlight.add(key);
+    try {
+      return await remember(this.db, w, await this.write(w.request));
+    } finally {
+      this.idempotencyInFlight.delete(key);
+    }
   }
 }
@@ -0,0 +1,91 @@
+// src/auth.ts
+// API keys and scopes, checked by the router before anything reaches a Durable Object.
+//
+//   Authorization: Bearer <key>
+//
+// The root key comes from the PASEO_ADMIN_KEY secret and may do anything. Pod keys
+// (issued with POST /pods/{podName}/keys) only work inside their own pod:
+//
+//   pod:admin     describe / delete the pod, create / delete actors, manage keys (implies all below)
+//   actor:read    GET on actor routes (and POST .../search)
+//   actor:write   writes to actor data (items, responses, batch ...)
+//   actor:config  change an actor's config (PATCH config, rollback, import), register / remove webhooks
+
+import type { Env } from "./types";
+
+export const SCOPES = ["pod:admin", "actor:read", "actor:write", "actor:config"] as const;
+export type Scope = (typeof SCOPES)[number];
+
+/** what a route needs: the root key, or these scopes on the pod */
+export type Requirement = { root: true } | { root: false; podName: string; scopes: Scope[] };
+
+/** who the presented key belongs to */
+export type Principal = { root: true } | { root: false; podName: string; keyId: string; scopes: Scope[] };
+
+export const isScope = (s: unknown): s is Scope => SCOPES.includes(s as Scope);
+
+export async function hashKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** a new pod key: "pk_<keyId>_<secret>"; only the hash is stored */
+export function generateKey(): { keyId: string; key: string } {
+  const hex = (n: number) => [...crypto.getRandomValues(new Uint8Array(n))].map(b => b.toString(16).padStart(2, "0")).join("");
+  const keyId = hex(6);
+  return { keyId, key: `pk_${keyId}_${hex(24)}` };
+}
+
+/** keyId part of a pod key, or null if the value is not shaped like one */
+export const keyIdOf = (key: string) => /^pk_([0-9a-f]{12})_[0-9a-f]{48}$/.exec(key)?.[1] ?? null;
+
+export const bearerToken = (req: Request) => /^Bearer\s+(\S+)$/i.exec(req.headers.get("Authorization") ?? "")?.[1] ?? null;
+
+/** constant-time comparison against the root key secret */
+export async function isRootKey(env: Env, key: string): Promise<boolean> {
+  if (!env.PASEO_ADMIN_KEY) return false;
+  const [a, b] = await Promise.all([key, env.PASEO_ADMIN_KEY].map(k => crypto.subtle.digest("SHA-256", new TextEncoder().encode(k))));
+  return crypto.subtle.timingSafeEqual(a, b);
+}
+
+/** actor subpaths that take a query as a POST body */
+const READ_ONLY_POSTS = ["search"];
+
+/** Scope needed for a /pods/... route (`parts` are the path segments) */
+export function requirementFor(method: string, parts: string[]): Requirement {
+  const [, podName, section, actorId] = parts;
+  if (parts.length === 1) return { root: true };
+  const pod = (...scopes: Scope[]): Requirement => ({ root: false, podName, scopes });
+
+  // the MCP endpoint is open to any key of the pod; each tool call is checked like the route it calls
+  if (section === "mcp" && parts.length === 3) return pod();
+  // pod-level routes: describe / delete pod, list / create actors, keys
+  if (section !== "actors" || !actorId) return pod("pod:admin");
+  if (parts.length === 4) return method === "GET" ? pod("actor:read") : pod("pod:admin");
+
+  const sub = parts.slice(4).join("/");
+  if (sub === "import") return pod("actor:write", "actor:config");
+  if (["config", "webhooks"].includes(sub.split("/")[0]) && method !== "GET" && method !== "HEAD") return pod("actor:config");
+  if (method === "POST" && READ_ONLY_POSTS.includes(sub)) return pod("actor:read");
+  return method === "GET" || method === "HEAD" ? pod("actor:read") : pod("actor:write");
+}
+
+/** true if the principal satisfies the requirement */
+export function allows(principal: Principal, need: Requirement): boolean {
+  if (principal.root) return true;
+  if (need.root || principal.podName !== need.podName) return false;
+  if (principal.scopes.includes("pod:admin")) return true;
+  return need.scopes.every(s => principal.scopes.includes(s));
+}
+
+export const unauthorized = () =>
+  Response.json({ error: "unauthorized", message: "missing or invalid API key" }, {
+    status: 401,
+    headers: { "WWW-Authenticate": "Bearer" }
+  });
+
+export const forbidden = (need: Requirement) =>
+  Response.json({
+    error: "forbidden",
+    message: need.root ? "requires the admin key" : `requires ${need.scopes.join(" and ")} on pod ${need.podName}`
+  }, { status: 403 });
@@ -0,0 +1,125 @@
+// src/changeFeed.ts
+// Durable change log behind GET .../subscribe (WebSocket).
+//
+// Handlers call recordChanges in the same synchronous step as each insert / update / delete,
+// so the log never disagrees with the data. Every entry gets an increasing seq; subscribers
+// resume with ?since={seq}. Once webhooks and pipelines have read new entries, only the newest
+// CHANGE_LOG_LIMIT are kept (trimChangeLog).
+//
+//   {"type":"change","seq":42,"at":1735689600123,"collection":"items","op":"insert","id":"...","doc":{...}}
+
+import { parseListQuery, type ListSpec } from "./handlers/listQuery";
+
+export const CHANGE_LOG_LIMIT = 10_000;
+
+export type ChangeOp = "insert" | "update" | "delete";
+
+export type ChangeEvent = {
+  type: "change";
+  seq: number;
+  at: number;                             // unix ms
+  collection: string;                     // e.g. "items"
+  op: ChangeOp;
+  id: string;                             // the key used in the collection's routes
+  doc: unknown;                           // the document after the change; null for deletes
+};
+
+export function ensureChangeLog(db: SqlStorage) {
+  // cols holds the list-query columns of the row so subscriptions can filter deletes too
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS change_log(
+      seq INTEGER PRIMARY KEY AUTOINCREMENT,
+      at INTEGER NOT NULL,
+      collection TEXT NOT NULL,
+      op TEXT NOT NULL,
+      doc_id TEXT NOT NULL,
+      cols TEXT NOT NULL,
+      body TEXT
+    );
+  `);
+}
+
+/**
+ * Log a change for every row of `spec.table` matching `where`. Call it after inserts and
+ * updates, and before deletes (the row supplies the filter columns). `key` names the id
+ * column clients address documents by.
+ */
+export function recordChanges(
+  db: SqlStorage,
+  spec: ListSpec,
+  key: string,
+  op: ChangeOp,
+  where: string,
+  ...params: SqlStorageValue[]
+) {
+  const cols = [...new Set([spec.idCol, ...Object.keys(spec.columns)])];
+  const t = spec.table;
+  db.exec(
+    `INSERT INTO change_log(at, collection, op, doc_id, cols, body)
+     SELECT ?, ?, ?, ${t}.${key}, json_object(${cols.map(c => `'${c}', ${t}.${c}`).join(", ")}), ${op === "delete" ? "NULL" : `${t}.body`}
+     FROM ${t} WHERE ${where}`,
+    Date.now(), t, op, ...params
+  );
+}
+
+/**
+ * Drop all but the newest CHANGE_LOG_LIMIT entries. Call it only after every consumer with a
+ * cursor (webhooks, pipelines) has read up to the head, or a large batch loses its oldest changes.
+ */
+export function trimChangeLog(db: SqlStorage) {
+  db.exec("DELETE FROM change_log WHERE seq <= (SELECT MAX(seq) FROM change_log) - ?", CHANGE_LOG_LIMIT);
+}
+
+/** newest and oldest retained seq (0 when the log is empty) */
+export function changeLogBounds(db: SqlStorage): { head: number; oldest: number } {
+  const r = db.exec("SELECT IFNULL(MAX(seq), 0) AS head, IFNULL(MIN(seq), 0) AS oldest FROM change_log").toArray()[0];
+  return { head: r.head as number, oldest: r.oldest as number };
+}
+
+/**
+ * Validate a subscription's filter; it takes the list endpoint's query parameters
+ * (equality, [gt] / [in] / [prefix] / ... operators) on the collection's columns.
+ * Throws QueryError.
+ */
+export const checkChangeFilter = (query: string, spec: ListSpec) => {
+  parseListQuery(new URL(`http://feed/?${query}`), spec);
+};
+
+/**
+ * Events after `after` matching the filter, at most `limit`. `cursor` is where the next
+ * read starts: past the last event returned, or past everything scanned if the page was not full.
+ */
+export function readChanges(
+  db: SqlStorage,
+  spec: ListSpec,
+  query: string,
+  after: number,
+  limit: number
+): { events: ChangeEvent[]; cursor: number } {
+  const { head } = changeLogBounds(db);
+  const { where, params } = parseListQuery(new URL(`http://feed/?${query}`), spec);
+
+  // the list query names columns as {table}.{column}; a CTE of that name exposes the logged values
+  const cols = [...new Set([spec.idCol, ...Object.keys(spec.columns)])];
+  const rows = db.exec(
+    `WITH ${spec.table} AS (
+       SELECT seq, at, collection, op, doc_id, body, ${cols.map(c => `json_extract(cols, '$.${c}') AS ${c}`).join(", ")}
+       FROM change_log WHERE collection = ? AND seq > ? AND seq <= ?
+     )
+     SELECT seq, at, collection, op, doc_id, body FROM ${spec.table}
+     ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+     ORDER BY seq LIMIT ?`,
+    spec.table, after, head, ...params, limit
+  ).toArray();
+
+  const events = rows.map(r => ({
+    type: "change" as const,
+    seq: r.seq as number,
+    at: r.at as number,
+    collection: r.collection as string,
+    op: r.op as ChangeOp,
+    id: r.doc_id as string,
+    doc: r.body == null ? null : JSON.parse(r.body as string)
+  }));
+  return { events, cursor: events.length === limit ? events[events.length - 1].seq : Math.max(head, after) };
+}
@@ -0,0 +1,173 @@
+// src/config.ts
+// Actor config validation and history.
+//
+// Every config change (actor creation, PATCH .../config, rollback, import) is checked against the
+// zod schema of its actor type before a handler is built, and recorded in actor_meta so it can be
+// rolled back with POST .../config/rollback.
+
+import { z } from "zod";
+import type { ActorConfig } from "./types";
+import type { ConfigPlan } from "./registry";
+
+/** revisions kept in the config history */
+export const CONFIG_HISTORY_LIMIT = 50;
+
+export class ConfigError extends Error {
+  constructor(message: string, public details?: { path: string; message: string }[]) {
+    super(message);
+  }
+}
+
+const pipelineSchema = z.strictObject({
+  name: z.string(),
+  target: z.string(),
+  route: z.string().optional(),
+  ops: z.array(z.enum(["insert", "update"])).optional(),
+  filter: z.record(z.string(), z.unknown()).optional(),
+  select: z.string().optional(),
+  where: z.record(z.string(), z.unknown()).optional(),
+  fields: z.record(z.string(), z.string()).optional()
+});
+
+const schemaTransformSchema = z.discriminatedUnion("op", [
+  z.strictObject({ op: z.literal("rename"), path: z.string().min(1), to: z.string().min(1) }),
+  z.strictObject({ op: z.literal("move"), from: z.string().min(1), to: z.string().min(1) }),
+  z.strictObject({ op: z.literal("default"), path: z.string().min(1), value: z.unknown() }),
+  z.strictObject({ op: z.literal("remove"), path: z.string().min(1) })
+]);
+
+const schemaVersionSchema = z.strictObject({
+  version: z.string().min(1),
+  schema: z.record(z.string(), z.unknown()),
+  upcast: z.array(schemaTransformSchema).optional()
+});
+
+const base = {
+  schema: z.record(z.string(), z.unknown()),
+  pipelines: z.array(pipelineSchema).optional()
+};
+// versions are checked against the registry when the handler is built
+const version = z.string().regex(/^v\d+$/, "expected a version like v1");
+const indexes = z.array(z.string().min(1)).optional();
+const retentionDays = z.number().positive().optional();
+
+export const storeConfigSchema = z.strictObject({
+  ...base,
+  actorType: z.literal("store"),
+  version,
+  indexes,
+  id_path: z.string().min(1).optional(),
+  schema_version: z.string().min(1).optional(),
+  schema_versions: z.array(schemaVersionSchema).optional(),
+  params: z.strictObject({
+    retention_days: retentionDays,
+    enable_content_search: z.boolean().optional()
+  }).optional()
+});
+
+export const responsesStoreConfigSchema = z.strictObject({
+  ...base,
+  actorType: z.literal("responsesStore"),
+  version,
+  indexes,
+  params: z.strictObject({
+    retention_days: retentionDays,
+    max_output_content_length: z.number().int().positive().optional(),
+    enable_content_search: z.boolean().optional(),
+    search_instructions: z.boolean().optional()
+  }).optional()
+});
+
+export const embeddingStoreConfigSchema = z.strictObject({
+  ...base,
+  actorType: z.literal("embeddingStore"),
+  version,
+  dimensions: z.number().int(),
+  indexes,
+  params: z.strictObject({
+    retention_days: retentionDays,
+    similarity: z.enum(["cosine", "dot"]).optional(),
+    coarse_dimensions: z.number().int().optional(),
+    coarse_k: z.number().int().positive().optional(),
+    provider: z.string().optional(),
+    provider_options: z.record(z.string(), z.unknown()).optional()
+  }).optional()
+});
+
+export const kvConfigSchema = z.strictObject({
+  ...base,
+  actorType: z.literal("kv"),
+  version
+});
+
+export const queueConfigSchema = z.strictObject({
+  ...base,
+  actorType: z.literal("queue"),
+  version,
+  params: z.strictObject({
+    max_attempts: z.number().int().positive().optional(),
+    visibility_timeout_seconds: z.number().positive().optional()
+  }).optional()
+});
+
+export const actorConfigSchema = z.discriminatedUnion("actorType", [
+  storeConfigSchema,
+  responsesStoreConfigSchema,
+  embeddingStoreConfigSchema,
+  kvConfigSchema,
+  queueConfigSchema
+]);
+
+/** Check a config's shape; throws ConfigError listing every problem */
+export function parseConfig(input: unknown): ActorConfig {
+  const parsed = actorConfigSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new ConfigError(
+      "config does not match its actor type",
+      parsed.error.issues.map(i => ({ path: i.path.join("."), message: i.message }))
+    );
+  }
+  return parsed.data as ActorConfig;
+}
+
+export type ConfigRevision = {
+  revision: number;
+  applied_at: number;                // unix ms
+  source: string;                    // "create", "patch", "rollback:{revision}", "import", or "initial" for the config found on the first change
+  config: ActorConfig;
+};
+
+const ensureMeta = (db: SqlStorage) => db.exec("CREATE TABLE IF NOT EXISTS actor_meta(k TEXT PRIMARY KEY, v TEXT)");
+
+/** newest first */
+export function configHistory(db: SqlStorage): ConfigRevision[] {
+  ensureMeta(db);
+  const row = db.exec("SELECT v FROM actor_meta WHERE k = 'config_history'").toArray()[0];
+  return row ? JSON.parse(row.v as string) : [];
+}
+
+/**
+ * Record an applied config. `previous` is kept as the first revision when the history is
+ * empty (actors configured before history existed), so the change can still be rolled back.
+ */
+export function recordConfig(db: SqlStorage, config: ActorConfig, source: string, previous?: ActorConfig): ConfigRevision {
+  const history = configHistory(db);
+  const now = Date.now();
+  if (!history.length && previous) history.unshift({ revision: 1, applied_at: now, source: "initial", config: previous });
+  const entry = { revision: (history[0]?.revision ?? 0) + 1, applied_at: now, source, config };
+  history.unshift(entry);
+  db.exec(
+    "INSERT OR REPLACE INTO actor_meta(k, v) VALUES ('config_history', ?)",
+    JSON.stringify(history.slice(0, CONFIG_HISTORY_LIMIT))
+  );
+  return entry;
+}
+
+export const emptyPlan = (): ConfigPlan => ({
+  columns_added: [],
+  columns_dropped: [],
+  rows: 0,
+  rows_reindexed: 0,
+  notes: [],
+  conflicts: []
+});
@@ -0,0 +1,39 @@
+// src/etag.ts
+
+/** Strong ETag derived from the stored JSON body */
+export async function etagFor(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(body));
+  const hex = [...new Uint8Array(digest)]
+    .slice(0, 16)
+    .map(b => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `"${hex}"`;
+}
+
+/**
+ * true if an If-Match / If-None-Match header value matches the given ETag. If-Match compares
+ * strongly, so a weak W/ tag never matches; If-None-Match compares weakly (RFC 9110 13.1.1-2).
+ */
+const headerMatches = (header: string, etag: string, weak: boolean) =>
+  header.trim() === "*" || header.split(",").map(t => (weak ? t.trim().replace(/^W\//, "") : t.trim())).includes(etag);
+
+/**
+ * Evaluate write preconditions against the current ETag (null = document missing).
+ * Returns false when the request must be rejected with 412.
+ */
+export function preconditionsMet(req: Request, current: string | null): boolean {
+  const ifMatch = req.headers.get("If-Match");
+  if (ifMatch && (current == null || !headerMatches(ifMatch, current, false))) return false;
+  const ifNoneMatch = req.headers.get("If-None-Match");
+  if (ifNoneMatch && current != null && headerMatches(ifNoneMatch, current, true)) return false;
+  return true;
+}
+
+/** true if a conditional GET can be answered with 304 */
+export function notModified(req: Request, current: string): boolean {
+  const ifNoneMatch = req.headers.get("If-None-Match");
+  return !!ifNoneMatch && headerMatches(ifNoneMatch, current, true);
+}
+
+export const preconditionFailed = (etag: string | null) =>
+  Response.json({ error: "precondition_failed", etag }, { status: 412 });
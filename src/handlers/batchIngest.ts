@@ -0,0 +1,181 @@
+// src/handlers/batchIngest.ts
+// POST .../items:batch and .../responses:batch, shared by the store-style handlers.
+//
+//   body: a JSON array of documents, or NDJSON (one document per line) when the
+//         Content-Type is application/x-ndjson, application/jsonl or application/ndjson
+//   ?mode=atomic   (default) every document is validated first; all are written in
+//                  one storage transaction, or none are if any line fails
+//   ?mode=partial  valid lines are written, invalid lines are reported and skipped
+
+import type { Transaction } from "../registry";
+
+/** most documents accepted in one request */
+export const MAX_BATCH = 1000;
+
+const NDJSON_TYPES = ["application/x-ndjson", "application/ndjson", "application/jsonl", "application/x-jsonl"];
+
+type BatchLine = { line: number; doc?: unknown; error?: string };
+
+export type LineResult = {
+  line: number;                           // 1-based position in the array / NDJSON stream
+  ok: boolean;
+  error?: string;
+  details?: unknown;
+  [k: string]: unknown;                   // ids etc. returned by the writer
+};
+
+type Checked<T> = { doc: T } | { details: unknown };
+
+export type BatchWriter<T> = {
+  /** the validated document, or details of why it was rejected (may be async, e.g. to compute embeddings) */
+  validate(doc: unknown): Checked<T> | Promise<Checked<T>>;
+  /** synchronous write of one validated document; runs inside a storage transaction */
+  write(doc: T): Record<string, unknown>;
+};
+
+/** Split the request body into documents, keeping per-line parse errors */
+async function readLines(req: Request): Promise<BatchLine[] | Response> {
+  const text = await req.text();
+  const type = (req.headers.get("Content-Type") ?? "").split(";")[0].trim().toLowerCase();
+
+  if (NDJSON_TYPES.includes(type)) {
+    const lines: BatchLine[] = [];
+    text.split("\n").forEach((raw, i) => {
+      if (!raw.trim()) return;
+      try {
+        lines.push({ line: i + 1, doc: JSON.parse(raw) });
+      } catch {
+        lines.push({ line: i + 1, error: "invalid_json" });
+      }
+    });
+    return lines;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return Response.json({ error: "invalid_json" }, { status: 400 });
+  }
+  if (!Array.isArray(parsed)) {
+    return Response.json({ error: "invalid_batch", message: "expected a JSON array or NDJSON body" }, { status: 400 });
+  }
+  return parsed.map((doc, i) => ({ line: i + 1, doc }));
+}
+
+export async function handleBatch<T>(req: Request, tx: Transaction, writer: BatchWriter<T>): Promise<Response> {
+  const mode = new URL(req.url).searchParams.get("mode") ?? "atomic";
+  if (mode !== "atomic" && mode !== "partial") {
+    return Response.json({ error: "invalid_batch", message: `unknown mode '${mode}'` }, { status: 400 });
+  }
+
+  const lines = await readLines(req);
+  if (lines instanceof Response) return lines;
+  if (!lines.length) return Response.json({ error: "invalid_batch", message: "batch is empty" }, { status: 400 });
+  if (lines.length > MAX_BATCH) {
+    return Response.json({ error: "batch_too_large", message: `at most ${MAX_BATCH} documents per batch` }, { status: 413 });
+  }
+
+  // validate everything before the first write
+  const checked: { line: number; doc?: T; result?: LineResult }[] = [];
+  for (const l of lines) {
+    if (l.error) {
+      checked.push({ line: l.line, result: { line: l.line, ok: false, error: l.error } });
+      continue;
+    }
+    const v = await writer.validate(l.doc);
+    checked.push("doc" in v
+      ? { line: l.line, doc: v.doc }
+      : { line: l.line, result: { line: l.line, ok: false, error: "invalid_document", details: v.details } });
+  }
+  const failed = checked.filter(c => c.result).length;
+
+  if (mode === "atomic") {
+    if (failed) {
+      return Response.json({
+        error: "batch_rejected",
+        written: 0,
+        failed,
+        results: checked.map(c => c.result ?? { line: c.line, ok: true, written: false })
+      }, { status: 400 });
+    }
+    // a write error rolls back the whole batch
+    let at = 0;
+    try {
+      const results = tx(() => checked.map(c => {
+        at = c.line;
+        return { line: c.line, ok: true, ...writer.write(c.doc as T) };
+      }));
+      return Response.json({ written: results.length, failed: 0, results });
+    } catch (e) {
+      return Response.json({
+        error: "batch_failed",
+        written: 0,
+        line: at,
+        message: e instanceof Error ? e.message : String(e)
+      }, { status: 409 });
+    }
+  }
+
+  // partial: each valid document commits on its own
+  const results = checked.map(c => {
+    if (c.result) return c.result;
+    try {
+      return { line: c.line, ok: true, ...tx(() => writer.write(c.doc as T)) };
+    } catch (e) {
+      return { line: c.line, ok: false, error: "write_failed", details: e instanceof Error ? e.message : String(e) };
+    }
+  });
+  const written = results.filter(r => r.ok).length;
+  return Response.json({ written, failed: results.length - written, results });
+}
+
+/** OpenAPI operation for a batch endpoint; `itemSchema` describes one document */
+export function batchOperation(operationId: string, summary: string, itemSchema: unknown, resultProperties: Record<string, unknown>) {
+  const results = {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        line: { type: "integer", description: "1-based position in the array or NDJSON stream" },
+        ok: { type: "boolean" },
+        error: { type: "string" },
+        details: {},
+        ...resultProperties
+      }
+    }
+  };
+  return {
+    operationId,
+    summary,
+    description: `Accepts a JSON array or NDJSON (application/x-ndjson), up to ${MAX_BATCH} documents. ` +
+      "mode=atomic (default) validates every document and writes all of them in one transaction or none; " +
+      "mode=partial writes the valid documents and reports the rest.",
+    parameters: [
+      { name: "mode", in: "query", schema: { type: "string", enum: ["atomic", "partial"], default: "atomic" } }
+    ],
+    requestBody: {
+      required: true,
+      content: {
+        "application/json": { schema: { type: "array", items: itemSchema, maxItems: MAX_BATCH } },
+        "application/x-ndjson": { schema: { type: "string", description: "one JSON document per line" } }
+      }
+    },
+    responses: {
+      "200": {
+        description: "Per-line results (mode=partial may include failed lines)",
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              properties: { written: { type: "integer" }, failed: { type: "integer" }, results }
+            }
+          }
+        }
+      },
+      "400": { description: "Malformed body, or (mode=atomic) at least one invalid line; nothing was written" },
+      "409": { description: "A write failed in mode=atomic; the transaction was rolled back" },
+      "413": { description: `More than ${MAX_BATCH} documents` }
+    }
+  };
+}
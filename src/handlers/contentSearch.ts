@@ -0,0 +1,92 @@
+// src/handlers/contentSearch.ts
+// SQLite FTS5 full-text search over output text, shared by the store-style handlers.
+
+export type SearchTable = {
+  name: string;          // FTS5 virtual table, e.g. "response_outputs_fts"
+  source: string;        // table holding the documents, e.g. "responses"
+  sourceKey: string;     // document key column in `source`, e.g. "response_id"
+};
+
+/** Extract the text of one output array item (string content, content parts, or text) */
+export function extractOutputText(outputItem: any): string | null {
+  if (outputItem.content) {
+    if (typeof outputItem.content === "string") return outputItem.content;
+    if (Array.isArray(outputItem.content)) {
+      // Handle content arrays (like OpenAI's structure)
+      return outputItem.content
+        .filter((item: any) => item.type === "text" || item.type === "output_text")
+        .map((item: any) => item.text)
+        .filter(Boolean)
+        .join(" ");
+    }
+    return null;
+  }
+  return outputItem.text || null;
+}
+
+/**
+ * Create or drop the FTS table to match the config.
+ * Returns true when the table was just created, so existing documents need indexing.
+ */
+export function ensureSearchTable(db: SqlStorage, t: SearchTable, enabled: boolean): boolean {
+  const exists = db.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?", t.name).toArray().length > 0;
+  if (!enabled) {
+    if (exists) db.exec(`DROP TABLE ${t.name}`);
+    return false;
+  }
+  if (exists) return false;
+  db.exec(`
+    CREATE VIRTUAL TABLE ${t.name} USING fts5(
+      doc_id UNINDEXED,
+      output_index UNINDEXED,
+      field UNINDEXED,
+      content,
+      tokenize = 'unicode61 remove_diacritics 2'
+    );
+  `);
+  return true;
+}
+
+export function deleteSearchRows(db: SqlStorage, t: SearchTable, docId: string) {
+  db.exec(`DELETE FROM ${t.name} WHERE doc_id = ?`, docId);
+}
+
+/** Index the full (untruncated) text of a document's output array, plus any extra fields */
+export function writeSearchRows(db: SqlStorage, t: SearchTable, docId: string, doc: any, extraFields: string[] = []) {
+  deleteSearchRows(db, t, docId);
+  if (Array.isArray(doc?.output)) {
+    doc.output.forEach((outputItem: any, i: number) => {
+      const text = outputItem ? extractOutputText(outputItem) : null;
+      if (text) db.exec(`INSERT INTO ${t.name}(doc_id, output_index, field, content) VALUES (?, ?, 'output', ?)`, docId, i, text);
+    });
+  }
+  for (const field of extraFields) {
+    const text = doc?.[field];
+    if (typeof text === "string" && text) {
+      db.exec(`INSERT INTO ${t.name}(doc_id, output_index, field, content) VALUES (?, NULL, ?, ?)`, docId, field, text);
+    }
+  }
+}
+
+/** Index every stored document (used right after the FTS table is created) */
+export function rebuildSearchRows(db: SqlStorage, t: SearchTable, extraFields: string[] = []) {
+  for (const row of db.exec(`SELECT ${t.sourceKey} AS key, body FROM ${t.source}`)) {
+    writeSearchRows(db, t, row.key as string, JSON.parse(row.body as string), extraFields);
+  }
+}
+
+/**
+ * CTE producing one row per matching document: `search_matches(doc_id, score, snippet)`.
+ * score is BM25 (lower is better); snippet highlights hits with <mark>. Binds one parameter: the query.
+ */
+export const searchMatchesCte = (t: SearchTable) => `
+  WITH search_hits AS MATERIALIZED (
+    SELECT doc_id, bm25(${t.name}) AS score, snippet(${t.name}, 3, '<mark>', '</mark>', '…', 16) AS snippet
+    FROM ${t.name} WHERE ${t.name} MATCH ?
+  ),
+  search_matches AS (
+    SELECT doc_id, min(score) AS score, snippet FROM search_hits GROUP BY doc_id
+  )`;
+
+/** FTS5 reports malformed MATCH expressions as SQL errors */
+export const isSearchSyntaxError = (e: unknown) => e instanceof Error && /fts5: syntax error|unterminated string|no such column/.test(e.message);
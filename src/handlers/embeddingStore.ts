@@ -0,0 +1,544 @@
+// src/handlers/embeddingStore.ts
+import type { EmbeddingStoreActorConfig } from "../types";
+import type { ExportRow, Handler } from "../registry";
+import { compileSchema, type ValidationError } from "../json-schema";
+import { exportTableRows, SnapshotError } from "../snapshot";
+import { filterQueryParams, listQueryParams, parseListQuery, QueryError, type ListSpec } from "./listQuery";
+import { backfillBatch, migrateIndexColumns, planIndexedTable, type IndexedTable } from "./indexMigration";
+import { batchOperation, handleBatch } from "./batchIngest";
+import {
+  coarseVector, dot, embeddingProviders, fromBlob, similarity, toBlob, type Similarity
+} from "./embeddings";
+
+/** safe column label from "a.b.c" -> "k_a_b_c" */
+const colName = (p: string) => "k_" + p.replace(/[^a-zA-Z0-9]+/g, "_").slice(0, 48);
+const getPath = (obj: any, path: string) =>
+  path.split(".").reduce((o, k) => (o && typeof o === "object" ? o[k] : undefined), obj);
+
+const MAX_DIMENSIONS = 4096;
+const MAX_K = 100;
+/** most candidates a search may ask the coarse pass to keep */
+const MAX_COARSE_K = 1000;
+/** ids per IN (...) list; DO SQLite binds at most 100 parameters */
+const ID_CHUNK = 90;
+
+const isIntBetween = (v: unknown, min: number, max: number): v is number =>
+  typeof v === "number" && Number.isInteger(v) && v >= min && v <= max;
+
+/** a POST .../search body, checked field by field */
+type SearchBody = {
+  vector?: unknown;
+  text?: unknown;
+  k?: unknown;
+  coarse_k?: unknown;
+  filter?: unknown;
+  min_score?: unknown;
+  include_vectors?: unknown;
+};
+
+/** a validated embedding, ready to store */
+type Prepared = {
+  id: string | null;
+  text: string | null;
+  vector: number[];
+  metadata: Record<string, unknown>;
+};
+
+/** k_* column values for the configured metadata indexes */
+const indexValues = (cfg: EmbeddingStoreActorConfig, metadata: any): Record<string, string | null> => {
+  const values: Record<string, string | null> = {};
+  for (const p of cfg.indexes ?? []) {
+    const v = getPath(metadata, p);
+    values[colName(p)] = v == null ? null : String(v);
+  }
+  return values;
+};
+
+const embeddingsTable: IndexedTable = { table: "embeddings", key: "id", indexName: c => `idx_embeddings_${c}` };
+
+/** filterable / sortable columns of GET /embeddings and POST /search filters */
+const embeddingsListSpec = (cfg: EmbeddingStoreActorConfig): ListSpec => ({
+  table: "embeddings",
+  idCol: "id",
+  columns: {
+    ts: "number",
+    ...Object.fromEntries((cfg.indexes ?? []).map(p => [colName(p), "text" as const]))
+  },
+  defaultSort: "id"
+});
+
+/** WHERE clauses for a search filter, e.g. { "kind": "note", "ts": { "gte": 1700000000 } } */
+const filterClauses = (cfg: EmbeddingStoreActorConfig, filter: unknown) => {
+  const spec = embeddingsListSpec(cfg);
+  const { where, params } = parseListQuery(new URL(`http://filter/?${filterQueryParams(filter, spec)}`), spec);
+  return { where, params };
+};
+
+const toRow = (r: Record<string, SqlStorageValue>, includeVector: boolean) => {
+  const { text, metadata } = JSON.parse(r.body as string);
+  return {
+    id: r.id,
+    ts: r.ts,
+    text,
+    metadata,
+    ...(includeVector ? { vector: Array.from(fromBlob(r.vector)) } : {})
+  };
+};
+
+const validationError = (errors: ValidationError[]) =>
+  Response.json({ error: "invalid_embedding", details: errors }, { status: 400 });
+
+export function embeddingStoreHandlerFactory(cfg: EmbeddingStoreActorConfig): Handler<EmbeddingStoreActorConfig> {
+  const dims = cfg.dimensions;
+  if (!Number.isInteger(dims) || dims < 1 || dims > MAX_DIMENSIONS) {
+    throw new Error(`dimensions must be an integer between 1 and ${MAX_DIMENSIONS}`);
+  }
+  const kind: Similarity = cfg.params?.similarity ?? "cosine";
+  if (kind !== "cosine" && kind !== "dot") throw new Error(`unknown similarity '${kind}'`);
+  const coarseDims = Math.min(cfg.params?.coarse_dimensions ?? 64, dims);
+  if (!Number.isInteger(coarseDims) || coarseDims < 1) throw new Error("coarse_dimensions must be a positive integer");
+  const coarseK = cfg.params?.coarse_k ?? 100;
+  const providerName = cfg.params?.provider ?? "local";
+  if (!embeddingProviders[providerName]) throw new Error(`unknown embedding provider '${providerName}'`);
+  const provider = embeddingProviders[providerName](cfg.params?.provider_options ?? {});
+  // metadata is validated against the configured JSON Schema
+  const validateMetadata = compileSchema(cfg.schema);
+
+  const checkVector = (v: unknown, path: string): ValidationError[] => {
+    if (!Array.isArray(v) || !v.every(x => typeof x === "number" && Number.isFinite(x))) {
+      return [{ path, message: "must be an array of finite numbers" }];
+    }
+    return v.length === dims ? [] : [{ path, message: `must have ${dims} dimensions, got ${v.length}` }];
+  };
+
+  /** Validate without embedding; text-only documents come back with an empty vector */
+  const check = (input: any): { doc: Prepared } | { details: ValidationError[] } => {
+    if (!input || typeof input !== "object" || Array.isArray(input)) return { details: [{ path: "", message: "must be an object" }] };
+    const errors: ValidationError[] = [];
+    if (input.id != null && (typeof input.id !== "string" || !input.id)) errors.push({ path: "/id", message: "must be a non-empty string" });
+    if (input.text != null && typeof input.text !== "string") errors.push({ path: "/text", message: "must be a string" });
+    if (input.vector != null) errors.push(...checkVector(input.vector, "/vector"));
+    if (input.vector == null && typeof input.text !== "string") errors.push({ path: "", message: "needs a vector or text" });
+    const metadata = input.metadata ?? {};
+    errors.push(...validateMetadata(metadata).map(e => ({ ...e, path: "/metadata" + e.path })));
+    if (errors.length) return { details: errors };
+    return { doc: { id: input.id ?? null, text: input.text ?? null, vector: input.vector ?? [], metadata } };
+  };
+
+  /** Embed text with the provider, refusing vectors of the wrong shape */
+  const embedText = async (text: string): Promise<{ vector: number[] } | { details: ValidationError[] }> => {
+    const [vector] = await provider.embed([text], dims);
+    const errors = checkVector(vector, "/vector");
+    if (errors.length) return { details: errors.map(e => ({ ...e, message: `${provider.name} provider returned a vector that ${e.message}` })) };
+    return { vector };
+  };
+
+  /** check, then embed text when no vector was sent */
+  const prepare = async (input: unknown): Promise<{ doc: Prepared } | { details: ValidationError[] }> => {
+    const checked = check(input);
+    if (!("doc" in checked) || checked.doc.vector.length) return checked;
+    const embedded = await embedText(checked.doc.text!);
+    if (!("vector" in embedded)) return embedded;
+    return { doc: { ...checked.doc, vector: embedded.vector } };
+  };
+
+  /** Insert a prepared embedding (synchronous, so it can run in a transaction) */
+  const insertEmbedding = (
+    db: SqlStorage,
+    cfg: EmbeddingStoreActorConfig,
+    p: Prepared,
+    { id, ts, schema_version }: Omit<ExportRow, "body"> = { id: p.id ?? crypto.randomUUID(), ts: Math.floor(Date.now() / 1000), schema_version: "v1" }
+  ) => {
+    const values = indexValues(cfg, p.metadata);
+    const cols = ["id", "ts", "schema_version", "body", "coarse", "vector", ...Object.keys(values)];
+    const marks = cols.map(() => "?").join(", ");
+    db.exec(
+      `INSERT INTO embeddings(${cols.join(",")}) VALUES (${marks})`,
+      id, ts, schema_version, JSON.stringify({ text: p.text, metadata: p.metadata }),
+      toBlob(coarseVector(p.vector, coarseDims, kind)), toBlob(p.vector), ...Object.values(values)
+    );
+    return { id, ts };
+  };
+
+  const exists = (db: SqlStorage, id: string) => db.exec("SELECT 1 FROM embeddings WHERE id = ?", id).toArray().length > 0;
+
+  return {
+    async ensureSchema(db, cfg) {
+      // meta
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS actor_meta(
+          k TEXT PRIMARY KEY,
+          v TEXT
+        );
+      `);
+
+      // vectors are float32 BLOBs; `coarse` holds the stage-one prefix
+      const idxCols = (cfg.indexes ?? []).map(colName);
+      const extraCols = idxCols.map(c => `${c} TEXT`).join(", ");
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS embeddings(
+          id TEXT PRIMARY KEY,
+          ts INTEGER NOT NULL,
+          schema_version TEXT,
+          body TEXT NOT NULL,
+          coarse BLOB NOT NULL,
+          vector BLOB NOT NULL
+          ${extraCols ? "," + extraCols : ""}
+        );
+      `);
+
+      // An existing table keeps its rows: add/drop k_* columns and queue a backfill
+      migrateIndexColumns(db, embeddingsTable, idxCols);
+      for (const c of idxCols) {
+        await db.exec(`CREATE INDEX IF NOT EXISTS idx_embeddings_${c} ON embeddings(${c});`);
+      }
+      await db.exec(`CREATE INDEX IF NOT EXISTS idx_embeddings_ts ON embeddings(ts);`);
+
+      // Recompute stage-one vectors when their length or the similarity changed
+      const coarseConfig = JSON.stringify({ dims: coarseDims, kind });
+      const stored = db.exec("SELECT v FROM actor_meta WHERE k = 'coarse'").toArray()[0]?.v;
+      if (stored != null && stored !== coarseConfig) {
+        for (const r of db.exec("SELECT id, vector FROM embeddings").toArray()) {
+          const coarse = coarseVector(Array.from(fromBlob(r.vector)), coarseDims, kind);
+          db.exec("UPDATE embeddings SET coarse = ? WHERE id = ?", toBlob(coarse), r.id);
+        }
+      }
+      await db.exec("INSERT OR REPLACE INTO actor_meta(k, v) VALUES ('coarse', ?)", coarseConfig);
+    },
+
+    async handle(req, db, cfg, tx) {
+      const url = new URL(req.url);
+      const parts = url.pathname.split("/").filter(Boolean);
+      const last = parts[parts.length - 1];
+
+      // POST /actors/{id}/search
+      if (req.method === "POST" && last === "search") {
+        const body = (await req.json().catch(() => null)) as SearchBody | null;
+        if (!body || typeof body !== "object") return Response.json({ error: "invalid_json" }, { status: 400 });
+
+        const k = body.k ?? 10;
+        if (!isIntBetween(k, 1, MAX_K)) {
+          return Response.json({ error: "invalid_query", message: `k must be an integer between 1 and ${MAX_K}` }, { status: 400 });
+        }
+        // the config's coarse_k is the default
+        if (body.coarse_k !== undefined && !isIntBetween(body.coarse_k, 1, MAX_COARSE_K)) {
+          return Response.json({ error: "invalid_query", message: `coarse_k must be an integer between 1 and ${MAX_COARSE_K}` }, { status: 400 });
+        }
+        const candidates = Math.max(body.coarse_k ?? coarseK, k);
+
+        let query: number[];
+        if (body.vector != null) {
+          const errors = checkVector(body.vector, "/vector");
+          if (errors.length) return Response.json({ error: "invalid_query", details: errors }, { status: 400 });
+          query = body.vector as number[];
+        } else if (typeof body.text === "string" && body.text) {
+          const embedded = await embedText(body.text);
+          if (!("vector" in embedded)) return validationError(embedded.details);
+          query = embedded.vector;
+        } else {
+          return Response.json({ error: "invalid_query", message: "search needs a vector or text" }, { status: 400 });
+        }
+
+        let filter;
+        try {
+          filter = filterClauses(cfg, body.filter);
+        } catch (e) {
+          if (!(e instanceof QueryError)) throw e;
+          return Response.json({ error: "invalid_query", message: e.message }, { status: 400 });
+        }
+        const clause = filter.where.length ? `WHERE ${filter.where.join(" AND ")}` : "";
+
+        // Stage 1: score the truncated vectors of every row that passes the filter, keep the top candidates
+        const coarseQuery = coarseVector(query, coarseDims, kind);
+        let top: { id: string; score: number }[] = [];
+        let scanned = 0;
+        for (const r of db.exec(`SELECT id, coarse FROM embeddings ${clause}`, ...filter.params)) {
+          scanned++;
+          top.push({ id: r.id as string, score: dot(coarseQuery, fromBlob(r.coarse)) });
+          if (top.length >= candidates * 2) top = top.sort((a, b) => b.score - a.score).slice(0, candidates);
+        }
+        top = top.sort((a, b) => b.score - a.score).slice(0, candidates);
+
+        // Stage 2: rerank the candidates with their full vectors
+        const coarseScores = new Map(top.map(t => [t.id, t.score]));
+        const reranked: { row: Record<string, SqlStorageValue>; score: number }[] = [];
+        for (let i = 0; i < top.length; i += ID_CHUNK) {
+          const ids = top.slice(i, i + ID_CHUNK).map(t => t.id);
+          const rows = db.exec(
+            `SELECT id, ts, body, vector FROM embeddings WHERE id IN (${ids.map(() => "?").join(", ")})`, ...ids
+          );
+          for (const r of rows) reranked.push({ row: r, score: similarity(kind, query, fromBlob(r.vector)) });
+        }
+        reranked.sort((a, b) => b.score - a.score);
+
+        const minScore = typeof body.min_score === "number" ? body.min_score : -Infinity;
+        return Response.json({
+          results: reranked.filter(r => r.score >= minScore).slice(0, k).map(({ row, score }) => ({
+            ...toRow(row, !!body.include_vectors),
+            score,
+            coarse_score: coarseScores.get(row.id as string)
+          })),
+          stats: { scanned, candidates: top.length, dimensions: dims, coarse_dimensions: coarseDims, similarity: kind }
+        });
+      }
+
+      // GET /actors/{id}/embeddings
+      if (req.method === "GET" && last === "embeddings") {
+        let list;
+        try {
+          list = parseListQuery(url, embeddingsListSpec(cfg));
+        } catch (e) {
+          if (!(e instanceof QueryError)) throw e;
+          return Response.json({ error: "invalid_query", message: e.message }, { status: 400 });
+        }
+        const includeVectors = url.searchParams.get("include_vectors") === "true";
+        const clause = list.where.length ? `WHERE ${list.where.join(" AND ")}` : "";
+        const results = db.exec(
+          `SELECT id, ts, body, ${includeVectors ? "vector," : ""} ${list.sortExpr} AS sort_key
+           FROM embeddings ${clause} ORDER BY ${list.orderBy} LIMIT ?`,
+          ...list.params, list.limit
+        ).toArray();
+        const lastRow = results[results.length - 1];
+        return Response.json({
+          embeddings: results.map(r => toRow(r, includeVectors)),
+          next_cursor: results.length === list.limit ? list.nextCursor(lastRow) : null
+        });
+      }
+
+      // POST /actors/{id}/embeddings
+      if (req.method === "POST" && last === "embeddings") {
+        const input = await req.json().catch(() => undefined);
+        if (input === undefined) return Response.json({ error: "invalid_json" }, { status: 400 });
+        const prepared = await prepare(input);
+        if (!("doc" in prepared)) return validationError(prepared.details);
+        if (prepared.doc.id && exists(db, prepared.doc.id)) {
+          return Response.json({ error: "duplicate_id", message: `embedding '${prepared.doc.id}' already exists` }, { status: 409 });
+        }
+        return Response.json(insertEmbedding(db, cfg, prepared.doc));
+      }
+
+      // POST /actors/{id}/embeddings:batch
+      if (req.method === "POST" && last === "embeddings:batch") {
+        return handleBatch(req, tx, {
+          validate: prepare,
+          write: doc => insertEmbedding(db, cfg, doc)
+        });
+      }
+
+      // GET /actors/{id}/embeddings/{embeddingId}
+      if (req.method === "GET" && parts[parts.length - 2] === "embeddings") {
+        const r = db.exec("SELECT id, ts, body, vector FROM embeddings WHERE id = ?", last).toArray()[0];
+        if (!r) return new Response("Not Found", { status: 404 });
+        return Response.json(toRow(r, true));
+      }
+
+      // DELETE /actors/{id}/embeddings/{embeddingId}
+      if (req.method === "DELETE" && parts[parts.length - 2] === "embeddings") {
+        const removed = db.exec("DELETE FROM embeddings WHERE id = ?", last).rowsWritten;
+        return removed ? new Response(null, { status: 204 }) : new Response("Not Found", { status: 404 });
+      }
+
+      return new Response("Not Found", { status: 404 });
+    },
+
+    async backfillStep(db, cfg) {
+      return backfillBatch(db, embeddingsTable, doc => indexValues(cfg, doc.metadata));
+    },
+
+    planConfig(db, next) {
+      const plan = planIndexedTable(db, embeddingsTable, (next.indexes ?? []).map(colName), next.params?.retention_days);
+      if (next.dimensions !== dims && plan.rows) {
+        plan.conflicts.push(`dimensions cannot change from ${dims} to ${next.dimensions} while ${plan.rows} vectors are stored`);
+      }
+      const nextKind = next.params?.similarity ?? "cosine";
+      if (Math.min(next.params?.coarse_dimensions ?? 64, next.dimensions) !== coarseDims || nextKind !== kind) {
+        plan.notes.push("recomputes the coarse vectors used by the first search stage");
+        plan.rows_reindexed = plan.rows;
+      }
+      if ((next.params?.provider ?? "local") !== providerName) {
+        plan.notes.push("stored vectors were embedded by the previous provider; only new text uses the new one");
+      }
+      const validateNext = compileSchema(next.schema);
+      let invalid = 0;
+      for (const r of db.exec("SELECT body FROM embeddings")) {
+        if (validateNext(JSON.parse(r.body as string).metadata ?? {}).length) invalid++;
+      }
+      plan.rows_invalid = invalid;
+      return plan;
+    },
+
+    async purgeExpired(db, cfg, before) {
+      const embeddings = db.exec("DELETE FROM embeddings WHERE ts < ?", before).rowsWritten;
+      return { embeddings };
+    },
+
+    exportRows(db) {
+      return exportTableRows(db, "embeddings", ["vector"], (body, r) => ({ ...body, vector: Array.from(fromBlob(r.vector)) }));
+    },
+
+    importRow(db, cfg, row) {
+      // snapshots always carry vectors, so nothing needs embedding here
+      const checked = check(row.body);
+      if (!("doc" in checked)) {
+        throw new SnapshotError(`invalid embedding: ${checked.details.map(e => `${e.path || "/"} ${e.message}`).join("; ")}`);
+      }
+      if (!checked.doc.vector.length) throw new SnapshotError("row has no vector");
+      const { body, ...meta } = row;
+      insertEmbedding(db, cfg, checked.doc, meta);
+    },
+
+    openapi(cfg, basePath) {
+      const indexParams = listQueryParams(embeddingsListSpec(cfg));
+      const vector = { type: "array", items: { type: "number" }, minItems: dims, maxItems: dims };
+      const embeddingInput = {
+        type: "object",
+        properties: {
+          id: { type: "string", description: "optional; generated when omitted" },
+          text: { type: "string", description: `embedded with the '${providerName}' provider when no vector is given` },
+          vector,
+          metadata: cfg.schema
+        }
+      };
+      const embedding = {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          ts: { type: "integer" },
+          text: { type: "string", nullable: true },
+          metadata: { type: "object" },
+          vector
+        }
+      };
+      const filterableFields = ["ts", ...(cfg.indexes ?? [])];
+      const embeddingIdParam = { name: "embeddingId", in: "path", required: true, schema: { type: "string" } };
+
+      return {
+        openapi: "3.1.0",
+        info: {
+          title: "Paseo Embedding Store Actor",
+          version: "0.1.0",
+          description: `Vectors (${dims} dimensions) with metadata. Search scores the first ${coarseDims} dimensions of every ` +
+            `matching vector, keeps the top ${coarseK}, then reranks them with the full vector (${kind} similarity).`
+        },
+        paths: {
+          [`${basePath}/search`]: {
+            post: {
+              operationId: "search_embeddings",
+              summary: "Two-stage similarity search",
+              requestBody: {
+                required: true,
+                content: {
+                  "application/json": {
+                    schema: {
+                      type: "object",
+                      properties: {
+                        vector,
+                        text: { type: "string", description: "embedded with the configured provider when no vector is given" },
+                        k: { type: "integer", minimum: 1, maximum: MAX_K, default: 10 },
+                        coarse_k: { type: "integer", minimum: 1, maximum: MAX_COARSE_K, default: coarseK, description: "candidates kept from the coarse pass" },
+                        min_score: { type: "number" },
+                        include_vectors: { type: "boolean", default: false },
+                        filter: {
+                          type: "object",
+                          description: `metadata filters on ${filterableFields.join(", ")}: a value for equality, or ` +
+                            "{ op: value } with op one of eq, ne, gt, gte, lt, lte, in (array), prefix, exists"
+                        }
+                      }
+                    }
+                  }
+                }
+              },
+              responses: {
+                "200": {
+                  description: "Best matches first",
+                  content: {
+                    "application/json": {
+                      schema: {
+                        type: "object",
+                        properties: {
+                          results: {
+                            type: "array",
+                            items: {
+                              ...embedding,
+                              properties: {
+                                ...embedding.properties,
+                                score: { type: "number", description: `${kind} similarity with the full vector` },
+                                coarse_score: { type: "number", description: "stage-one score on the truncated vector" }
+                              }
+                            }
+                          },
+                          stats: { type: "object" }
+                        }
+                      }
+                    }
+                  }
+                },
+                "400": { description: "Invalid vector, text or filter" }
+              }
+            }
+          },
+          [`${basePath}/embeddings`]: {
+            get: {
+              operationId: "list_embeddings",
+              summary: "List embeddings",
+              parameters: [
+                { name: "limit", in: "query", schema: { type: "integer", maximum: 200 } },
+                { name: "include_vectors", in: "query", schema: { type: "boolean" } },
+                ...indexParams
+              ],
+              responses: {
+                "200": {
+                  description: "Embeddings (vectors only with include_vectors=true)",
+                  content: {
+                    "application/json": {
+                      schema: {
+                        type: "object",
+                        properties: {
+                          embeddings: { type: "array", items: embedding },
+                          next_cursor: { type: "string", nullable: true }
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            },
+            post: {
+              operationId: "store_embedding",
+              summary: "Store an embedding",
+              requestBody: { required: true, content: { "application/json": { schema: embeddingInput } } },
+              responses: {
+                "200": { description: "Stored", content: { "application/json": { schema: { type: "object", properties: { id: { type: "string" }, ts: { type: "integer" } } } } } },
+                "400": { description: "Invalid vector or metadata" },
+                "409": { description: "An embedding with this id exists" }
+              }
+            }
+          },
+          [`${basePath}/embeddings:batch`]: {
+            post: batchOperation("store_embeddings_batch", "Store many embeddings", embeddingInput, {
+              id: { type: "string" },
+              ts: { type: "integer" }
+            })
+          },
+          [`${basePath}/embeddings/{embeddingId}`]: {
+            get: {
+              operationId: "get_embedding",
+              summary: "Fetch one embedding with its vector",
+              parameters: [embeddingIdParam],
+              responses: {
+                "200": { description: "The embedding", content: { "application/json": { schema: embedding } } },
+                "404": { description: "Not found" }
+              }
+            },
+            delete: {
+              operationId: "delete_embedding",
+              summary: "Delete an embedding",
+              parameters: [embeddingIdParam],
+              responses: { "204": { description: "Deleted" }, "404": { description: "Not found" } }
+            }
+          }
+        }
+      };
+    }
+  };
+}
@@ -0,0 +1,92 @@
+// src/handlers/embeddings.ts
+// Embedding providers and vector helpers for the embeddingStore actor.
+
+/** Turns text into vectors of the requested length */
+export interface EmbeddingProvider {
+  readonly name: string;
+  embed(texts: string[], dimensions: number): Promise<number[][]>;
+}
+
+export type EmbeddingProviderFactory = (options: Record<string, unknown>) => EmbeddingProvider;
+
+export type Similarity = "cosine" | "dot";
+
+/** FNV-1a, 32 bit */
+const fnv1a = (s: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const tokenize = (text: string) =>
+  text.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+/**
+ * Deterministic feature-hashing embedder (words and character trigrams), no network.
+ * Every feature is hashed into each power-of-two prefix of the vector, so truncated
+ * prefixes are usable embeddings on their own, like matryoshka-trained models.
+ */
+export const localProvider: EmbeddingProviderFactory = () => ({
+  name: "local",
+  async embed(texts, dimensions) {
+    const levels: number[] = [];
+    for (let l = Math.min(8, dimensions); l < dimensions; l *= 2) levels.push(l);
+    levels.push(dimensions);
+
+    return texts.map(text => {
+      const v = new Array<number>(dimensions).fill(0);
+      const features: string[] = [];
+      for (const word of tokenize(text)) {
+        features.push("w:" + word);
+        const padded = `#${word}#`;
+        for (let i = 0; i + 3 <= padded.length; i++) features.push("t:" + padded.slice(i, i + 3));
+      }
+      for (const f of features) {
+        const h = fnv1a(f);
+        const sign = fnv1a("s:" + f) & 1 ? 1 : -1;
+        const weight = f.startsWith("w:") ? 2 : 1;
+        for (const l of levels) v[h % l] += sign * weight;
+      }
+      return normalize(v);
+    });
+  }
+});
+
+/** Providers selectable with params.provider; deployments can register their own */
+export const embeddingProviders: Record<string, EmbeddingProviderFactory> = {
+  local: localProvider
+};
+
+export function registerEmbeddingProvider(name: string, factory: EmbeddingProviderFactory) {
+  embeddingProviders[name] = factory;
+}
+
+export const dot = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+  let s = 0;
+  for (let i = 0; i < a.length; i++) s += a[i] * b[i];
+  return s;
+};
+
+export const norm = (a: ArrayLike<number>) => Math.sqrt(dot(a, a));
+
+export function normalize(v: number[]): number[] {
+  const n = norm(v);
+  return n === 0 ? v : v.map(x => x / n);
+}
+
+export const similarity = (kind: Similarity, a: ArrayLike<number>, b: ArrayLike<number>) => {
+  if (kind === "dot") return dot(a, b);
+  const n = norm(a) * norm(b);
+  return n === 0 ? 0 : dot(a, b) / n;
+};
+
+/** Stage-one vector: the first `dims` components, renormalized for cosine so a plain dot product ranks them */
+export const coarseVector = (v: number[], dims: number, kind: Similarity) =>
+  kind === "cosine" ? normalize(v.slice(0, dims)) : v.slice(0, dims);
+
+/** float32 BLOB encoding used in DO SQLite */
+export const toBlob = (v: number[]) => new Float32Array(v).buffer;
+export const fromBlob = (b: unknown) => new Float32Array(b as ArrayBuffer);
@@ -0,0 +1,114 @@
+// src/handlers/indexMigration.ts
+// In-place migration of the generated k_* index columns shared by the store-style handlers.
+
+import type { ConfigPlan } from "../registry";
+
+/** rows re-indexed per backfill batch */
+export const BACKFILL_BATCH = 500;
+
+export type IndexedTable = {
+  table: string;                          // e.g. "items"
+  key: string;                            // primary key, used as the backfill cursor
+  indexName: (col: string) => string;     // e.g. c => `idx_${c}`
+};
+
+type BackfillState = { columns: string[]; after: string | null };
+
+const readState = (db: SqlStorage): BackfillState | null => {
+  const row = db.exec("SELECT v FROM actor_meta WHERE k = 'backfill'").toArray()[0];
+  return row ? JSON.parse(row.v as string) : null;
+};
+
+const writeState = (db: SqlStorage, state: BackfillState | null) => {
+  if (state && state.columns.length) {
+    db.exec("INSERT OR REPLACE INTO actor_meta(k, v) VALUES ('backfill', ?)", JSON.stringify(state));
+  } else {
+    db.exec("DELETE FROM actor_meta WHERE k = 'backfill'");
+  }
+};
+
+const indexColumnDiff = (db: SqlStorage, t: IndexedTable, wanted: string[]) => {
+  const existing = db.exec(`PRAGMA table_info(${t.table})`).toArray()
+    .map(r => r.name as string)
+    .filter(n => n.startsWith("k_"));
+  return { added: wanted.filter(c => !existing.includes(c)), removed: existing.filter(c => !wanted.includes(c)) };
+};
+
+/**
+ * What a config with these k_* columns (and retention window) would do to the table,
+ * without changing it; the start of a handler's planConfig.
+ */
+export function planIndexedTable(db: SqlStorage, t: IndexedTable, wanted: string[], retentionDays?: number): ConfigPlan {
+  const { added, removed } = indexColumnDiff(db, t, wanted);
+  const rows = db.exec(`SELECT COUNT(*) AS n FROM ${t.table}`).toArray()[0].n as number;
+  const plan: ConfigPlan = {
+    columns_added: added,
+    columns_dropped: removed,
+    rows,
+    rows_reindexed: added.length ? rows : 0,
+    notes: [],
+    conflicts: []
+  };
+  if (retentionDays) {
+    const cutoff = Math.floor(Date.now() / 1000) - retentionDays * 86400;
+    plan.rows_expiring = db.exec(`SELECT COUNT(*) AS n FROM ${t.table} WHERE ts < ?`, cutoff).toArray()[0].n as number;
+  }
+  return plan;
+}
+
+/**
+ * Bring the k_* columns of an existing table in line with the configured ones.
+ * Added columns are created empty and queued for backfill; removed columns lose
+ * their index and are dropped. No rows are deleted.
+ */
+export function migrateIndexColumns(db: SqlStorage, t: IndexedTable, wanted: string[]) {
+  const { added, removed } = indexColumnDiff(db, t, wanted);
+
+  for (const c of removed) {
+    db.exec(`DROP INDEX IF EXISTS ${t.indexName(c)}`);
+    db.exec(`ALTER TABLE ${t.table} DROP COLUMN ${c}`);
+  }
+  for (const c of added) {
+    db.exec(`ALTER TABLE ${t.table} ADD COLUMN ${c} TEXT`);
+  }
+
+  // carry over a backfill that was still running, minus dropped columns
+  const state = readState(db);
+  const pending = (state?.columns ?? []).filter(c => wanted.includes(c));
+  const columns = [...new Set([...pending, ...added])];
+  // newly added columns need every row, so restart the cursor
+  writeState(db, { columns, after: added.length ? null : state?.after ?? null });
+
+  return { added, removed };
+}
+
+/**
+ * Re-index one batch of rows for the queued columns.
+ * Returns the columns still pending; an empty list means the backfill is complete.
+ */
+export function backfillBatch(
+  db: SqlStorage,
+  t: IndexedTable,
+  extract: (doc: any) => Record<string, string | null>,
+  batchSize = BACKFILL_BATCH
+): string[] {
+  const state = readState(db);
+  if (!state) return [];
+
+  const rows = state.after == null
+    ? db.exec(`SELECT ${t.key} AS key, body FROM ${t.table} ORDER BY ${t.key} ASC LIMIT ?`, batchSize).toArray()
+    : db.exec(`SELECT ${t.key} AS key, body FROM ${t.table} WHERE ${t.key} > ? ORDER BY ${t.key} ASC LIMIT ?`, state.after, batchSize).toArray();
+
+  const sets = state.columns.map(c => `${c} = ?`).join(", ");
+  for (const row of rows) {
+    const values = extract(JSON.parse(row.body as string));
+    db.exec(`UPDATE ${t.table} SET ${sets} WHERE ${t.key} = ?`, ...state.columns.map(c => values[c] ?? null), row.key);
+  }
+
+  if (rows.length < batchSize) {
+    writeState(db, null);
+    return [];
+  }
+  writeState(db, { columns: state.columns, after: rows[rows.length - 1].key as string });
+  return state.columns;
+}
@@ -0,0 +1,525 @@
+// src/handlers/kv.ts
+// kv.v1: small shared values (flags, cursors, counters) addressed by key.
+//
+//   GET    .../kv?prefix=run:&limit=100&cursor=...   keys in key order
+//   GET    .../kv/{key}
+//   PUT    .../kv/{key}               { value, ttl_seconds?, if_version? }
+//   DELETE .../kv/{key}?if_version=3
+//   POST   .../kv/{key}/increment     { by?, ttl_seconds?, if_version? }
+//   POST   .../kv:transaction         { ops: [{ op: "put" | "delete" | "increment" | "check", key, ... }] }
+//
+// Every write gives the key a new version from one counter for the whole actor, so a key that is
+// deleted (or expires) and written again never repeats an earlier version. `if_version` makes a write
+// conditional: the key must be at that version, or missing for 0; otherwise 409 version_conflict.
+// A transaction applies all of its ops or none. Keys with a TTL stop being returned once they
+// expire and are deleted from the actor's alarm. Values are any JSON the config's `schema` accepts.
+
+import { z } from "zod";
+import type { KvActorConfig } from "../types";
+import type { Handler } from "../registry";
+import { emptyPlan } from "../config";
+import { compileSchema, type ValidationError } from "../json-schema";
+import { exportTableRows, SnapshotError } from "../snapshot";
+
+const MAX_KEY_LENGTH = 512;
+/** serialized JSON size of one value */
+const MAX_VALUE_BYTES = 128 * 1024;
+/** most ops in one transaction */
+const MAX_TX_OPS = 100;
+const MAX_LIST_LIMIT = 1000;
+
+/** a refused operation, with the error code and status it is answered with */
+class KvError extends Error {
+  constructor(public status: number, public code: string, message: string, public extra: Record<string, unknown> = {}) {
+    super(message);
+  }
+}
+
+const refused = (e: unknown, extra: Record<string, unknown> = {}) => {
+  if (!(e instanceof KvError)) throw e;
+  return Response.json({ error: e.code, message: e.message, ...e.extra, ...extra }, { status: e.status });
+};
+
+const key = z.string().min(1).max(MAX_KEY_LENGTH);
+const ttlSeconds = z.number().positive().optional();
+const ifVersion = z.number().int().nonnegative().optional();
+
+const putBody = z.strictObject({ value: z.unknown(), ttl_seconds: ttlSeconds, if_version: ifVersion });
+const incrementBody = z.strictObject({ by: z.number().optional(), ttl_seconds: ttlSeconds, if_version: ifVersion });
+
+const txOp = z.discriminatedUnion("op", [
+  putBody.extend({ op: z.literal("put"), key }),
+  z.strictObject({ op: z.literal("delete"), key, if_version: ifVersion }),
+  incrementBody.extend({ op: z.literal("increment"), key }),
+  // asserts a version without writing
+  z.strictObject({ op: z.literal("check"), key, version: z.number().int().nonnegative() })
+]);
+const txBody = z.strictObject({ ops: z.array(txOp).min(1).max(MAX_TX_OPS) });
+
+type TxOp = z.infer<typeof txOp>;
+
+/** a zod failure as 400 invalid_request */
+const invalidRequest = (issues: { path: PropertyKey[]; message: string }[]) =>
+  Response.json({
+    error: "invalid_request",
+    details: issues.map(i => ({ path: i.path.join("."), message: i.message }))
+  }, { status: 400 });
+
+/** a live (unexpired) entry */
+type Entry = { key: string; value: unknown; version: number; ts: number; expires_at: number | null };
+
+const toEntry = (r: Record<string, SqlStorageValue>): Entry => ({
+  key: r.id as string,
+  value: JSON.parse(r.body as string),
+  version: r.version as number,
+  ts: r.ts as number,
+  expires_at: (r.expires_at as number | null) ?? null
+});
+
+/** the next version from the actor-wide counter (synchronous; rolls back with its transaction) */
+const nextVersion = (db: SqlStorage): number =>
+  Number(db.exec(
+    "UPDATE actor_meta SET v = CAST(v AS INTEGER) + 1 WHERE k = 'kv_version' RETURNING v"
+  ).one().v);
+
+/** the smallest string above every string starting with `prefix` (null: no upper bound) */
+function prefixEnd(prefix: string): string | null {
+  const points = [...prefix];
+  while (points.length) {
+    const last = points.pop()!.codePointAt(0)!;
+    if (last < 0x10ffff) return points.join("") + String.fromCodePoint(last === 0xd7ff ? 0xe000 : last + 1);
+  }
+  return null;
+}
+
+export function kvHandlerFactory(cfg: KvActorConfig): Handler<KvActorConfig> {
+  const validateValue = compileSchema(cfg.schema);
+
+  const read = (db: SqlStorage, k: string): Entry | null => {
+    const r = db.exec(
+      "SELECT id, ts, body, version, expires_at FROM kv WHERE id = ? AND (expires_at IS NULL OR expires_at > ?)",
+      k, Date.now()
+    ).toArray()[0];
+    return r ? toEntry(r) : null;
+  };
+
+  const checkVersion = (k: string, current: Entry | null, expected: number | undefined) => {
+    if (expected === undefined || expected === (current?.version ?? 0)) return;
+    throw new KvError(409, "version_conflict", `key '${k}' is at version ${current?.version ?? 0}, not ${expected}`, {
+      key: k,
+      version: current?.version ?? 0
+    });
+  };
+
+  const checkValue = (k: string, value: unknown) => {
+    if (value === undefined) throw new KvError(400, "invalid_value", `no value given for '${k}'`);
+    const errors: ValidationError[] = validateValue(value);
+    if (errors.length) throw new KvError(400, "invalid_value", `value of '${k}' does not match the schema`, { details: errors });
+    const json = JSON.stringify(value);
+    if (new TextEncoder().encode(json).byteLength > MAX_VALUE_BYTES) throw new KvError(413, "value_too_large", `values are limited to ${MAX_VALUE_BYTES} bytes of JSON`);
+    return json;
+  };
+
+  /** Store `value` as the key's next version (synchronous, so it can run in a transaction) */
+  const store = (db: SqlStorage, k: string, json: string, expiresAt: number | null) => {
+    const version = nextVersion(db);
+    db.exec(
+      "INSERT OR REPLACE INTO kv(id, ts, schema_version, body, version, expires_at) VALUES (?, ?, NULL, ?, ?, ?)",
+      k, Math.floor(Date.now() / 1000), json, version, expiresAt
+    );
+    return { key: k, version, expires_at: expiresAt };
+  };
+
+  const expiry = (ttl: number | undefined) => (ttl === undefined ? null : Date.now() + Math.round(ttl * 1000));
+
+  const put = (db: SqlStorage, k: string, body: z.infer<typeof putBody>) => {
+    const current = read(db, k);
+    checkVersion(k, current, body.if_version);
+    return { ...store(db, k, checkValue(k, body.value), expiry(body.ttl_seconds)), created: !current };
+  };
+
+  /** adds `by` to a numeric value; a missing key counts from 0 and takes ttl_seconds, an existing one keeps its expiry */
+  const increment = (db: SqlStorage, k: string, body: z.infer<typeof incrementBody>) => {
+    const current = read(db, k);
+    checkVersion(k, current, body.if_version);
+    if (current && typeof current.value !== "number") {
+      throw new KvError(409, "not_a_number", `key '${k}' holds ${current.value === null ? "null" : typeof current.value}, not a number`);
+    }
+    const value = ((current?.value as number | undefined) ?? 0) + (body.by ?? 1);
+    if (!Number.isFinite(value)) throw new KvError(409, "not_a_number", `incrementing '${k}' overflows`);
+    const expiresAt = current ? current.expires_at : expiry(body.ttl_seconds);
+    return { ...store(db, k, checkValue(k, value), expiresAt), value };
+  };
+
+  const remove = (db: SqlStorage, k: string, expected: number | undefined) => {
+    const current = read(db, k);
+    checkVersion(k, current, expected);
+    if (current) db.exec("DELETE FROM kv WHERE id = ?", k);
+    return { key: k, deleted: !!current };
+  };
+
+  const applyOp = (db: SqlStorage, op: TxOp) => {
+    switch (op.op) {
+      case "put": {
+        const { created, ...result } = put(db, op.key, op);
+        return result;
+      }
+      case "increment":
+        return increment(db, op.key, op);
+      case "delete":
+        return remove(db, op.key, op.if_version);
+      case "check": {
+        const current = read(db, op.key);
+        checkVersion(op.key, current, op.version);
+        return { key: op.key, version: current?.version ?? 0 };
+      }
+    }
+  };
+
+  return {
+    async ensureSchema(db) {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS kv(
+          id TEXT PRIMARY KEY,              -- the key
+          ts INTEGER NOT NULL,              -- last write, unix seconds
+          schema_version TEXT,
+          body TEXT NOT NULL,               -- the value as JSON
+          version INTEGER NOT NULL,
+          expires_at INTEGER                -- unix ms; null for keys without a TTL
+        );
+      `);
+      await db.exec("CREATE INDEX IF NOT EXISTS idx_kv_expires_at ON kv(expires_at) WHERE expires_at IS NOT NULL;");
+      // the version counter starts above every stored version
+      await db.exec("CREATE TABLE IF NOT EXISTS actor_meta(k TEXT PRIMARY KEY, v TEXT);");
+      await db.exec("INSERT OR IGNORE INTO actor_meta(k, v) SELECT 'kv_version', IFNULL(MAX(version), 0) FROM kv;");
+    },
+
+    async handle(req, db, cfg, tx) {
+      const url = new URL(req.url);
+      // below /pods/{podName}/actors/{actorId}
+      const [collection, rawKey, action, ...rest] = url.pathname.split("/").filter(Boolean).slice(4);
+
+      // POST /actors/{id}/kv:transaction
+      if (req.method === "POST" && collection === "kv:transaction" && rawKey === undefined) {
+        const body = await req.json().catch(() => undefined);
+        if (body === undefined) return Response.json({ error: "invalid_json" }, { status: 400 });
+        const parsed = txBody.safeParse(body);
+        if (!parsed.success) return invalidRequest(parsed.error.issues);
+        let index = 0;
+        try {
+          const results = tx(() => parsed.data.ops.map((op, i) => {
+            index = i;
+            return applyOp(db, op);
+          }));
+          return Response.json({ results });
+        } catch (e) {
+          return refused(e, { op: index });
+        }
+      }
+
+      if (collection !== "kv" || rest.length) return new Response("Not Found", { status: 404 });
+
+      // GET /actors/{id}/kv
+      if (req.method === "GET" && rawKey === undefined) {
+        const prefix = url.searchParams.get("prefix") ?? "";
+        const cursor = url.searchParams.get("cursor");
+        const limit = Number(url.searchParams.get("limit") ?? 100);
+        if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+          return Response.json({ error: "invalid_query", message: `limit must be an integer between 1 and ${MAX_LIST_LIMIT}` }, { status: 400 });
+        }
+        const end = prefixEnd(prefix);
+        const rows = db.exec(
+          `SELECT id, ts, body, version, expires_at FROM kv
+           WHERE id >= ? AND id > ? ${end == null ? "" : "AND id < ?"} AND (expires_at IS NULL OR expires_at > ?)
+           ORDER BY id LIMIT ?`,
+          ...[prefix, cursor ?? "", ...(end == null ? [] : [end]), Date.now(), limit]
+        ).toArray();
+        return Response.json({
+          entries: rows.map(toEntry),
+          next_cursor: rows.length === limit ? (rows[rows.length - 1].id as string) : null
+        });
+      }
+
+      let k: string;
+      try {
+        k = decodeURIComponent(rawKey ?? "");
+      } catch {
+        return Response.json({ error: "invalid_key", message: "the key is not valid percent-encoding" }, { status: 400 });
+      }
+      if (!key.safeParse(k).success) {
+        return Response.json({ error: "invalid_key", message: `keys are 1 to ${MAX_KEY_LENGTH} characters` }, { status: 400 });
+      }
+
+      // POST /actors/{id}/kv/{key}/increment
+      if (action === "increment") {
+        if (req.method !== "POST") return new Response("Method Not Allowed", { status: 405 });
+        const body = await req.json().catch(() => undefined);
+        const parsed = incrementBody.safeParse(body ?? {});
+        if (!parsed.success) return invalidRequest(parsed.error.issues);
+        try {
+          return Response.json(tx(() => increment(db, k, parsed.data)));
+        } catch (e) {
+          return refused(e);
+        }
+      }
+      if (action !== undefined) return new Response("Not Found", { status: 404 });
+
+      // GET /actors/{id}/kv/{key}
+      if (req.method === "GET") {
+        const entry = read(db, k);
+        return entry ? Response.json(entry) : new Response("Not Found", { status: 404 });
+      }
+
+      // PUT /actors/{id}/kv/{key}
+      if (req.method === "PUT") {
+        const body = await req.json().catch(() => undefined);
+        if (body === undefined) return Response.json({ error: "invalid_json" }, { status: 400 });
+        const parsed = putBody.safeParse(body);
+        if (!parsed.success) return invalidRequest(parsed.error.issues);
+        try {
+          const { created, ...result } = tx(() => put(db, k, parsed.data));
+          return Response.json(result, { status: created ? 201 : 200 });
+        } catch (e) {
+          return refused(e);
+        }
+      }
+
+      // DELETE /actors/{id}/kv/{key}
+      if (req.method === "DELETE") {
+        const param = url.searchParams.get("if_version");
+        const expected = param == null ? undefined : Number(param);
+        if (expected !== undefined && !(Number.isInteger(expected) && expected >= 0)) {
+          return Response.json({ error: "invalid_query", message: "if_version expects a non-negative integer" }, { status: 400 });
+        }
+        try {
+          const { deleted } = tx(() => remove(db, k, expected));
+          return deleted ? new Response(null, { status: 204 }) : new Response("Not Found", { status: 404 });
+        } catch (e) {
+          return refused(e);
+        }
+      }
+
+      return new Response("Method Not Allowed", { status: 405 });
+    },
+
+    nextAlarmAt(db) {
+      const at = db.exec("SELECT MIN(expires_at) AS at FROM kv WHERE expires_at IS NOT NULL").toArray()[0]?.at;
+      return (at as number | null) ?? null;
+    },
+
+    async onAlarm(db) {
+      db.exec("DELETE FROM kv WHERE expires_at IS NOT NULL AND expires_at <= ?", Date.now());
+    },
+
+    planConfig(db, next) {
+      const plan = emptyPlan();
+      const validateNext = compileSchema(next.schema);
+      let invalid = 0;
+      for (const r of db.exec("SELECT body FROM kv")) {
+        plan.rows++;
+        if (validateNext(JSON.parse(r.body as string)).length) invalid++;
+      }
+      plan.rows_invalid = invalid;
+      if (invalid) plan.notes.push(`${invalid} stored values do not match the new schema; they are kept, but writes to them must match`);
+      return plan;
+    },
+
+    exportRows(db) {
+      return exportTableRows(db, "kv", ["version", "expires_at"], (value, r) => ({
+        value,
+        version: r.version,
+        expires_at: r.expires_at
+      }));
+    },
+
+    importRow(db, cfg, row) {
+      const { value, version, expires_at = null } = (row.body ?? {}) as { value?: unknown; version?: unknown; expires_at?: unknown };
+      if (!key.safeParse(row.id).success) throw new SnapshotError(`keys are 1 to ${MAX_KEY_LENGTH} characters`);
+      if (!Number.isInteger(version) || (version as number) < 1) throw new SnapshotError("row needs a positive integer version");
+      if (expires_at !== null && !Number.isInteger(expires_at)) throw new SnapshotError("expires_at must be unix ms or null");
+      let json;
+      try {
+        json = checkValue(row.id, value);
+      } catch (e) {
+        if (!(e instanceof KvError)) throw e;
+        throw new SnapshotError(e.message);
+      }
+      db.exec(
+        "INSERT INTO kv(id, ts, schema_version, body, version, expires_at) VALUES (?, ?, ?, ?, ?, ?)",
+        row.id, row.ts, row.schema_version, json, version, expires_at
+      );
+      db.exec(
+        `INSERT INTO actor_meta(k, v) VALUES ('kv_version', ?)
+         ON CONFLICT(k) DO UPDATE SET v = MAX(CAST(v AS INTEGER), CAST(excluded.v AS INTEGER))`,
+        version as number
+      );
+    },
+
+    openapi(cfg, basePath) {
+      const entry = {
+        type: "object",
+        properties: {
+          key: { type: "string" },
+          value: cfg.schema,
+          version: { type: "integer", description: "set by every write from a counter shared by all keys, so it only grows" },
+          ts: { type: "integer", description: "last write, unix seconds" },
+          expires_at: { type: "integer", nullable: true, description: "unix ms; null for keys without a TTL" }
+        }
+      };
+      const written = {
+        type: "object",
+        properties: {
+          key: { type: "string" },
+          version: { type: "integer" },
+          expires_at: { type: "integer", nullable: true }
+        }
+      };
+      const ttl = { type: "number", exclusiveMinimum: 0, description: "seconds until the key expires" };
+      const ifVersionField = { type: "integer", minimum: 0, description: "write only if the key is at this version (0: only if it is missing)" };
+      const putInput = {
+        type: "object",
+        required: ["value"],
+        properties: { value: cfg.schema, ttl_seconds: { ...ttl, description: "seconds until the key expires; omitted, the key never expires" }, if_version: ifVersionField }
+      };
+      const incrementInput = {
+        type: "object",
+        properties: {
+          by: { type: "number", default: 1 },
+          ttl_seconds: { ...ttl, description: "expiry of a key created by this increment; existing keys keep theirs" },
+          if_version: ifVersionField
+        }
+      };
+      const keyParam = { name: "key", in: "path", required: true, schema: { type: "string", maxLength: MAX_KEY_LENGTH }, description: "percent-encoded key" };
+      const conflict = { description: "The key is not at if_version (body: error version_conflict, key, version)" };
+
+      return {
+        openapi: "3.1.0",
+        info: {
+          title: "Paseo KV Actor",
+          version: "0.1.0",
+          description: "Versioned JSON values by key, with TTLs, atomic increments, compare-and-swap (if_version) and multi-key transactions."
+        },
+        paths: {
+          [`${basePath}/kv`]: {
+            get: {
+              operationId: "list_kv",
+              summary: "List keys in key order",
+              parameters: [
+                { name: "prefix", in: "query", schema: { type: "string" }, description: "only keys starting with this" },
+                { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: MAX_LIST_LIMIT, default: 100 } },
+                { name: "cursor", in: "query", schema: { type: "string" }, description: "next_cursor of the previous page" }
+              ],
+              responses: {
+                "200": {
+                  description: "Live entries",
+                  content: {
+                    "application/json": {
+                      schema: {
+                        type: "object",
+                        properties: {
+                          entries: { type: "array", items: entry },
+                          next_cursor: { type: "string", nullable: true }
+                        }
+                      }
+                    }
+                  }
+                },
+                "400": { description: "Invalid limit" }
+              }
+            }
+          },
+          [`${basePath}/kv/{key}`]: {
+            get: {
+              operationId: "get_kv",
+              summary: "Read a key",
+              parameters: [keyParam],
+              responses: {
+                "200": { description: "The entry", content: { "application/json": { schema: entry } } },
+                "404": { description: "No such key (or it expired)" }
+              }
+            },
+            put: {
+              operationId: "put_kv",
+              summary: "Set a key",
+              parameters: [keyParam],
+              requestBody: { required: true, content: { "application/json": { schema: putInput } } },
+              responses: {
+                "200": { description: "Updated", content: { "application/json": { schema: written } } },
+                "201": { description: "Created", content: { "application/json": { schema: written } } },
+                "400": { description: "Invalid body or a value the schema rejects" },
+                "409": conflict,
+                "413": { description: "Value too large" }
+              }
+            },
+            delete: {
+              operationId: "delete_kv",
+              summary: "Delete a key",
+              parameters: [keyParam, { name: "if_version", in: "query", schema: { type: "integer", minimum: 0 } }],
+              responses: { "204": { description: "Deleted" }, "404": { description: "No such key" }, "409": conflict }
+            }
+          },
+          [`${basePath}/kv/{key}/increment`]: {
+            post: {
+              operationId: "increment_kv",
+              summary: "Atomically add to a numeric value (a missing key counts from 0)",
+              parameters: [keyParam],
+              requestBody: { content: { "application/json": { schema: incrementInput } } },
+              responses: {
+                "200": {
+                  description: "The new value",
+                  content: { "application/json": { schema: { ...written, properties: { ...written.properties, value: { type: "number" } } } } }
+                },
+                "409": { description: "The value is not a number, or the key is not at if_version" }
+              }
+            }
+          },
+          [`${basePath}/kv:transaction`]: {
+            post: {
+              operationId: "kv_transaction",
+              summary: "Apply several ops atomically: all of them or none",
+              requestBody: {
+                required: true,
+                content: {
+                  "application/json": {
+                    schema: {
+                      type: "object",
+                      required: ["ops"],
+                      properties: {
+                        ops: {
+                          type: "array",
+                          minItems: 1,
+                          maxItems: MAX_TX_OPS,
+                          items: {
+                            oneOf: [
+                              { ...putInput, required: ["op", "key", "value"], properties: { op: { const: "put" }, key: { type: "string" }, ...putInput.properties } },
+                              { type: "object", required: ["op", "key"], properties: { op: { const: "delete" }, key: { type: "string" }, if_version: ifVersionField } },
+                              { type: "object", required: ["op", "key"], properties: { op: { const: "increment" }, key: { type: "string" }, ...incrementInput.properties } },
+                              {
+                                type: "object",
+                                required: ["op", "key", "version"],
+                                properties: { op: { const: "check" }, key: { type: "string" }, version: { type: "integer", minimum: 0, description: "0: the key must be missing" } },
+                                description: "fails the transaction unless the key is at this version"
+                              }
+                            ]
+                          }
+                        }
+                      }
+                    }
+                  }
+                }
+              },
+              responses: {
+                "200": {
+                  description: "One result per op",
+                  content: { "application/json": { schema: { type: "object", properties: { results: { type: "array", items: { type: "object" } } } } } }
+                },
+                "400": { description: "Invalid ops or values" },
+                "409": { description: "An op failed (body: error, message, op = its index); nothing was written" }
+              }
+            }
+          }
+        }
+      };
+    }
+  };
+}
@@ -0,0 +1,185 @@
+// src/handlers/listQuery.ts
+// Filter operators, sorting and keyset cursors shared by the list endpoints.
+//
+//   ?k_run_id=abc              equality (unchanged)
+//   ?ts[gte]=1700000000        range: gt | gte | lt | lte
+//   ?k_kind[ne]=draft          not equal
+//   ?k_kind[in]=a,b,c          membership
+//   ?k_name[prefix]=abc        string prefix
+//   ?k_kind[exists]=false      column null / not null
+//   ?sort=-ts                  sort on any listed column, "-" for descending
+//   ?cursor=...                opaque cursor from a previous page's next_cursor
+
+export class QueryError extends Error {}
+
+export type ColumnKind = "text" | "number";
+
+export type ListSpec = {
+  table: string;                          // e.g. "items"
+  idCol: string;                          // unique tiebreaker, e.g. "id"
+  columns: Record<string, ColumnKind>;    // filterable and sortable columns
+  sortExpressions?: Record<string, string>; // extra numeric sort keys, e.g. { relevance: "search_matches.score" }
+  defaultSort: string;
+};
+
+export type ListQuery = {
+  where: string[];
+  params: any[];
+  sortExpr: string;                       // select it AS sort_key for cursor building
+  orderBy: string;
+  limit: number;
+  nextCursor(row: Record<string, SqlStorageValue>): string;  // the page's last row, with its sort_key
+};
+
+export const OPERATORS = ["eq", "ne", "gt", "gte", "lt", "lte", "in", "prefix", "exists"] as const;
+type Operator = (typeof OPERATORS)[number];
+
+const COMPARE: Record<string, string> = { eq: "=", ne: "!=", gt: ">", gte: ">=", lt: "<", lte: "<=" };
+
+const isNumeric = (v: string) => v.trim() !== "" && Number.isFinite(Number(v));
+
+const encodeCursor = (v: unknown) =>
+  btoa(JSON.stringify(v)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const decodeCursor = (c: string): unknown => {
+  try {
+    return JSON.parse(atob(c.replace(/-/g, "+").replace(/_/g, "/")));
+  } catch {
+    throw new QueryError("invalid cursor");
+  }
+};
+
+export function parseListQuery(url: URL, spec: ListSpec): ListQuery {
+  const q = url.searchParams;
+  const where: string[] = [];
+  const params: any[] = [];
+  const col = (name: string) => `${spec.table}.${name}`;
+
+  const limit = Math.min(parseInt(q.get("limit") || "50") || 50, 200);
+
+  for (const [key, raw] of q.entries()) {
+    const m = /^([A-Za-z0-9_]+)(?:\[([a-z]+)\])?$/.exec(key);
+    if (!m || !(m[1] in spec.columns)) continue;
+    const name = m[1];
+    const op = (m[2] ?? "eq") as Operator;
+    if (!OPERATORS.includes(op)) throw new QueryError(`unknown operator '${op}' on ${name}`);
+    const kind = spec.columns[name];
+
+    const operand = (v: string) => {
+      if (kind === "number" && !isNumeric(v)) throw new QueryError(`${name} expects a number, got '${v}'`);
+      return kind === "number" ? Number(v) : v;
+    };
+
+    switch (op) {
+      case "exists":
+        if (raw !== "true" && raw !== "false") throw new QueryError(`${name}[exists] expects true or false`);
+        where.push(`${col(name)} IS ${raw === "true" ? "NOT " : ""}NULL`);
+        break;
+      case "in": {
+        const values = raw.split(",").map(operand);
+        where.push(`${col(name)} IN (${values.map(() => "?").join(", ")})`);
+        params.push(...values);
+        break;
+      }
+      case "prefix":
+        if (kind === "number") throw new QueryError(`${name}[prefix] is only valid on text columns`);
+        where.push(`${col(name)} LIKE ? ESCAPE '\\'`);
+        params.push(raw.replace(/[\\%_]/g, c => "\\" + c) + "%");
+        break;
+      default:
+        // index columns hold text; numeric operands on them compare numerically
+        if (kind === "text" && op !== "eq" && op !== "ne" && isNumeric(raw)) {
+          where.push(`CAST(${col(name)} AS REAL) ${COMPARE[op]} ?`);
+          params.push(Number(raw));
+        } else {
+          where.push(`${col(name)} ${COMPARE[op]} ?`);
+          params.push(operand(raw));
+        }
+    }
+  }
+
+  const sortParam = q.get("sort") || spec.defaultSort;
+  const desc = sortParam.startsWith("-");
+  const sortCol = desc ? sortParam.slice(1) : sortParam;
+  const custom = spec.sortExpressions?.[sortCol];
+  if (!custom && sortCol !== spec.idCol && !(sortCol in spec.columns)) throw new QueryError(`cannot sort on '${sortCol}'`);
+  // NULLs sort as '' / 0 so they can take part in keyset comparisons
+  const sortExpr = custom
+    ? `IFNULL(${custom}, 0)`
+    : spec.columns[sortCol] === "number"
+      ? `IFNULL(${col(sortCol)}, 0)`
+      : `IFNULL(${col(sortCol)}, '')`;
+  const dir = desc ? "DESC" : "ASC";
+  const cmp = desc ? "<" : ">";
+
+  const cursor = q.get("cursor");
+  if (cursor) {
+    const decoded = decodeCursor(cursor);
+    if (!Array.isArray(decoded) || decoded.length !== 3 || decoded[0] !== sortParam) {
+      throw new QueryError("cursor does not match the requested sort");
+    }
+    const [, value, id] = decoded;
+    where.push(`(${sortExpr} ${cmp} ? OR (${sortExpr} = ? AND ${col(spec.idCol)} ${cmp} ?))`);
+    params.push(value, value, id);
+  }
+
+  return {
+    where,
+    params,
+    sortExpr,
+    orderBy: `${sortExpr} ${dir}, ${col(spec.idCol)} ${dir}`,
+    limit,
+    nextCursor: row => encodeCursor([sortParam, row.sort_key, row[spec.idCol]])
+  };
+}
+
+/**
+ * Translate a JSON filter into list-query parameters, for APIs that take filters in a body:
+ *   { "status": "completed", "ts": { "gte": 1735689600 }, "meta.kind": { "in": ["chat", "tool"] } }
+ * Keys are list columns or index paths (stored as their k_* column).
+ */
+export function filterQueryParams(filter: unknown, spec: ListSpec): URLSearchParams {
+  const q = new URLSearchParams();
+  if (filter == null) return q;
+  if (typeof filter !== "object" || Array.isArray(filter)) throw new QueryError("filter must be an object");
+  for (const [path, cond] of Object.entries(filter)) {
+    const col = path in spec.columns ? path : "k_" + path.replace(/[^a-zA-Z0-9]+/g, "_").slice(0, 48);
+    if (!(col in spec.columns)) throw new QueryError(`cannot filter on '${path}'; add it to indexes`);
+    const ops = cond !== null && typeof cond === "object" && !Array.isArray(cond) ? Object.entries(cond) : [["eq", cond]];
+    for (const [op, v] of ops) q.append(`${col}[${op}]`, Array.isArray(v) ? v.join(",") : String(v));
+  }
+  return q;
+}
+
+/** OpenAPI query parameters describing the operators for each column */
+export function listQueryParams(spec: ListSpec) {
+  const params: any[] = [];
+  for (const [name, kind] of Object.entries(spec.columns)) {
+    const schema = { type: kind === "number" ? "integer" : "string" };
+    params.push({ name, in: "query", schema, description: `${name} equals` });
+    for (const op of OPERATORS.filter(o => o !== "eq")) {
+      if (op === "prefix" && kind === "number") continue;
+      params.push({
+        name: `${name}[${op}]`,
+        in: "query",
+        schema: op === "exists" ? { type: "boolean" } : op === "in" ? { type: "string" } : schema,
+        description: op === "in"
+          ? `${name} is one of a comma-separated list`
+          : op === "exists"
+            ? `${name} is (true) or is not (false) set`
+            : `${name} ${op}${kind === "text" && op !== "ne" && op !== "prefix" ? " (numeric operands compare numerically)" : ""}`
+      });
+    }
+  }
+  const sortable = [spec.idCol, ...Object.keys(spec.columns), ...Object.keys(spec.sortExpressions ?? {})];
+  params.push(
+    {
+      name: "sort",
+      in: "query",
+      schema: { type: "string", enum: sortable.flatMap(c => [c, `-${c}`]), default: spec.defaultSort },
+      description: "sort column; prefix with '-' for descending"
+    },
+    { name: "cursor", in: "query", schema: { type: "string" }, description: "opaque pagination cursor (next_cursor of the previous page)" }
+  );
+  return params;
+}
@@ -0,0 +1,169 @@
+// src/handlers/projection.ts
+// ?fields= / ?exclude= projection of stored documents on the read endpoints of the store-style handlers.
+//
+//   ?fields=usage,output[*].content[*].text   keep only these parts of each body
+//   ?exclude=tools,reasoning                  drop these parts (applied after fields)
+//
+// Paths are dot-separated keys with optional [*] (every element) or [n] (one element) steps. A key
+// step on an array applies to each element, so output.type and output[*].type are the same path.
+// Array elements with nothing selected are left out. Only `body` is projected; the row's own
+// columns (id, ts, ...) are always returned.
+
+import { QueryError } from "./listQuery";
+
+/** most paths in one fields / exclude parameter */
+const MAX_PATHS = 50;
+
+type Step = { key: string } | { index: number | "*" };
+
+/** trie of the selected paths */
+type Node = { leaf: boolean; keys: Map<string, Node>; items: Map<number | "*", Node> };
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+const newNode = (): Node => ({ leaf: false, keys: new Map(), items: new Map() });
+
+function parsePath(path: string): Step[] {
+  const steps: Step[] = [];
+  for (const segment of path.split(".")) {
+    const m = /^([^[\]]*)((?:\[(?:\*|\d+)\])*)$/.exec(segment);
+    if (!m || (!m[1] && !m[2])) throw new QueryError(`invalid field path '${path}'`);
+    if (m[1]) steps.push({ key: m[1] });
+    for (const [, index] of m[2].matchAll(/\[(\*|\d+)\]/g)) steps.push({ index: index === "*" ? "*" : Number(index) });
+  }
+  return steps;
+}
+
+function parsePaths(param: string | null, name: string): Step[][] | null {
+  if (param == null) return null;
+  const paths = param.split(",").map(p => p.trim()).filter(Boolean);
+  if (!paths.length) throw new QueryError(`${name} needs at least one path`);
+  if (paths.length > MAX_PATHS) throw new QueryError(`${name} takes at most ${MAX_PATHS} paths`);
+  return paths.map(parsePath);
+}
+
+/** merge two selections of the same value */
+function merge(a: unknown, b: unknown): unknown {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  if (isObject(a) && isObject(b)) {
+    const out: Record<string, unknown> = { ...a };
+    for (const [k, v] of Object.entries(b)) out[k] = merge(out[k], v);
+    return out;
+  }
+  return b;
+}
+
+/** the parts of `value` selected by `node`; undefined when nothing matches */
+function pick(value: unknown, node: Node): unknown {
+  if (node.leaf) return value;
+  if (Array.isArray(value)) {
+    const out: unknown[] = [];
+    value.forEach((el, i) => {
+      let picked: unknown;
+      for (const sub of [node.items.get(i), node.items.get("*")]) {
+        if (sub) picked = merge(picked, pick(el, sub));
+      }
+      // key steps reach into each element
+      if (node.keys.size) picked = merge(picked, pick(el, { ...node, items: new Map() }));
+      if (picked !== undefined) out.push(picked);
+    });
+    return out.length ? out : undefined;
+  }
+  if (!isObject(value) || !node.keys.size) return undefined;
+  const out: Record<string, unknown> = {};
+  for (const [k, sub] of node.keys) {
+    if (!(k in value)) continue;
+    const picked = pick(value[k], sub);
+    if (picked !== undefined) out[k] = picked;
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+/** delete the parts of `value` at `steps`, in place */
+function remove(value: unknown, steps: Step[]) {
+  if (!steps.length) return;
+  const [step, ...rest] = steps;
+  if (Array.isArray(value)) {
+    if ("key" in step) {
+      for (const el of value) remove(el, steps);
+      return;
+    }
+    if (!rest.length) {
+      if (step.index === "*") value.length = 0;
+      else value.splice(step.index, 1);
+      return;
+    }
+    for (const el of step.index === "*" ? value : [value[step.index]]) remove(el, rest);
+    return;
+  }
+  if (!isObject(value) || !("key" in step)) return;
+  if (!rest.length) delete value[step.key];
+  else remove(value[step.key], rest);
+}
+
+export type Projection = (body: unknown) => unknown;
+
+/** The projection asked for by ?fields= / ?exclude=, or null; throws QueryError for bad paths */
+export function parseProjection(url: URL): Projection | null {
+  const fields = parsePaths(url.searchParams.get("fields"), "fields");
+  const exclude = parsePaths(url.searchParams.get("exclude"), "exclude");
+  if (!fields && !exclude) return null;
+
+  let root: Node | null = null;
+  if (fields) {
+    root = newNode();
+    for (const steps of fields) {
+      let node = root;
+      for (const step of steps) {
+        const map: Map<string | number, Node> = "key" in step ? node.keys : node.items;
+        const k = "key" in step ? step.key : step.index;
+        if (!map.has(k)) map.set(k, newNode());
+        node = map.get(k)!;
+      }
+      node.leaf = true;
+    }
+  }
+
+  return body => {
+    const kept = root ? pick(body, root) ?? {} : body;
+    for (const steps of exclude ?? []) remove(kept, steps);
+    return kept;
+  };
+}
+
+/** ETag of a projected read: weak, since the body is not the stored document */
+export const projectedEtag = (etag: string, projection: Projection | null) => (projection ? `W/${etag}` : etag);
+
+/** OpenAPI query parameters for fields / exclude */
+export const projectionParams = () => [
+  {
+    name: "fields",
+    in: "query",
+    schema: { type: "string" },
+    description: "comma-separated body paths to return, e.g. usage,output[*].content[*].text ([*] every element, [n] one element)"
+  },
+  {
+    name: "exclude",
+    in: "query",
+    schema: { type: "string" },
+    description: "comma-separated body paths to leave out (applied after fields)"
+  }
+];
+
+const SCHEMA_MAPS = ["properties", "patternProperties", "$defs", "definitions", "dependentSchemas"];
+const SCHEMA_VALUES = ["enum", "const", "default", "examples"];
+
+/** A document schema as seen through a projection: the same shape, with nothing required */
+export function projectedSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(projectedSchema);
+  if (!isObject(schema)) return schema;
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(schema)) {
+    if (k === "required" && Array.isArray(v)) continue;
+    if (SCHEMA_VALUES.includes(k)) out[k] = v;
+    else if (SCHEMA_MAPS.includes(k) && isObject(v)) {
+      out[k] = Object.fromEntries(Object.entries(v).map(([name, s]) => [name, projectedSchema(s)]));
+    } else out[k] = projectedSchema(v);
+  }
+  return out;
+}
@@ -0,0 +1,572 @@
+// src/handlers/queue.ts
+// queue.v1: messages handed out to workers under time-limited leases.
+//
+//   POST .../messages                    { body, delay_seconds?, priority? }       enqueue
+//   POST .../lease                       { max_messages?, visibility_timeout_seconds? }
+//   POST .../leases/{leaseId}/ack        { ids? }                                  done: delete them
+//   POST .../leases/{leaseId}/nack       { ids?, delay_seconds?, error? }          give them back
+//   POST .../leases/{leaseId}/extend     { visibility_timeout_seconds? }
+//   GET  .../stats                       depth, in-flight, dead, oldest age
+//
+// A lease claims up to max_messages ready messages, highest priority first, then oldest. Each
+// delivery counts as an attempt. A message whose lease runs out (or is nacked) goes back to the
+// queue, or to the dead-letter state once it has been delivered max_attempts times. Expired
+// leases are returned by the actor's alarm; dead letters stay until deleted or retried.
+
+import { z } from "zod";
+import type { QueueActorConfig } from "../types";
+import type { Handler } from "../registry";
+import { emptyPlan } from "../config";
+import { compileSchema } from "../json-schema";
+import { exportTableRows, SnapshotError } from "../snapshot";
+import { listQueryParams, parseListQuery, QueryError, type ListSpec } from "./listQuery";
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+export const DEFAULT_VISIBILITY_TIMEOUT_SECONDS = 30;
+/** longest lease and longest delay */
+const MAX_SECONDS = 12 * 3600;
+/** most messages claimed by one lease */
+const MAX_LEASE = 100;
+/** serialized JSON size of one message body */
+const MAX_BODY_BYTES = 256 * 1024;
+
+type MessageState = "ready" | "leased" | "dead";
+
+const seconds = z.number().nonnegative().max(MAX_SECONDS);
+const ids = z.array(z.string()).min(1).max(MAX_LEASE).optional();
+
+const enqueueBody = z.strictObject({
+  body: z.unknown(),
+  delay_seconds: seconds.optional(),
+  priority: z.number().int().optional()
+});
+const leaseBody = z.strictObject({
+  max_messages: z.number().int().min(1).max(MAX_LEASE).optional(),
+  visibility_timeout_seconds: seconds.positive().optional()
+});
+const ackBody = z.strictObject({ ids });
+const nackBody = z.strictObject({ ids, delay_seconds: seconds.optional(), error: z.string().max(1000).optional() });
+const extendBody = z.strictObject({ visibility_timeout_seconds: seconds.positive().optional() });
+
+/** a zod failure as 400 invalid_request */
+const invalidRequest = (issues: { path: PropertyKey[]; message: string }[]) =>
+  Response.json({
+    error: "invalid_request",
+    details: issues.map(i => ({ path: i.path.join("."), message: i.message }))
+  }, { status: 400 });
+
+/** parse a JSON body (an empty body counts as {}) */
+async function readBody<T>(req: Request, schema: z.ZodType<T>): Promise<{ data: T } | Response> {
+  const text = await req.text();
+  let json: unknown = {};
+  if (text.trim()) {
+    try {
+      json = JSON.parse(text);
+    } catch {
+      return Response.json({ error: "invalid_json" }, { status: 400 });
+    }
+  }
+  const parsed = schema.safeParse(json);
+  return parsed.success ? { data: parsed.data } : invalidRequest(parsed.error.issues);
+}
+
+/** filterable / sortable columns of GET /messages */
+const messagesListSpec: ListSpec = {
+  table: "messages",
+  idCol: "id",
+  columns: { state: "text", priority: "number", attempts: "number", ts: "number" },
+  defaultSort: "ts"
+};
+
+const toMessage = (r: Record<string, SqlStorageValue>) => ({
+  id: r.id as string,
+  body: JSON.parse(r.body as string),
+  priority: r.priority as number,
+  state: r.state as MessageState,
+  attempts: r.attempts as number,
+  enqueued_at: r.enqueued_at as number,
+  available_at: r.available_at as number,
+  lease_id: (r.lease_id as string | null) ?? null,
+  last_error: (r.last_error as string | null) ?? null
+});
+
+const MESSAGE_COLUMNS = "id, body, priority, state, attempts, enqueued_at, available_at, lease_id, last_error";
+
+const leaseNotFound = () =>
+  Response.json({ error: "lease_not_found", message: "the lease expired or all of its messages were settled" }, { status: 404 });
+
+export function queueHandlerFactory(cfg: QueueActorConfig): Handler<QueueActorConfig> {
+  const maxAttempts = cfg.params?.max_attempts ?? DEFAULT_MAX_ATTEMPTS;
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1) throw new Error("max_attempts must be a positive integer");
+  const visibilityTimeout = cfg.params?.visibility_timeout_seconds ?? DEFAULT_VISIBILITY_TIMEOUT_SECONDS;
+  if (!(visibilityTimeout > 0 && visibilityTimeout <= MAX_SECONDS)) {
+    throw new Error(`visibility_timeout_seconds must be between 0 and ${MAX_SECONDS}`);
+  }
+  // message bodies are validated against the configured JSON Schema
+  const validateBody = compileSchema(cfg.schema);
+
+  /**
+   * Return the messages of expired leases to the queue, or dead-letter those out of attempts.
+   * Runs before every lease and from the alarm.
+   */
+  const requeueExpired = (db: SqlStorage, now: number) => {
+    db.exec(
+      `UPDATE messages SET state = 'dead', lease_id = NULL, last_error = IFNULL(last_error, 'lease expired')
+       WHERE state = 'leased' AND available_at <= ? AND attempts >= ?`,
+      now, maxAttempts
+    );
+    db.exec("UPDATE messages SET state = 'ready', lease_id = NULL WHERE state = 'leased' AND available_at <= ?", now);
+  };
+
+  /**
+   * WHERE clause for the live messages of a lease, optionally only `only` of them. Writes through
+   * it count rows with RETURNING, since rowsWritten includes index rows.
+   */
+  const ofLease = (leaseId: string, only: string[] | undefined, now: number) => ({
+    where: `state = 'leased' AND lease_id = ? AND available_at > ?${only ? " AND id IN (SELECT value FROM json_each(?))" : ""}`,
+    params: [leaseId, now, ...(only ? [JSON.stringify(only)] : [])]
+  });
+
+  return {
+    async ensureSchema(db) {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS messages(
+          id TEXT PRIMARY KEY,
+          ts INTEGER NOT NULL,              -- enqueued, unix seconds
+          schema_version TEXT,
+          body TEXT NOT NULL,
+          priority INTEGER NOT NULL DEFAULT 0,   -- higher first
+          state TEXT NOT NULL,              -- ready | leased | dead
+          available_at INTEGER NOT NULL,    -- unix ms: ready from (delay, nack backoff), or lease expiry when leased
+          attempts INTEGER NOT NULL DEFAULT 0,   -- deliveries so far
+          lease_id TEXT,
+          enqueued_at INTEGER NOT NULL,     -- unix ms
+          last_error TEXT
+        );
+      `);
+      await db.exec("CREATE INDEX IF NOT EXISTS idx_messages_ready ON messages(state, priority DESC, enqueued_at);");
+      await db.exec("CREATE INDEX IF NOT EXISTS idx_messages_lease ON messages(lease_id) WHERE lease_id IS NOT NULL;");
+    },
+
+    async handle(req, db, cfg, tx) {
+      const url = new URL(req.url);
+      // below /pods/{podName}/actors/{actorId}
+      const sub = url.pathname.split("/").filter(Boolean).slice(4);
+      const now = Date.now();
+
+      // POST /actors/{id}/messages
+      if (req.method === "POST" && sub.length === 1 && sub[0] === "messages") {
+        const read = await readBody(req, enqueueBody);
+        if (read instanceof Response) return read;
+        const { body, delay_seconds = 0, priority = 0 } = read.data;
+        if (body === undefined) return invalidRequest([{ path: ["body"], message: "required" }]);
+        const errors = validateBody(body);
+        if (errors.length) return Response.json({ error: "invalid_message", details: errors }, { status: 400 });
+        const json = JSON.stringify(body);
+        if (new TextEncoder().encode(json).byteLength > MAX_BODY_BYTES) {
+          return Response.json({ error: "message_too_large", message: `message bodies are limited to ${MAX_BODY_BYTES} bytes of JSON` }, { status: 413 });
+        }
+        const id = crypto.randomUUID();
+        const availableAt = now + Math.round(delay_seconds * 1000);
+        db.exec(
+          `INSERT INTO messages(id, ts, schema_version, body, priority, state, available_at, attempts, enqueued_at)
+           VALUES (?, ?, NULL, ?, ?, 'ready', ?, 0, ?)`,
+          id, Math.floor(now / 1000), json, priority, availableAt, now
+        );
+        return Response.json({ id, available_at: availableAt }, { status: 201 });
+      }
+
+      // GET /actors/{id}/messages
+      if (req.method === "GET" && sub.length === 1 && sub[0] === "messages") {
+        let list;
+        try {
+          list = parseListQuery(url, messagesListSpec);
+        } catch (e) {
+          if (!(e instanceof QueryError)) throw e;
+          return Response.json({ error: "invalid_query", message: e.message }, { status: 400 });
+        }
+        const clause = list.where.length ? `WHERE ${list.where.join(" AND ")}` : "";
+        const rows = db.exec(
+          `SELECT ${MESSAGE_COLUMNS}, ${list.sortExpr} AS sort_key FROM messages ${clause} ORDER BY ${list.orderBy} LIMIT ?`,
+          ...list.params, list.limit
+        ).toArray();
+        return Response.json({
+          messages: rows.map(toMessage),
+          next_cursor: rows.length === list.limit ? list.nextCursor(rows[rows.length - 1]) : null
+        });
+      }
+
+      // GET / DELETE /actors/{id}/messages/{messageId}
+      if (sub.length === 2 && sub[0] === "messages") {
+        if (req.method === "GET") {
+          const r = db.exec(`SELECT ${MESSAGE_COLUMNS} FROM messages WHERE id = ?`, sub[1]).toArray()[0];
+          return r ? Response.json(toMessage(r)) : new Response("Not Found", { status: 404 });
+        }
+        if (req.method === "DELETE") {
+          const removed = db.exec("DELETE FROM messages WHERE id = ?", sub[1]).rowsWritten;
+          return removed ? new Response(null, { status: 204 }) : new Response("Not Found", { status: 404 });
+        }
+      }
+
+      // POST /actors/{id}/messages/{messageId}/retry (dead letters only)
+      if (req.method === "POST" && sub.length === 3 && sub[0] === "messages" && sub[2] === "retry") {
+        const retried = db.exec(
+          "UPDATE messages SET state = 'ready', attempts = 0, available_at = ? WHERE id = ? AND state = 'dead'",
+          now, sub[1]
+        ).rowsWritten;
+        if (retried) return Response.json({ id: sub[1], state: "ready" });
+        const exists = db.exec("SELECT 1 FROM messages WHERE id = ?", sub[1]).toArray().length > 0;
+        return exists
+          ? Response.json({ error: "not_dead", message: "only dead-lettered messages can be retried" }, { status: 409 })
+          : new Response("Not Found", { status: 404 });
+      }
+
+      // POST /actors/{id}/lease
+      if (req.method === "POST" && sub.length === 1 && sub[0] === "lease") {
+        const read = await readBody(req, leaseBody);
+        if (read instanceof Response) return read;
+        const { max_messages = 1, visibility_timeout_seconds = visibilityTimeout } = read.data;
+        const leaseId = crypto.randomUUID();
+        const expiresAt = now + Math.round(visibility_timeout_seconds * 1000);
+        const rows = tx(() => {
+          requeueExpired(db, now);
+          db.exec(
+            `UPDATE messages SET state = 'leased', lease_id = ?, available_at = ?, attempts = attempts + 1
+             WHERE id IN (
+               SELECT id FROM messages WHERE state = 'ready' AND available_at <= ?
+               ORDER BY priority DESC, enqueued_at, rowid LIMIT ?
+             )`,
+            leaseId, expiresAt, now, max_messages
+          );
+          return db.exec(
+            `SELECT ${MESSAGE_COLUMNS} FROM messages WHERE lease_id = ? ORDER BY priority DESC, enqueued_at, rowid`, leaseId
+          ).toArray();
+        });
+        return Response.json({
+          lease_id: rows.length ? leaseId : null,
+          expires_at: rows.length ? expiresAt : null,
+          messages: rows.map(r => {
+            const { state, available_at, lease_id, ...m } = toMessage(r);
+            return m;
+          })
+        });
+      }
+
+      // POST /actors/{id}/leases/{leaseId}/{ack|nack|extend}
+      if (req.method === "POST" && sub.length === 3 && sub[0] === "leases") {
+        const [, leaseId, action] = sub;
+
+        if (action === "ack") {
+          const read = await readBody(req, ackBody);
+          if (read instanceof Response) return read;
+          const { where, params } = ofLease(leaseId, read.data.ids, now);
+          const acked = db.exec(`DELETE FROM messages WHERE ${where} RETURNING id`, ...params).toArray().length;
+          return acked ? Response.json({ lease_id: leaseId, acked }) : leaseNotFound();
+        }
+
+        if (action === "nack") {
+          const read = await readBody(req, nackBody);
+          if (read instanceof Response) return read;
+          const { where, params } = ofLease(leaseId, read.data.ids, now);
+          const availableAt = now + Math.round((read.data.delay_seconds ?? 0) * 1000);
+          const error = read.data.error ?? null;
+          const { dead, released } = tx(() => ({
+            dead: db.exec(
+              `UPDATE messages SET state = 'dead', lease_id = NULL, last_error = IFNULL(?, last_error) WHERE ${where} AND attempts >= ? RETURNING id`,
+              error, ...params, maxAttempts
+            ).toArray().length,
+            released: db.exec(
+              `UPDATE messages SET state = 'ready', lease_id = NULL, available_at = ?, last_error = IFNULL(?, last_error) WHERE ${where} RETURNING id`,
+              availableAt, error, ...params
+            ).toArray().length
+          }));
+          return dead + released ? Response.json({ lease_id: leaseId, released, dead }) : leaseNotFound();
+        }
+
+        if (action === "extend") {
+          const read = await readBody(req, extendBody);
+          if (read instanceof Response) return read;
+          const expiresAt = now + Math.round((read.data.visibility_timeout_seconds ?? visibilityTimeout) * 1000);
+          const { where, params } = ofLease(leaseId, undefined, now);
+          const extended = db.exec(`UPDATE messages SET available_at = ? WHERE ${where} RETURNING id`, expiresAt, ...params).toArray().length;
+          return extended ? Response.json({ lease_id: leaseId, expires_at: expiresAt, messages: extended }) : leaseNotFound();
+        }
+      }
+
+      // GET /actors/{id}/stats
+      if (req.method === "GET" && sub.length === 1 && sub[0] === "stats") {
+        const s = db.exec(
+          `SELECT
+             COUNT(*) FILTER (WHERE state = 'ready' AND available_at <= ?1) AS ready,
+             COUNT(*) FILTER (WHERE state = 'ready' AND available_at > ?1) AS delayed,
+             COUNT(*) FILTER (WHERE state = 'leased' AND available_at > ?1) AS in_flight,
+             COUNT(*) FILTER (WHERE state = 'leased' AND available_at <= ?1) AS expired_leases,
+             COUNT(*) FILTER (WHERE state = 'dead') AS dead,
+             MIN(enqueued_at) FILTER (WHERE state != 'dead') AS oldest
+           FROM messages`,
+          now
+        ).toArray()[0];
+        return Response.json({
+          depth: (s.ready as number) + (s.delayed as number) + (s.expired_leases as number),
+          ready: s.ready,
+          delayed: s.delayed,
+          in_flight: s.in_flight,
+          expired_leases: s.expired_leases,
+          dead: s.dead,
+          oldest_age_seconds: s.oldest == null ? null : Math.floor((now - (s.oldest as number)) / 1000),
+          max_attempts: maxAttempts,
+          visibility_timeout_seconds: visibilityTimeout
+        });
+      }
+
+      return new Response("Not Found", { status: 404 });
+    },
+
+    nextAlarmAt(db) {
+      const at = db.exec("SELECT MIN(available_at) AS at FROM messages WHERE state = 'leased'").toArray()[0]?.at;
+      return (at as number | null) ?? null;
+    },
+
+    async onAlarm(db) {
+      requeueExpired(db, Date.now());
+    },
+
+    planConfig(db, next) {
+      const plan = emptyPlan();
+      const validateNext = compileSchema(next.schema);
+      let invalid = 0;
+      for (const r of db.exec("SELECT body FROM messages WHERE state != 'dead'")) {
+        if (validateNext(JSON.parse(r.body as string)).length) invalid++;
+      }
+      plan.rows = db.exec("SELECT COUNT(*) AS n FROM messages").toArray()[0].n as number;
+      plan.rows_invalid = invalid;
+      const nextMax = next.params?.max_attempts ?? DEFAULT_MAX_ATTEMPTS;
+      if (nextMax < maxAttempts) {
+        const exhausted = db.exec("SELECT COUNT(*) AS n FROM messages WHERE state != 'dead' AND attempts >= ?", nextMax).toArray()[0].n;
+        if (exhausted) plan.notes.push(`${exhausted} messages have used ${nextMax} attempts and are dead-lettered when their next delivery fails`);
+      }
+      return plan;
+    },
+
+    exportRows(db) {
+      // leases do not survive an export; leased messages come back ready
+      return exportTableRows(db, "messages", ["priority", "state", "available_at", "attempts", "enqueued_at", "last_error"], (body, r) => ({
+        body,
+        priority: r.priority,
+        state: r.state === "dead" ? "dead" : "ready",
+        available_at: r.state === "leased" ? Date.now() : r.available_at,
+        attempts: r.attempts,
+        enqueued_at: r.enqueued_at,
+        last_error: r.last_error
+      }));
+    },
+
+    importRow(db, cfg, row) {
+      const m = (row.body ?? {}) as Record<string, unknown>;
+      if (m.body === undefined) throw new SnapshotError("row has no message body");
+      const errors = validateBody(m.body);
+      if (errors.length) throw new SnapshotError(`invalid message: ${errors.map(e => `${e.path || "/"} ${e.message}`).join("; ")}`);
+      const state = m.state === "dead" ? "dead" : "ready";
+      const int = (v: unknown, fallback: number) => (Number.isInteger(v) ? (v as number) : fallback);
+      db.exec(
+        `INSERT INTO messages(id, ts, schema_version, body, priority, state, available_at, attempts, enqueued_at, last_error)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        row.id, row.ts, row.schema_version, JSON.stringify(m.body), int(m.priority, 0), state,
+        int(m.available_at, Date.now()), int(m.attempts, 0), int(m.enqueued_at, row.ts * 1000),
+        typeof m.last_error === "string" ? m.last_error : null
+      );
+    },
+
+    openapi(cfg, basePath) {
+      const message = {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          body: cfg.schema,
+          priority: { type: "integer" },
+          state: { type: "string", enum: ["ready", "leased", "dead"] },
+          attempts: { type: "integer", description: "deliveries so far" },
+          enqueued_at: { type: "integer", description: "unix ms" },
+          available_at: { type: "integer", description: "unix ms: ready from, or lease expiry while leased" },
+          lease_id: { type: "string", nullable: true },
+          last_error: { type: "string", nullable: true }
+        }
+      };
+      const leased = {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          body: cfg.schema,
+          priority: { type: "integer" },
+          attempts: { type: "integer", description: `this delivery's number (dead-lettered after ${maxAttempts})` },
+          enqueued_at: { type: "integer" },
+          last_error: { type: "string", nullable: true }
+        }
+      };
+      const timeout = {
+        type: "number",
+        exclusiveMinimum: 0,
+        maximum: MAX_SECONDS,
+        default: visibilityTimeout,
+        description: "seconds until the lease expires and its messages are delivered again"
+      };
+      const idsField = { type: "array", items: { type: "string" }, maxItems: MAX_LEASE, description: "only these messages of the lease (default: all)" };
+      const messageIdParam = { name: "messageId", in: "path", required: true, schema: { type: "string" } };
+      const leaseIdParam = { name: "leaseId", in: "path", required: true, schema: { type: "string" } };
+      const json = (schema: unknown) => ({ content: { "application/json": { schema } } });
+      const leaseAction = (operationId: string, summary: string, body: unknown, result: Record<string, unknown>) => ({
+        post: {
+          operationId,
+          summary,
+          parameters: [leaseIdParam],
+          requestBody: json(body),
+          responses: {
+            "200": { description: "Done", ...json({ type: "object", properties: { lease_id: { type: "string" }, ...result } }) },
+            "404": { description: "The lease expired or its messages were all settled" }
+          }
+        }
+      });
+
+      return {
+        openapi: "3.1.0",
+        info: {
+          title: "Paseo Queue Actor",
+          version: "0.1.0",
+          description: `Messages leased to workers for ${visibilityTimeout}s at a time (highest priority first, then oldest). ` +
+            `Unacknowledged messages are delivered again when their lease expires, and dead-lettered after ${maxAttempts} deliveries.`
+        },
+        paths: {
+          [`${basePath}/messages`]: {
+            post: {
+              operationId: "enqueue_message",
+              summary: "Enqueue a message",
+              requestBody: {
+                required: true,
+                ...json({
+                  type: "object",
+                  required: ["body"],
+                  properties: {
+                    body: cfg.schema,
+                    delay_seconds: { type: "number", minimum: 0, maximum: MAX_SECONDS, description: "keep the message back this long" },
+                    priority: { type: "integer", default: 0, description: "higher is leased first" }
+                  }
+                })
+              },
+              responses: {
+                "201": { description: "Enqueued", ...json({ type: "object", properties: { id: { type: "string" }, available_at: { type: "integer" } } }) },
+                "400": { description: "Invalid request or a body the schema rejects" },
+                "413": { description: "Body too large" }
+              }
+            },
+            get: {
+              operationId: "list_messages",
+              summary: "List messages (e.g. state=dead for dead letters) without leasing them",
+              parameters: [{ name: "limit", in: "query", schema: { type: "integer", maximum: 200, default: 50 } }, ...listQueryParams(messagesListSpec)],
+              responses: {
+                "200": {
+                  description: "Messages",
+                  ...json({ type: "object", properties: { messages: { type: "array", items: message }, next_cursor: { type: "string", nullable: true } } })
+                }
+              }
+            }
+          },
+          [`${basePath}/messages/{messageId}`]: {
+            get: {
+              operationId: "get_message",
+              summary: "Fetch one message",
+              parameters: [messageIdParam],
+              responses: { "200": { description: "The message", ...json(message) }, "404": { description: "Not found" } }
+            },
+            delete: {
+              operationId: "delete_message",
+              summary: "Delete a message in any state",
+              parameters: [messageIdParam],
+              responses: { "204": { description: "Deleted" }, "404": { description: "Not found" } }
+            }
+          },
+          [`${basePath}/messages/{messageId}/retry`]: {
+            post: {
+              operationId: "retry_message",
+              summary: "Put a dead-lettered message back in the queue with its attempts reset",
+              parameters: [messageIdParam],
+              responses: { "200": { description: "Queued again" }, "404": { description: "Not found" }, "409": { description: "The message is not dead-lettered" } }
+            }
+          },
+          [`${basePath}/lease`]: {
+            post: {
+              operationId: "lease_messages",
+              summary: "Claim up to max_messages ready messages",
+              requestBody: json({
+                type: "object",
+                properties: {
+                  max_messages: { type: "integer", minimum: 1, maximum: MAX_LEASE, default: 1 },
+                  visibility_timeout_seconds: timeout
+                }
+              }),
+              responses: {
+                "200": {
+                  description: "The lease; no messages (and a null lease_id) when none are ready",
+                  ...json({
+                    type: "object",
+                    properties: {
+                      lease_id: { type: "string", nullable: true },
+                      expires_at: { type: "integer", nullable: true, description: "unix ms" },
+                      messages: { type: "array", items: leased }
+                    }
+                  })
+                }
+              }
+            }
+          },
+          [`${basePath}/leases/{leaseId}/ack`]: leaseAction(
+            "ack_messages", "Acknowledge leased messages (they are deleted)",
+            { type: "object", properties: { ids: idsField } },
+            { acked: { type: "integer" } }
+          ),
+          [`${basePath}/leases/{leaseId}/nack`]: leaseAction(
+            "nack_messages", "Give leased messages back for another delivery",
+            {
+              type: "object",
+              properties: {
+                ids: idsField,
+                delay_seconds: { type: "number", minimum: 0, maximum: MAX_SECONDS, description: "hold them back this long" },
+                error: { type: "string", description: "kept as the messages' last_error" }
+              }
+            },
+            { released: { type: "integer" }, dead: { type: "integer", description: "messages out of attempts, now dead-lettered" } }
+          ),
+          [`${basePath}/leases/{leaseId}/extend`]: leaseAction(
+            "extend_lease", "Push a lease's expiry out",
+            { type: "object", properties: { visibility_timeout_seconds: { ...timeout, description: "seconds from now" } } },
+            { expires_at: { type: "integer" }, messages: { type: "integer" } }
+          ),
+          [`${basePath}/stats`]: {
+            get: {
+              operationId: "queue_stats",
+              summary: "Queue depth, in-flight count and oldest message age",
+              responses: {
+                "200": {
+                  description: "Counts by state",
+                  ...json({
+                    type: "object",
+                    properties: {
+                      depth: { type: "integer", description: "messages waiting: ready, delayed or back from an expired lease" },
+                      ready: { type: "integer" },
+                      delayed: { type: "integer" },
+                      in_flight: { type: "integer" },
+                      expired_leases: { type: "integer", description: "leased messages waiting for the alarm to requeue them" },
+                      dead: { type: "integer" },
+                      oldest_age_seconds: { type: "integer", nullable: true, description: "age of the oldest message not dead-lettered" },
+                      max_attempts: { type: "integer" },
+                      visibility_timeout_seconds: { type: "number" }
+                    }
+                  })
+                }
+              }
+            }
+          }
+        }
+      };
+    }
+  };
+}
@@ -0,0 +1,177 @@
+// src/handlers/responseStream.ts
+// Reassembles OpenAI Responses API streaming events into a response object (POST .../responses/stream).
+//
+//   Content-Type: text/event-stream     the raw SSE stream ("event:" / "data:" blocks, "[DONE]" is skipped)
+//   anything else                       NDJSON, one event object per line
+//
+// Unknown event types are ignored, so newer event kinds do not break ingestion.
+
+export class StreamError extends Error {
+  constructor(message: string, public event?: number) {
+    super(message);
+  }
+}
+
+/** events that carry the final response object */
+export const FINAL_EVENTS = ["response.completed", "response.failed", "response.incomplete"];
+
+/**
+ * Read events from a request body as it arrives. Each yield holds the events completed by one
+ * network chunk, so callers can persist once per chunk instead of once per delta.
+ */
+export async function* readStreamEvents(body: ReadableStream<Uint8Array>, sse: boolean): AsyncGenerator<any[]> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let count = 0;
+  // SSE block being collected
+  let name: string | null = null;
+  let data: string[] = [];
+
+  const parse = (raw: string) => {
+    count++;
+    try {
+      return JSON.parse(raw);
+    } catch {
+      throw new StreamError("invalid JSON", count);
+    }
+  };
+
+  const lines = function* (text: string): Generator<any> {
+    for (const rawLine of text.split("\n")) {
+      const line = rawLine.endsWith("\r") ? rawLine.slice(0, -1) : rawLine;
+      if (!sse) {
+        if (line.trim()) yield parse(line);
+        continue;
+      }
+      if (line === "") {
+        // a blank line dispatches the block
+        const payload = data.join("\n");
+        const eventName = name;
+        name = null;
+        data = [];
+        if (!payload || payload === "[DONE]") continue;
+        const event = parse(payload);
+        if (event && typeof event === "object" && !event.type && eventName) event.type = eventName;
+        yield event;
+      } else if (line.startsWith("data:")) {
+        data.push(line.slice(5).replace(/^ /, ""));
+      } else if (line.startsWith("event:")) {
+        name = line.slice(6).trim();
+      }
+      // ":" comments, id: and retry: lines carry nothing we need
+    }
+  };
+
+  const reader = body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+    // keep the trailing partial line for the next chunk; at the end flush it (and close an open SSE block)
+    const cut = done ? buffer.length : buffer.lastIndexOf("\n") + 1;
+    const events = [...lines(buffer.slice(0, cut) + (done && sse ? "\n\n" : ""))];
+    buffer = buffer.slice(cut);
+    if (events.length) yield events;
+    if (done) return;
+  }
+}
+
+const outputItem = (doc: any, e: any) => {
+  const item = doc.output?.[e.output_index];
+  if (!item) throw new StreamError(`${e.type} refers to output_index ${e.output_index}, which was never added`);
+  return item;
+};
+
+/** an item's content or summary array, created on first use */
+const partsOf = (doc: any, e: any, key: "content" | "summary"): any[] => {
+  const item = outputItem(doc, e);
+  if (!Array.isArray(item[key])) item[key] = [];
+  return item[key];
+};
+
+const contentPart = (doc: any, e: any, init: () => any) => (partsOf(doc, e, "content")[e.content_index] ??= init());
+
+const summaryPart = (doc: any, e: any) =>
+  (partsOf(doc, e, "summary")[e.summary_index] ??= { type: "summary_text", text: "" });
+
+/**
+ * Apply one event to the response being assembled (mutated in place) and return it.
+ * response.created / in_progress / queued start or refresh the response with status "in_progress";
+ * the final events replace it with the authoritative object the API sends.
+ */
+export function applyStreamEvent(doc: any, event: any): any {
+  if (!event || typeof event !== "object" || typeof event.type !== "string") {
+    throw new StreamError("event needs a type");
+  }
+  const e = event;
+
+  if (FINAL_EVENTS.includes(e.type)) {
+    if (!e.response || typeof e.response !== "object") throw new StreamError(`${e.type} has no response`);
+    return e.response;
+  }
+  if (e.type === "response.created" || e.type === "response.in_progress" || e.type === "response.queued") {
+    if (!e.response || typeof e.response !== "object") throw new StreamError(`${e.type} has no response`);
+    // a refresh of the same response keeps the output streamed so far
+    const output = doc?.id === e.response.id && doc.output?.length ? doc.output : e.response.output ?? [];
+    return { ...e.response, output, status: "in_progress" };
+  }
+  if (e.type === "error") {
+    if (!doc) throw new StreamError(`error event before response.created: ${e.message ?? e.code ?? "unknown error"}`);
+    return { ...doc, status: "failed", error: { code: e.code ?? null, message: e.message ?? null } };
+  }
+  if (!e.type.startsWith("response.")) return doc;
+  if (!doc) throw new StreamError(`${e.type} before response.created`);
+
+  switch (e.type) {
+    case "response.output_item.added":
+    case "response.output_item.done":
+      doc.output[e.output_index] = e.item;
+      break;
+    case "response.content_part.added":
+    case "response.content_part.done":
+      partsOf(doc, e, "content")[e.content_index] = e.part;
+      break;
+    case "response.output_text.delta": {
+      const part = contentPart(doc, e, () => ({ type: "output_text", text: "", annotations: [] }));
+      part.text = (part.text ?? "") + e.delta;
+      break;
+    }
+    case "response.output_text.done":
+      contentPart(doc, e, () => ({ type: "output_text", annotations: [] })).text = e.text;
+      break;
+    case "response.output_text.annotation.added": {
+      const part = contentPart(doc, e, () => ({ type: "output_text", text: "", annotations: [] }));
+      if (!Array.isArray(part.annotations)) part.annotations = [];
+      part.annotations[e.annotation_index ?? part.annotations.length] = e.annotation;
+      break;
+    }
+    case "response.refusal.delta": {
+      const part = contentPart(doc, e, () => ({ type: "refusal", refusal: "" }));
+      part.refusal = (part.refusal ?? "") + e.delta;
+      break;
+    }
+    case "response.refusal.done":
+      contentPart(doc, e, () => ({ type: "refusal" })).refusal = e.refusal;
+      break;
+    case "response.function_call_arguments.delta": {
+      const item = outputItem(doc, e);
+      item.arguments = (item.arguments ?? "") + e.delta;
+      break;
+    }
+    case "response.function_call_arguments.done":
+      outputItem(doc, e).arguments = e.arguments;
+      break;
+    case "response.reasoning_summary_part.added":
+    case "response.reasoning_summary_part.done":
+      partsOf(doc, e, "summary")[e.summary_index] = e.part;
+      break;
+    case "response.reasoning_summary_text.delta": {
+      const part = summaryPart(doc, e);
+      part.text = (part.text ?? "") + e.delta;
+      break;
+    }
+    case "response.reasoning_summary_text.done":
+      summaryPart(doc, e).text = e.text;
+      break;
+  }
+  return doc;
+}
@@ -1,7 +1,20 @@
 // src/handlers/responsesStore.ts
 import { z } from "zod";
 import type { ResponsesStoreActorConfig } from "../types";
-import type { Handler } from "../registry";
+import type { ExportRow, Handler } from "../registry";
+import { recordChanges } from "../changeFeed";
+import { exportTableRows, SnapshotError } from "../snapshot";
+import { etagFor, notModified, preconditionFailed, preconditionsMet } from "../etag";
+import { applyPatch, jsonPatchSchema, PatchError } from "../json-patch";
+import { listQueryParams, parseListQuery, QueryError, type ListSpec } from "./listQuery";
+import {
+  deleteSearchRows, ensureSearchTable, extractOutputText, isSearchSyntaxError,
+  rebuildSearchRows, searchMatchesCte, writeSearchRows, type SearchTable
+} from "./contentSearch";
+import { backfillBatch, migrateIndexColumns, planIndexedTable, type IndexedTable } from "./indexMigration";
+import { batchOperation, handleBatch } from "./batchIngest";
+import { applyStreamEvent, readStreamEvents, StreamError } from "./responseStream";
+import { parseProjection, projectedEtag, projectedSchema, projectionParams, type Projection } from "./projection";
 
 /** safe column label from "a.b.c" -> "k_a_b_c" */
 const colName = (p: string) => "k_" + p.replace(/[^a-zA-Z0-9]+/g, "_").slice(0, 48);
@@ -35,6 +48,291 @@ const extractOutputValues = (doc: any, path: string): string[] => {
   return values;
 };
 
+/** k_* column values for the configured indexes of a validated document */
+const indexValues = (cfg: ResponsesStoreActorConfig, doc: any): Record<string, string | null> => {
+  const values: Record<string, string | null> = {};
+  for (const p of cfg.indexes ?? []) {
+    const c = colName(p);
+    if (p.startsWith("output.")) {
+      // For output array paths, concatenate all values found
+      const extractedValues = extractOutputValues(doc, p);
+      values[c] = extractedValues.length > 0 ? extractedValues.join("|") : null;
+    } else {
+      const v = getPath(doc, p);
+      values[c] = v == null ? null : String(v);
+    }
+  }
+  return values;
+};
+
+const searchTable: SearchTable = { name: "response_outputs_fts", source: "responses", sourceKey: "response_id" };
+
+type OutputIndexOptions = {
+  maxContentLength: number;
+  search: boolean;               // keep the FTS table in sync
+  searchFields: string[];        // top-level text fields indexed alongside outputs (e.g. "instructions")
+};
+
+/** (Re)build the response_outputs (and full-text) rows for one response */
+const indexOutputs = (db: SqlStorage, responseId: string, doc: any, opts: OutputIndexOptions) => {
+  db.exec("DELETE FROM response_outputs WHERE response_id = ?", responseId);
+  if (opts.search) writeSearchRows(db, searchTable, responseId, doc, opts.searchFields);
+  if (!doc.output || !Array.isArray(doc.output)) return;
+
+  for (let i = 0; i < doc.output.length; i++) {
+    const outputItem = doc.output[i];
+    const outputType = outputItem.type || null;
+    const outputRole = outputItem.role || null;
+    const outputStatus = outputItem.status || null;
+    
+    // Extract text content from various possible structures
+    let outputContent = extractOutputText(outputItem);
+    let contentTokens = null;
+
+    if (outputContent) {
+      // Estimate token count (rough approximation: 1 token ~= 4 characters)
+      contentTokens = Math.ceil(outputContent.length / 4);
+      
+      // Truncate for indexing if needed (the FTS table keeps the full text)
+      if (outputContent.length > opts.maxContentLength) {
+        outputContent = outputContent.substring(0, opts.maxContentLength);
+      }
+    }
+
+    db.exec(
+      `INSERT INTO response_outputs(response_id, output_index, output_type, output_role, output_content, output_status, content_tokens) 
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      responseId, i, outputType, outputRole, outputContent, outputStatus, contentTokens
+    );
+  }
+};
+
+/**
+ * Insert a validated response with its index rows (synchronous, so it can run in a transaction).
+ * Imports pass the original id / ts / schema_version; new responses get fresh ones.
+ */
+const insertResponse = (
+  db: SqlStorage,
+  cfg: ResponsesStoreActorConfig,
+  doc: any,
+  opts: OutputIndexOptions,
+  { id, ts, schema_version }: Omit<ExportRow, "body"> = { id: crypto.randomUUID(), ts: Math.floor(Date.now() / 1000), schema_version: "v1" }
+) => {
+  // Extract main response fields
+  const responseId = doc.id;
+  const totalTokens = doc.usage?.total_tokens || null;
+
+  // extract configured indexes
+  const values = indexValues(cfg, doc);
+
+  const body = JSON.stringify(doc);
+  const cols = [
+    "id", "response_id", "previous_response_id", "ts", "schema_version", "status", "model", "created_at", "total_tokens", "body",
+    ...Object.keys(values)
+  ];
+  const marks = cols.map(() => "?").join(", ");
+  const args = [
+    id, responseId, doc.previous_response_id ?? null, ts, schema_version, doc.status, doc.model, doc.created_at, totalTokens, body,
+    ...Object.values(values)
+  ];
+
+  // Insert main response
+  db.exec(`INSERT INTO responses(${cols.join(",")}) VALUES (${marks})`, ...args);
+
+  // Index output array
+  indexOutputs(db, responseId, doc, opts);
+  recordChanges(db, responsesListSpec(cfg), "response_id", "insert", "id = ?", id);
+  return { id, response_id: responseId as string, ts, body, outputs_indexed: doc.output?.length || 0 };
+};
+
+const responseIdMismatch = (docId: string, responseId: string) =>
+  Response.json({ 
+    error: "response_id_mismatch", 
+    message: `document id '${docId}' does not match '${responseId}'`
+  }, { status: 400 });
+
+const responseExists = (db: SqlStorage, responseId: string) =>
+  db.exec("SELECT 1 FROM responses WHERE response_id = ?", responseId).toArray().length > 0;
+
+const duplicateResponse = (responseId: string) =>
+  Response.json({
+    error: "duplicate_id",
+    message: `response '${responseId}' already exists; replace it with PUT .../responses/${responseId}`
+  }, { status: 409 });
+
+/** Replace a stored response and rebuild its index rows (synchronous, like insertResponse) */
+const updateResponse = (db: SqlStorage, cfg: ResponsesStoreActorConfig, doc: any, opts: OutputIndexOptions) => {
+  const ts = Math.floor(Date.now() / 1000);
+  const values = indexValues(cfg, doc);
+  const body = JSON.stringify(doc);
+  const sets = [
+    "ts = ?", "previous_response_id = ?", "status = ?", "model = ?", "created_at = ?", "total_tokens = ?", "body = ?",
+    ...Object.keys(values).map(c => `${c} = ?`)
+  ];
+  db.exec(
+    `UPDATE responses SET ${sets.join(", ")} WHERE response_id = ?`,
+    ts, doc.previous_response_id ?? null, doc.status, doc.model, doc.created_at,
+    doc.usage?.total_tokens || null, body, ...Object.values(values), doc.id
+  );
+  indexOutputs(db, doc.id, doc, opts);
+  recordChanges(db, responsesListSpec(cfg), "response_id", "update", "response_id = ?", doc.id);
+  return { ts, body };
+};
+
+/** filterable / sortable columns of GET /responses */
+const responsesListSpec = (cfg: ResponsesStoreActorConfig, search = false): ListSpec => ({
+  table: "responses",
+  idCol: "id",
+  columns: {
+    response_id: "text",
+    previous_response_id: "text",
+    status: "text",
+    model: "text",
+    ts: "number",
+    created_at: "number",
+    total_tokens: "number",
+    ...Object.fromEntries((cfg.indexes ?? []).map(p => [colName(p), "text" as const]))
+  },
+  // with ?q= results can be ordered by BM25 relevance (lower scores rank first)
+  sortExpressions: search ? { relevance: "search_matches.score" } : undefined,
+  defaultSort: search ? "relevance" : "response_id"
+});
+
+/** longest chain walked by /thread and /children, guarding against previous_response_id cycles */
+const MAX_THREAD_DEPTH = 1000;
+
+const RESPONSE_COLUMNS = `responses.id, responses.response_id, responses.previous_response_id, responses.ts, responses.status,
+  responses.model, responses.created_at, responses.total_tokens, responses.body`;
+
+const responseRow = (r: Record<string, SqlStorageValue>) => ({
+  id: r.id,
+  response_id: r.response_id,
+  previous_response_id: r.previous_response_id,
+  ts: r.ts,
+  status: r.status,
+  model: r.model,
+  created_at: r.created_at,
+  total_tokens: r.total_tokens,
+  body: JSON.parse(r.body as string)
+});
+
+/**
+ * Filters shared by GET /responses and GET /responses/stats: the list query operators,
+ * full-text search (`q`), output array filters, token ranges and thread ends.
+ * Output filters join response_outputs, so a response can appear once per matching output.
+ */
+const responseFilters = (url: URL, cfg: ResponsesStoreActorConfig) => {
+  const q = url.searchParams;
+  const search = q.get("q");
+  const list = parseListQuery(url, responsesListSpec(cfg, !!search));
+
+  const where = [...list.where];
+  const params: any[] = [...list.params];
+  let joins = search ? "JOIN search_matches ON search_matches.doc_id = responses.response_id" : "";
+
+  // Support output array filtering
+  const outputType = q.get("output_type");
+  const outputRole = q.get("output_role");
+  const outputContent = q.get("output_content");
+  const outputStatus = q.get("output_status");
+  if (outputType || outputRole || outputContent || outputStatus) {
+    joins += " JOIN response_outputs ro ON responses.response_id = ro.response_id";
+    if (outputType) { where.push("ro.output_type = ?"); params.push(outputType); }
+    if (outputRole) { where.push("ro.output_role = ?"); params.push(outputRole); }
+    if (outputContent) { where.push("ro.output_content LIKE ?"); params.push(`%${outputContent}%`); }
+    if (outputStatus) { where.push("ro.output_status = ?"); params.push(outputStatus); }
+  }
+
+  // Token range shorthands (status, model, created_at, ... go through the list query)
+  const minTokens = q.get("min_tokens");
+  const maxTokens = q.get("max_tokens");
+  if (minTokens) { where.push("responses.total_tokens >= ?"); params.push(parseInt(minTokens)); }
+  if (maxTokens) { where.push("responses.total_tokens <= ?"); params.push(parseInt(maxTokens)); }
+
+  // Conversation ends: roots start a thread (no stored parent), leaves have no stored children
+  for (const name of ["root", "leaf"]) {
+    const v = q.get(name);
+    if (v === null) continue;
+    if (v !== "true" && v !== "false") throw new QueryError(`${name} expects true or false`);
+    where.push(`${v === "true" ? "NOT " : ""}EXISTS (${name === "root"
+      ? "SELECT 1 FROM responses parent WHERE parent.response_id = responses.previous_response_id"
+      : "SELECT 1 FROM responses child WHERE child.previous_response_id = responses.response_id"})`);
+  }
+
+  return { search, list, joins, where, params };
+};
+
+/** bucket widths for GET /responses/stats, in seconds of created_at */
+const STATS_BUCKETS: Record<string, number> = { hour: 3600, day: 86400, week: 604800 };
+
+/** usage fields summed by GET /responses/stats (total_tokens has its own column) */
+const USAGE_PATHS: Record<string, string> = {
+  input_tokens: "$.usage.input_tokens",
+  output_tokens: "$.usage.output_tokens",
+  reasoning_tokens: "$.usage.output_tokens_details.reasoning_tokens",
+  cached_tokens: "$.usage.input_tokens_details.cached_tokens"
+};
+
+/** unix seconds or an ISO 8601 date */
+const parseTime = (name: string, v: string | null) => {
+  if (v === null) return null;
+  const t = /^\d+$/.test(v) ? Number(v) : Math.floor(Date.parse(v) / 1000);
+  if (!Number.isFinite(t)) throw new QueryError(`${name} expects unix seconds or an ISO 8601 date, got '${v}'`);
+  return t;
+};
+
+/** group_by, bucket, from/to and percentiles of GET /responses/stats */
+const parseStatsQuery = (url: URL, cfg: ResponsesStoreActorConfig) => {
+  const q = url.searchParams;
+
+  const groupBy = q.get("group_by");
+  let groupExpr = "NULL";
+  let groupJoin = "";
+  if (groupBy === "model" || groupBy === "status") {
+    groupExpr = `responses.${groupBy}`;
+  } else if (groupBy === "output_type") {
+    // a response counts once for each distinct output type it contains
+    groupJoin = "JOIN (SELECT DISTINCT response_id, output_type FROM response_outputs) g ON g.response_id = responses.response_id";
+    groupExpr = "g.output_type";
+  } else if (groupBy) {
+    const col = groupBy.startsWith("k_") ? groupBy : colName(groupBy);
+    if (!(cfg.indexes ?? []).map(colName).includes(col)) {
+      throw new QueryError(`cannot group by '${groupBy}'; use model, status, output_type or an indexed column`);
+    }
+    groupExpr = `responses.${col}`;
+  }
+
+  const bucket = q.get("bucket");
+  if (bucket && !(bucket in STATS_BUCKETS)) throw new QueryError("bucket expects hour, day or week");
+  const width = bucket ? STATS_BUCKETS[bucket] : 0;
+  // weeks start on Monday; the epoch fell on a Thursday
+  const offset = bucket === "week" ? 3 * 86400 : 0;
+  const bucketExpr = bucket ? `((responses.created_at + ${offset}) / ${width}) * ${width} - ${offset}` : "NULL";
+
+  const percentiles = (q.get("percentiles") ?? "50,90,99").split(",").map(v => {
+    const p = Number(v);
+    if (!(p > 0 && p <= 100)) throw new QueryError(`percentiles must be between 0 and 100, got '${v}'`);
+    return p;
+  });
+
+  return {
+    groupBy, groupExpr, groupJoin, bucket, bucketExpr, percentiles,
+    from: parseTime("from", q.get("from")),
+    to: parseTime("to", q.get("to"))
+  };
+};
+
+/** nearest-rank percentile of ascending values */
+const percentile = (sorted: number[], p: number) => sorted[Math.max(Math.ceil((p / 100) * sorted.length) - 1, 0)];
+
+const responsesTable: IndexedTable = { table: "responses", key: "id", indexName: c => `idx_responses_${c}` };
+
+const validationError = (issues: { path: PropertyKey[]; message: string }[]) =>
+  Response.json({ 
+    error: "invalid_response_document", 
+    details: issues.map(e => `${e.path.join('.')}: ${e.message}`)
+  }, { status: 400 });
+
 // OpenAI Response API optimized schema validation
 function createResponsesZodSchema(): z.ZodType {
   const OutputItemSchema = z.object({
@@ -59,7 +357,7 @@ function createResponsesZodSchema(): z.ZodType {
     id: z.string(),
     object: z.literal("response"),
     created_at: z.number(),
-    status: z.enum(["completed", "incomplete", "failed"]),
+    status: z.enum(["completed", "incomplete", "failed", "in_progress"]),
     error: z.any().nullable().optional(),
     incomplete_details: z.any().nullable().optional(),
     instructions: z.string().nullable().optional(),
@@ -107,6 +405,11 @@ export function responsesStoreHandlerFactory(cfg: ResponsesStoreActorConfig): Ha
   const zodSchema = createResponsesZodSchema();
   const maxContentLength = cfg.params?.max_output_content_length ?? 1000;
   const enableContentSearch = cfg.params?.enable_content_search ?? true;
+  const outputOpts: OutputIndexOptions = {
+    maxContentLength,
+    search: enableContentSearch,
+    searchFields: cfg.params?.search_instructions ? ["instructions"] : []
+  };
 
   return {
     async ensureSchema(db, cfg) {
@@ -118,21 +421,6 @@ export function responsesStoreHandlerFactory(cfg: ResponsesStoreActorConfig): Ha
         );
       `);
 
-      // Check if we need to recreate the tables due to schema changes
-      const currentIndexes = JSON.stringify((cfg.indexes ?? []).sort());
-      const result = await db.exec("SELECT v FROM actor_meta WHERE k = 'indexes'");
-      const rows = result.toArray();
-      const storedIndexes = rows.length > 0 ? rows[0].v as string : null;
-      
-      if (storedIndexes !== currentIndexes) {
-        // Schema changed, recreate the tables
-        await db.exec("DROP TABLE IF EXISTS responses");
-        await db.exec("DROP TABLE IF EXISTS response_outputs");
-        
-        // Store the new index configuration
-        await db.exec("INSERT OR REPLACE INTO actor_meta(k, v) VALUES ('indexes', ?)", currentIndexes);
-      }
-
       // main table: responses (optimized for OpenAI Response API)
       const idxCols = (cfg.indexes ?? []).map(colName);
       const extraCols = idxCols.map(c => `${c} TEXT`).join(", ");
@@ -140,6 +428,7 @@ export function responsesStoreHandlerFactory(cfg: ResponsesStoreActorConfig): Ha
         CREATE TABLE IF NOT EXISTS responses(
           id TEXT PRIMARY KEY,
           response_id TEXT NOT NULL,
+          previous_response_id TEXT,
           ts INTEGER NOT NULL,
           schema_version TEXT,
           status TEXT NOT NULL,
@@ -151,6 +440,16 @@ export function responsesStoreHandlerFactory(cfg: ResponsesStoreActorConfig): Ha
         );
       `);
 
+      // An existing table keeps its rows: add/drop k_* columns and queue a backfill
+      migrateIndexColumns(db, responsesTable, idxCols);
+
+      // Tables created before threads were indexed: promote previous_response_id out of the body
+      const columns = db.exec("PRAGMA table_info(responses)").toArray().map(r => r.name);
+      if (!columns.includes("previous_response_id")) {
+        db.exec("ALTER TABLE responses ADD COLUMN previous_response_id TEXT");
+        db.exec("UPDATE responses SET previous_response_id = json_extract(body, '$.previous_response_id')");
+      }
+
       // Create dedicated table for indexing output array items
       await db.exec(`
         CREATE TABLE IF NOT EXISTS response_outputs(
@@ -167,6 +466,11 @@ export function responsesStoreHandlerFactory(cfg: ResponsesStoreActorConfig): Ha
 
       // Indexes on main responses table
       await db.exec(`CREATE INDEX IF NOT EXISTS idx_responses_response_id ON responses(response_id);`);
+      // response ids are unique; actors that stored duplicates before this was enforced keep a plain index
+      if (!db.exec("SELECT 1 FROM responses GROUP BY response_id HAVING COUNT(*) > 1 LIMIT 1").toArray().length) {
+        db.exec("CREATE UNIQUE INDEX IF NOT EXISTS idx_responses_response_id_unique ON responses(response_id)");
+      }
+      await db.exec(`CREATE INDEX IF NOT EXISTS idx_responses_previous_response_id ON responses(previous_response_id);`);
       await db.exec(`CREATE INDEX IF NOT EXISTS idx_responses_status ON responses(status);`);
       await db.exec(`CREATE INDEX IF NOT EXISTS idx_responses_model ON responses(model);`);
       await db.exec(`CREATE INDEX IF NOT EXISTS idx_responses_created_at ON responses(created_at);`);
@@ -181,82 +485,75 @@ export function responsesStoreHandlerFactory(cfg: ResponsesStoreActorConfig): Ha
       await db.exec(`CREATE INDEX IF NOT EXISTS idx_outputs_response_id ON response_outputs(response_id);`);
       await db.exec(`CREATE INDEX IF NOT EXISTS idx_outputs_type ON response_outputs(output_type);`);
       await db.exec(`CREATE INDEX IF NOT EXISTS idx_outputs_role ON response_outputs(output_role);`);
-      if (enableContentSearch) {
-        await db.exec(`CREATE INDEX IF NOT EXISTS idx_outputs_content ON response_outputs(output_content);`);
+      // Full-text search replaces the old B-tree index on the truncated output_content
+      await db.exec(`DROP INDEX IF EXISTS idx_outputs_content;`);
+      const searchConfig = JSON.stringify(outputOpts.searchFields);
+      const storedSearch = db.exec("SELECT v FROM actor_meta WHERE k = 'search_fields'").toArray()[0]?.v;
+      if (ensureSearchTable(db, searchTable, enableContentSearch) || (enableContentSearch && storedSearch !== searchConfig)) {
+        rebuildSearchRows(db, searchTable, outputOpts.searchFields);
       }
+      await db.exec("INSERT OR REPLACE INTO actor_meta(k, v) VALUES ('search_fields', ?)", searchConfig);
       await db.exec(`CREATE INDEX IF NOT EXISTS idx_outputs_status ON response_outputs(output_status);`);
     },
 
-    async handle(req, db, cfg) {
+    async handle(req, db, cfg, tx) {
       const url = new URL(req.url);
       const parts = url.pathname.split("/").filter(Boolean);
       const last = parts[parts.length - 1];
 
       // GET /actors/{id}/responses
       if (req.method === "GET" && last === "responses") {
-        const limit = Math.min(parseInt(url.searchParams.get("limit") || "50"), 200);
-        const after = url.searchParams.get("after"); // pagination by response_id
-        const filters = Object.fromEntries([...url.searchParams.entries()]
-          .filter(([k]) => k.startsWith("k_"))); // filter by indexed fields
-
-        // Support output array filtering
-        const outputType = url.searchParams.get("output_type");
-        const outputRole = url.searchParams.get("output_role");
-        const outputContent = url.searchParams.get("output_content");
-        const outputStatus = url.searchParams.get("output_status");
-
-        // Support built-in response filtering
-        const status = url.searchParams.get("status");
-        const model = url.searchParams.get("model");
-        const minTokens = url.searchParams.get("min_tokens");
-        const maxTokens = url.searchParams.get("max_tokens");
-
-        let where = [];
-        let params: any[] = [];
-        let joins = "";
-
-        // Handle output array filters by joining with response_outputs table
-        if (outputType || outputRole || outputContent || outputStatus) {
-          joins = "JOIN response_outputs ro ON responses.response_id = ro.response_id";
-          if (outputType) { where.push("ro.output_type = ?"); params.push(outputType); }
-          if (outputRole) { where.push("ro.output_role = ?"); params.push(outputRole); }
-          if (outputContent) { where.push("ro.output_content LIKE ?"); params.push(`%${outputContent}%`); }
-          if (outputStatus) { where.push("ro.output_status = ?"); params.push(outputStatus); }
+        // Full-text search over output text (FTS5 syntax: terms, "phrases", prefix*, AND/OR/NOT)
+        const search = url.searchParams.get("q");
+        if (search && !enableContentSearch) {
+          return Response.json({ error: "content_search_disabled" }, { status: 400 });
         }
 
-        // Built-in response filters
-        if (after) { where.push("responses.response_id > ?"); params.push(after); }
-        if (status) { where.push("responses.status = ?"); params.push(status); }
-        if (model) { where.push("responses.model = ?"); params.push(model); }
-        if (minTokens) { where.push("responses.total_tokens >= ?"); params.push(parseInt(minTokens)); }
-        if (maxTokens) { where.push("responses.total_tokens <= ?"); params.push(parseInt(maxTokens)); }
-
-        // Custom index filters
-        for (const [k, v] of Object.entries(filters)) { 
-          where.push(`responses.${k} = ?`); 
-          params.push(v as string); 
+        let filters, projection: Projection | null;
+        try {
+          filters = responseFilters(url, cfg);
+          projection = parseProjection(url);
+        } catch (e) {
+          if (!(e instanceof QueryError)) throw e;
+          return Response.json({ error: "invalid_query", message: e.message }, { status: 400 });
         }
+        const { list, joins, where, params } = filters;
+
+        const after = url.searchParams.get("after"); // legacy pagination by response_id
+        if (after) { where.push("responses.response_id > ?"); params.push(after); }
 
         const clause = where.length ? `WHERE ${where.join(" AND ")}` : "";
-        const q = `SELECT DISTINCT responses.id, responses.response_id, responses.ts, responses.schema_version, 
-                          responses.status, responses.model, responses.created_at, responses.total_tokens, responses.body 
+        const q = `${search ? searchMatchesCte(searchTable) : ""}
+                   SELECT DISTINCT responses.id, responses.response_id, responses.previous_response_id, responses.ts, responses.schema_version, 
+                          responses.status, responses.model, responses.created_at, responses.total_tokens, responses.body,
+                          ${search ? "search_matches.score AS search_score, search_matches.snippet AS search_snippet," : ""}
+                          ${list.sortExpr} AS sort_key 
                    FROM responses ${joins} ${clause} 
-                   ORDER BY responses.response_id ASC LIMIT ?`;
+                   ORDER BY ${list.orderBy} LIMIT ?`;
         
-        const cursor = db.exec(q, ...params, limit);
-        const results = cursor.toArray();
+        let results;
+        try {
+          results = db.exec(q, ...(search ? [search] : []), ...params, list.limit).toArray();
+        } catch (e) {
+          if (!isSearchSyntaxError(e)) throw e;
+          return Response.json({ error: "invalid_query", message: (e as Error).message }, { status: 400 });
+        }
+        const lastRow = results[results.length - 1] as any;
         return Response.json({
           responses: results.map((row: any) => ({ 
             id: row.id,
             response_id: row.response_id,
+            previous_response_id: row.previous_response_id,
             ts: row.ts,
             status: row.status,
             model: row.model,
             created_at: row.created_at,
             total_tokens: row.total_tokens,
-            body: JSON.parse(row.body) 
+            ...(search ? { search: { score: row.search_score, snippet: row.search_snippet } } : {}),
+            body: projection ? projection(JSON.parse(row.body)) : JSON.parse(row.body)
           })),
-          next_after: results.length ? results[results.length - 1].response_id : null
+          next_after: lastRow ? lastRow.response_id : null,
+          next_cursor: results.length === list.limit ? list.nextCursor(lastRow) : null
         });
       }
 
@@ -269,97 +566,12 @@ export function responsesStoreHandlerFactory(cfg: ResponsesStoreActorConfig): Ha
           }
 
           const result = zodSchema.safeParse(doc);
-          if (!result.success) {
-            return Response.json({ 
-              error: "invalid_response_document", 
-              details: result.error.issues.map(e => `${e.path.join('.')}: ${e.message}`)
-            }, { status: 400 });
-          }
-          
-          const validatedDoc = result.data;
-          const docAsAny = validatedDoc as any;
-          const id = crypto.randomUUID();
-          const ts = Math.floor(Date.now() / 1000);
-
-          // Extract main response fields
-          const responseId = docAsAny.id;
-          const status = docAsAny.status;
-          const model = docAsAny.model;
-          const createdAt = docAsAny.created_at;
-          const totalTokens = docAsAny.usage?.total_tokens || null;
-
-          // extract configured indexes
-          const values: Record<string, string | null> = {};
-          for (const p of cfg.indexes ?? []) {
-            const c = colName(p);
-            if (p.startsWith("output.")) {
-              // For output array paths, concatenate all values found
-              const extractedValues = extractOutputValues(docAsAny, p);
-              values[c] = extractedValues.length > 0 ? extractedValues.join("|") : null;
-            } else {
-              const v = getPath(validatedDoc, p);
-              values[c] = v == null ? null : String(v);
-            }
-          }
-
-          const cols = ["id", "response_id", "ts", "schema_version", "status", "model", "created_at", "total_tokens", "body", ...Object.keys(values)];
-          const marks = cols.map(() => "?").join(", ");
-          const args = [id, responseId, ts, "v1", status, model, createdAt, totalTokens, JSON.stringify(validatedDoc), ...Object.values(values)];
+          if (!result.success) return validationError(result.error.issues);
+          const responseId = (result.data as any).id;
+          if (responseExists(db, responseId)) return duplicateResponse(responseId);
           
-          // Insert main response
-          await db.exec(`INSERT INTO responses(${cols.join(",")}) VALUES (${marks})`, ...args);
-
-          // Index output array
-          if (docAsAny.output && Array.isArray(docAsAny.output)) {
-            for (let i = 0; i < docAsAny.output.length; i++) {
-              const outputItem = docAsAny.output[i];
-              const outputType = outputItem.type || null;
-              const outputRole = outputItem.role || null;
-              const outputStatus = outputItem.status || null;
-              
-              // Extract text content from various possible structures
-              let outputContent = null;
-              let contentTokens = null;
-              
-              if (outputItem.content) {
-                if (typeof outputItem.content === "string") {
-                  outputContent = outputItem.content;
-                } else if (Array.isArray(outputItem.content)) {
-                  // Handle content arrays (like OpenAI's structure)
-                  const textItems = outputItem.content
-                    .filter((item: any) => item.type === "text" || item.type === "output_text")
-                    .map((item: any) => item.text)
-                    .filter(Boolean);
-                  outputContent = textItems.join(" ");
-                }
-              } else if (outputItem.text) {
-                outputContent = outputItem.text;
-              }
-
-              if (outputContent) {
-                // Estimate token count (rough approximation: 1 token ~= 4 characters)
-                contentTokens = Math.ceil(outputContent.length / 4);
-                
-                // Truncate for indexing if needed
-                if (outputContent.length > maxContentLength) {
-                  outputContent = outputContent.substring(0, maxContentLength);
-                }
-              }
-
-              await db.exec(
-                `INSERT INTO response_outputs(response_id, output_index, output_type, output_role, output_content, output_status, content_tokens) 
-                 VALUES (?, ?, ?, ?, ?, ?, ?)`,
-                responseId, i, outputType, outputRole, outputContent, outputStatus, contentTokens
-              );
-            }
-          }
-
-          return Response.json({ 
-            id, 
-            response_id: responseId, 
-            ts,
-            outputs_indexed: docAsAny.output?.length || 0
-          });
+          const { body, ...created } = insertResponse(db, cfg, result.data, outputOpts);
+          return Response.json(created, { headers: { ETag: await etagFor(body) } });
         } catch (error) {
           console.error("Error in responsesStore POST:", error);
           return Response.json({ 
@@ -369,23 +581,310 @@ export function responsesStoreHandlerFactory(cfg: ResponsesStoreActorConfig): Ha
         }
       }
 
+      // POST /actors/{id}/responses:batch
+      if (req.method === "POST" && last === "responses:batch") {
+        return handleBatch(req, tx, {
+          validate(doc) {
+            const result = zodSchema.safeParse(doc);
+            return result.success
+              ? { doc: result.data }
+              : { details: result.error.issues.map(e => `${e.path.join('.')}: ${e.message}`) };
+          },
+          write(doc) {
+            const responseId = (doc as any).id;
+            if (responseExists(db, responseId)) throw new Error(`duplicate_id: response '${responseId}' already exists`);
+            const { body, ...created } = insertResponse(db, cfg, doc, outputOpts);
+            return created;
+          }
+        });
+      }
+
+      // GET /actors/{id}/responses/stats - usage aggregates, accepting every GET /responses filter
+      if (req.method === "GET" && last === "stats" && parts[parts.length - 2] === "responses") {
+        const search = url.searchParams.get("q");
+        if (search && !enableContentSearch) {
+          return Response.json({ error: "content_search_disabled" }, { status: 400 });
+        }
+
+        let filters, stats;
+        try {
+          filters = responseFilters(url, cfg);
+          stats = parseStatsQuery(url, cfg);
+        } catch (e) {
+          if (!(e instanceof QueryError)) throw e;
+          return Response.json({ error: "invalid_query", message: e.message }, { status: 400 });
+        }
+        const { joins, where, params } = filters;
+        if (stats.from !== null) { where.push("responses.created_at >= ?"); params.push(stats.from); }
+        if (stats.to !== null) { where.push("responses.created_at < ?"); params.push(stats.to); }
+
+        // filter joins may repeat a response, so aggregate over the distinct matches
+        const clause = where.length ? `WHERE ${where.join(" AND ")}` : "";
+        const from = `FROM responses ${stats.groupJoin}
+                      WHERE responses.id IN (SELECT responses.id FROM responses ${joins} ${clause})`;
+        const cte = search ? searchMatchesCte(searchTable) : "";
+        const args = [...(search ? [search] : []), ...params];
+        const sums = Object.entries(USAGE_PATHS)
+          .map(([name, path]) => `COALESCE(SUM(json_extract(responses.body, '${path}')), 0) AS ${name}`)
+          .join(", ");
+
+        let groups, tokens;
+        try {
+          groups = db.exec(`${cte}
+            SELECT ${stats.groupExpr} AS grp, ${stats.bucketExpr} AS bucket, COUNT(*) AS count, ${sums},
+                   COALESCE(SUM(responses.total_tokens), 0) AS total_tokens
+            ${from} GROUP BY grp, bucket ORDER BY bucket, grp`, ...args).toArray();
+          tokens = db.exec(`${cte}
+            SELECT ${stats.groupExpr} AS grp, ${stats.bucketExpr} AS bucket, responses.total_tokens AS n
+            ${from} AND responses.total_tokens IS NOT NULL ORDER BY n`, ...args);
+        } catch (e) {
+          if (!isSearchSyntaxError(e)) throw e;
+          return Response.json({ error: "invalid_query", message: (e as Error).message }, { status: 400 });
+        }
+
+        const key = (r: Record<string, SqlStorageValue>) => JSON.stringify([r.grp, r.bucket]);
+        const sorted = new Map<string, number[]>();
+        for (const r of tokens) {
+          const k = key(r);
+          if (!sorted.has(k)) sorted.set(k, []);
+          sorted.get(k)!.push(r.n as number);
+        }
+
+        return Response.json({
+          group_by: stats.groupBy,
+          bucket: stats.bucket,
+          from: stats.from,
+          to: stats.to,
+          stats: groups.map(r => {
+            const values = sorted.get(key(r)) ?? [];
+            return {
+              group: r.grp,
+              bucket: r.bucket,
+              bucket_start: r.bucket === null ? null : new Date((r.bucket as number) * 1000).toISOString(),
+              count: r.count,
+              tokens: Object.fromEntries([...Object.keys(USAGE_PATHS), "total_tokens"].map(n => [n, r[n]])),
+              total_tokens_percentiles: Object.fromEntries(
+                stats.percentiles.map(p => [`p${p}`, values.length ? percentile(values, p) : null])
+              )
+            };
+          })
+        });
+      }
+
+      // GET /actors/{id}/responses/{responseId}/thread - ancestors via previous_response_id, oldest first
+      if (req.method === "GET" && last === "thread" && parts[parts.length - 3] === "responses") {
+        const responseId = parts[parts.length - 2];
+        const maxDepth = Math.min(parseInt(url.searchParams.get("max_depth") || "") || MAX_THREAD_DEPTH, MAX_THREAD_DEPTH);
+        const chain = db.exec(`
+          WITH RECURSIVE chain(response_id, depth) AS (
+            SELECT ?, 0
+            UNION
+            SELECT r.previous_response_id, chain.depth + 1
+            FROM chain JOIN responses r ON r.response_id = chain.response_id
+            WHERE r.previous_response_id IS NOT NULL AND chain.depth < ?
+          )
+          SELECT chain.depth, chain.response_id AS link, ${RESPONSE_COLUMNS}
+          FROM chain LEFT JOIN responses ON responses.response_id = chain.response_id
+          ORDER BY chain.depth DESC
+        `, responseId, maxDepth).toArray();
+
+        if (!chain.length || chain[chain.length - 1].id == null) return new Response("Response Not Found", { status: 404 });
+        // the oldest link may point at a response that was never stored (or was purged)
+        const missingParent = chain[0].id == null ? (chain.shift()!.link as string) : null;
+        const oldest = chain[0];
+        return Response.json({
+          response_id: responseId,
+          thread: chain.map(responseRow),
+          root_response_id: missingParent ? null : oldest.response_id,
+          missing_parent: missingParent,
+          truncated: !missingParent && oldest.previous_response_id != null
+        });
+      }
+
+      // GET /actors/{id}/responses/{responseId}/children - responses continuing from this one
+      if (req.method === "GET" && last === "children" && parts[parts.length - 3] === "responses") {
+        const responseId = parts[parts.length - 2];
+        if (!db.exec("SELECT 1 FROM responses WHERE response_id = ?", responseId).toArray().length) {
+          return new Response("Response Not Found", { status: 404 });
+        }
+        // depth=1 (default) returns the direct branches; larger values walk further down the tree
+        const depth = Math.min(Math.max(parseInt(url.searchParams.get("depth") || "1") || 1, 1), MAX_THREAD_DEPTH);
+        const descendants = db.exec(`
+          WITH RECURSIVE tree(response_id, depth) AS (
+            SELECT ?, 0
+            UNION
+            SELECT r.response_id, tree.depth + 1
+            FROM tree JOIN responses r ON r.previous_response_id = tree.response_id
+            WHERE tree.depth < ?
+          )
+          SELECT tree.depth, ${RESPONSE_COLUMNS}
+          FROM tree JOIN responses ON responses.response_id = tree.response_id
+          WHERE tree.depth > 0
+          ORDER BY tree.depth ASC, responses.created_at ASC, responses.response_id ASC
+        `, responseId, depth).toArray();
+
+        return Response.json({
+          response_id: responseId,
+          children: descendants.map(r => ({ ...responseRow(r), depth: r.depth }))
+        });
+      }
+
+      // POST /actors/{id}/responses/stream - SSE or NDJSON streaming events, persisted as they arrive
+      if (req.method === "POST" && last === "stream" && parts[parts.length - 2] === "responses") {
+        if (!req.body) return Response.json({ error: "invalid_stream", message: "empty body" }, { status: 400 });
+        const sse = (req.headers.get("Content-Type") ?? "").split(";")[0].trim().toLowerCase() === "text/event-stream";
+
+        let doc: any = null;
+        let events = 0;
+        let saved: string | null = null;   // JSON of the last persisted version
+        const stored = new Set<string>(); // response ids this stream has written
+
+        // write the assembled response once per network chunk; a crash loses at most the last chunk
+        const persist = () => {
+          if (!doc) return null;
+          const result = zodSchema.safeParse(doc);
+          if (!result.success) return validationError(result.error.issues);
+          const next = JSON.stringify(result.data);
+          if (next === saved) return null;
+          // a stream only updates the responses it created; any other stored id is refused, as POST does
+          if (!stored.has(doc.id) && responseExists(db, doc.id)) return duplicateResponse(doc.id);
+          tx(() => {
+            if (stored.has(doc.id)) updateResponse(db, cfg, result.data, outputOpts);
+            else insertResponse(db, cfg, result.data, outputOpts);
+          });
+          saved = next;
+          stored.add(doc.id);
+          return null;
+        };
+
+        try {
+          for await (const batch of readStreamEvents(req.body, sse)) {
+            for (const event of batch) {
+              events++;
+              const next = applyStreamEvent(doc, event);
+              // a new response.created in the same stream: finish the previous response first
+              if (doc && next !== doc && next.id !== doc.id) {
+                const rejected = persist();
+                if (rejected) return rejected;
+              }
+              doc = next;
+            }
+            const rejected = persist();
+            if (rejected) return rejected;
+          }
+        } catch (e) {
+          if (!(e instanceof StreamError)) throw e;
+          const rejected = persist();
+          if (rejected) return rejected;
+          return Response.json({
+            error: "invalid_stream",
+            message: e.message,
+            event: e.event ?? events,
+            // everything before the bad event is kept
+            stored: [...stored]
+          }, { status: 400 });
+        }
+
+        if (!doc) return Response.json({ error: "invalid_stream", message: "no response.created event" }, { status: 400 });
+        return Response.json({
+          response_id: doc.id,
+          status: doc.status,
+          complete: doc.status !== "in_progress",
+          events,
+          outputs_indexed: doc.output?.length || 0,
+          stored: [...stored]
+        });
+      }
+
       // GET /actors/{id}/responses/{responseId}
       if (req.method === "GET" && parts[parts.length - 2] === "responses") {
         const responseId = last;
-        const cursor = db.exec("SELECT id, response_id, ts, schema_version, status, model, created_at, total_tokens, body FROM responses WHERE response_id = ?", responseId);
-        const r = cursor.one();
+        // the newest copy, for actors that stored duplicates before ids were unique
+        const cursor = db.exec(
+          "SELECT id, response_id, previous_response_id, ts, schema_version, status, model, created_at, total_tokens, body FROM responses WHERE response_id = ? ORDER BY ts DESC, rowid DESC LIMIT 1",
+          responseId
+        );
+        const r = cursor.toArray()[0];
         if (!r) return new Response("Response Not Found", { status: 404 });
+        let projection;
+        try {
+          projection = parseProjection(url);
+        } catch (e) {
+          if (!(e instanceof QueryError)) throw e;
+          return Response.json({ error: "invalid_query", message: e.message }, { status: 400 });
+        }
+        const stored = await etagFor(r.body as string);
+        const etag = projectedEtag(stored, projection);
+        if (notModified(req, stored)) return new Response(null, { status: 304, headers: { ETag: etag } });
+        const body = JSON.parse(r.body as string);
         
         return Response.json({ 
           id: r.id,
           response_id: r.response_id,
+          previous_response_id: r.previous_response_id,
           ts: r.ts,
           status: r.status,
           model: r.model,
           created_at: r.created_at,
           total_tokens: r.total_tokens,
-          body: JSON.parse(r.body as string) 
-        });
+          body: projection ? projection(body) : body
+        }, { headers: { ETag: etag } });
+      }
+
+      // PUT | PATCH | DELETE /actors/{id}/responses/{responseId}
+      if (["PUT", "PATCH", "DELETE"].includes(req.method) && parts[parts.length - 2] === "responses") {
+        const responseId = last;
+        const r = db.exec("SELECT body FROM responses WHERE response_id = ? ORDER BY ts DESC, rowid DESC LIMIT 1", responseId).toArray()[0];
+        // PUT stores a missing response under the id in the path
+        if (!r && req.method === "PUT") {
+          if (!preconditionsMet(req, null)) return preconditionFailed(null);
+          const doc = await req.json().catch(() => undefined);
+          if (doc === undefined) return Response.json({ error: "invalid_json" }, { status: 400 });
+          const result = zodSchema.safeParse(doc);
+          if (!result.success) return validationError(result.error.issues);
+          const docId = (result.data as any).id;
+          if (docId !== responseId) return responseIdMismatch(docId, responseId);
+          const { body, ...created } = insertResponse(db, cfg, result.data, outputOpts);
+          return Response.json(created, { status: 201, headers: { ETag: await etagFor(body) } });
+        }
+        if (!r) return new Response("Response Not Found", { status: 404 });
+        const current = JSON.parse(r.body as string);
+        const etag = await etagFor(r.body as string);
+        if (!preconditionsMet(req, etag)) return preconditionFailed(etag);
+
+        if (req.method === "DELETE") {
+          recordChanges(db, responsesListSpec(cfg), "response_id", "delete", "response_id = ?", responseId);
+          await db.exec("DELETE FROM response_outputs WHERE response_id = ?", responseId);
+          if (enableContentSearch) deleteSearchRows(db, searchTable, responseId);
+          await db.exec("DELETE FROM responses WHERE response_id = ?", responseId);
+          return new Response(null, { status: 204 });
+        }
+
+        const incoming = await req.json().catch(() => undefined);
+        if (incoming === undefined) return Response.json({ error: "invalid_json" }, { status: 400 });
+
+        let next: unknown = incoming;
+        if (req.method === "PATCH") {
+          try {
+            next = applyPatch(current, incoming, req.headers.get("Content-Type"));
+          } catch (e) {
+            if (!(e instanceof PatchError)) throw e;
+            return Response.json({ error: "invalid_patch", message: e.message }, { status: e.status });
+          }
+        }
+
+        const result = zodSchema.safeParse(next);
+        if (!result.success) return validationError(result.error.issues);
+        const validatedDoc = result.data as any;
+        if (validatedDoc.id !== responseId) return responseIdMismatch(validatedDoc.id, responseId);
+
+        const { ts, body } = updateResponse(db, cfg, validatedDoc, outputOpts);
+
+        return Response.json({ 
+          response_id: responseId, 
+          ts, 
+          outputs_indexed: validatedDoc.output.length 
+        }, { headers: { ETag: await etagFor(body) } });
       }
 
       // GET /actors/{id}/responses/{responseId}/outputs - Get output array details
@@ -411,21 +910,76 @@ export function responsesStoreHandlerFactory(cfg: ResponsesStoreActorConfig): Ha
       return new Response("Not Found", { status: 404 });
     },
 
+    async backfillStep(db, cfg) {
+      return backfillBatch(db, responsesTable, doc => indexValues(cfg, doc));
+    },
+
+    planConfig(db, next) {
+      const plan = planIndexedTable(db, responsesTable, (next.indexes ?? []).map(colName), next.params?.retention_days);
+      const search = next.params?.enable_content_search ?? true;
+      const searchFields = next.params?.search_instructions ? ["instructions"] : [];
+      if (search && (!enableContentSearch || searchFields.join() !== outputOpts.searchFields.join())) {
+        plan.notes.push("rebuilds the content search index");
+        plan.rows_reindexed = plan.rows;
+      } else if (!search && enableContentSearch) {
+        plan.notes.push("disables content search: the search index is dropped");
+      }
+      if ((next.params?.max_output_content_length ?? 1000) !== maxContentLength) {
+        plan.notes.push("max_output_content_length applies to responses stored from now on");
+      }
+      return plan;
+    },
+
+    async purgeExpired(db, cfg, before) {
+      const outputs = db.exec(
+        "DELETE FROM response_outputs WHERE response_id IN (SELECT response_id FROM responses WHERE ts < ?)", before
+      ).rowsWritten;
+      if (enableContentSearch) {
+        db.exec(`DELETE FROM ${searchTable.name} WHERE doc_id IN (SELECT response_id FROM responses WHERE ts < ?)`, before);
+      }
+      recordChanges(db, responsesListSpec(cfg), "response_id", "delete", "ts < ?", before);
+      const responses = db.exec("DELETE FROM responses WHERE ts < ?", before).rowsWritten;
+      return { responses, response_outputs: outputs };
+    },
+
+    exportRows(db) {
+      return exportTableRows(db, "responses");
+    },
+
+    changeFeed(cfg) {
+      return responsesListSpec(cfg);
+    },
+
+    webhookEvents: {
+      types: ["response.stored", "response.failed"],
+      // a streamed response is stored once it leaves in_progress
+      of: change => {
+        const status = (change.doc as { status?: string } | null)?.status;
+        if (change.op === "delete" || !status || status === "in_progress") return [];
+        return status === "failed" ? ["response.stored", "response.failed"] : ["response.stored"];
+      }
+    },
+
+    importRow(db, cfg, row) {
+      const result = zodSchema.safeParse(row.body);
+      if (!result.success) {
+        throw new SnapshotError(`invalid response document: ${result.error.issues.map(e => `${e.path.join('.')}: ${e.message}`).join("; ")}`);
+      }
+      const { body, ...meta } = row;
+      insertResponse(db, cfg, result.data, outputOpts, meta);
+    },
+
     openapi(cfg, basePath) {
       // Enhanced spec optimized for OpenAI Response API structure
-      const indexParams = (cfg.indexes ?? []).map(p => ({
-        name: colName(p), 
-        in: "query", 
-        schema: { type: "string" }, 
-        description: `filter on ${p}`
-      }));
+      // equality, range/in/prefix/exists operators on built-in and indexed columns, sort and cursor
+      const indexParams = listQueryParams({ ...responsesListSpec(cfg, enableContentSearch), defaultSort: "response_id" });
 
       // Built-in response filtering parameters
       const responseParams = [
-        { name: "status", in: "query", schema: { type: "string", enum: ["completed", "incomplete", "failed"] }, description: "filter by response status" },
-        { name: "model", in: "query", schema: { type: "string" }, description: "filter by model name" },
         { name: "min_tokens", in: "query", schema: { type: "integer" }, description: "minimum total tokens" },
-        { name: "max_tokens", in: "query", schema: { type: "integer" }, description: "maximum total tokens" }
+        { name: "max_tokens", in: "query", schema: { type: "integer" }, description: "maximum total tokens" },
+        { name: "root", in: "query", schema: { type: "boolean" }, description: "true: only responses whose previous_response_id is not stored (conversation starts)" },
+        { name: "leaf", in: "query", schema: { type: "boolean" }, description: "true: only responses nothing continues from (latest turns)" }
       ];
 
       // Output array filtering parameters
@@ -433,9 +987,72 @@ export function responsesStoreHandlerFactory(cfg: ResponsesStoreActorConfig): Ha
         { name: "output_type", in: "query", schema: { type: "string" }, description: "filter by output item type" },
         { name: "output_role", in: "query", schema: { type: "string", enum: ["assistant", "user", "system", "function"] }, description: "filter by output item role" },
         { name: "output_content", in: "query", schema: { type: "string" }, description: "search in output content (partial match)" },
+        ...(enableContentSearch ? [{
+          name: "q",
+          in: "query",
+          schema: { type: "string" },
+          description: "full-text search over output text" + (outputOpts.searchFields.length ? " and instructions" : "") +
+            " (FTS5 syntax: terms, \"exact phrases\", prefix*, AND/OR/NOT); results default to BM25 relevance order (sort=relevance)"
+        }] : []),
         { name: "output_status", in: "query", schema: { type: "string" }, description: "filter by output item status" }
       ];
 
+      const responseDocSchema = {
+        type: "object",
+        required: ["id", "object", "created_at", "status", "model", "output"],
+        properties: {
+          id: { type: "string" },
+          object: { type: "string", enum: ["response"] },
+          created_at: { type: "integer" },
+          status: { type: "string", enum: ["completed", "incomplete", "failed", "in_progress"] },
+          model: { type: "string" },
+          output: {
+            type: "array",
+            items: { type: "object" }
+          }
+        },
+        additionalProperties: true
+      };
+      const projectedBodySchema = projectedSchema(responseDocSchema) as Record<string, unknown>;
+
+      const responseIdParam = { name: "responseId", in: "path", required: true, schema: { type: "string" }, description: "OpenAI response ID" };
+      const storedResponseSchema = {
+        type: "object",
+        properties: {
+          id: { type: "string", description: "internal storage ID" },
+          response_id: { type: "string", description: "OpenAI response ID" },
+          previous_response_id: { type: "string", nullable: true },
+          ts: { type: "integer" },
+          status: { type: "string" },
+          model: { type: "string" },
+          created_at: { type: "integer" },
+          total_tokens: { type: "integer", nullable: true },
+          body: { type: "object", description: "full OpenAI response object" }
+        }
+      };
+      const ifMatchParam = { name: "If-Match", in: "header", schema: { type: "string" }, description: "ETag from a previous read" };
+
+      const writeResponses = {
+        "200": {
+          description: "Successfully updated response (new ETag in the ETag header)",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  response_id: { type: "string" },
+                  ts: { type: "integer" },
+                  outputs_indexed: { type: "integer" }
+                }
+              }
+            }
+          }
+        },
+        "400": { description: "Invalid document, patch or mismatched id" },
+        "404": { description: "Response not found" },
+        "412": { description: "If-Match did not match the current ETag" }
+      };
+
       return {
         openapi: "3.1.0",
         info: { 
@@ -446,14 +1063,16 @@ export function responsesStoreHandlerFactory(cfg: ResponsesStoreActorConfig): Ha
         paths: {
           [`${basePath}/responses`]: {
             get: {
+              operationId: "list_responses",
               summary: "List stored OpenAI responses with advanced filtering",
-              description: "Supports filtering by response fields, indexed properties, and output array characteristics",
+              description: "Supports filtering by response fields and indexed properties (with eq/ne/gt/gte/lt/lte/in/prefix/exists operators) and output array characteristics, sorting on any of those columns, and cursor pagination",
               parameters: [
                 { name: "limit", in: "query", schema: { type: "integer", maximum: 200, default: 50 }, description: "maximum number of responses to return" },
-                { name: "after", in: "query", schema: { type: "string" }, description: "pagination cursor (response_id)" },
+                { name: "after", in: "query", schema: { type: "string" }, description: "legacy pagination by response_id (default sort only)" },
                 ...responseParams,
                 ...indexParams,
-                ...outputParams
+                ...outputParams,
+                ...projectionParams()
               ],
               responses: { 
                 "200": { 
@@ -470,16 +1089,26 @@ export function responsesStoreHandlerFactory(cfg: ResponsesStoreActorConfig): Ha
                               properties: {
                                 id: { type: "string", description: "internal storage ID" },
                                 response_id: { type: "string", description: "OpenAI response ID" },
+                                previous_response_id: { type: "string", nullable: true },
                                 ts: { type: "integer", description: "storage timestamp" },
-                                status: { type: "string", enum: ["completed", "incomplete", "failed"] },
+                                status: { type: "string", enum: ["completed", "incomplete", "failed", "in_progress"] },
                                 model: { type: "string", description: "model used" },
                                 created_at: { type: "integer", description: "OpenAI creation timestamp" },
                                 total_tokens: { type: "integer", nullable: true },
-                                body: { type: "object", description: "full OpenAI response object" }
+                                search: {
+                                  type: "object",
+                                  description: "present when q is given",
+                                  properties: {
+                                    score: { type: "number", description: "BM25 score (lower is more relevant)" },
+                                    snippet: { type: "string", description: "matching text with hits wrapped in <mark>" }
+                                  }
+                                },
+                                body: { ...projectedBodySchema, description: "OpenAI response object, trimmed by fields / exclude" }
                               }
                             }
                           },
-                          next_after: { type: "string", nullable: true, description: "pagination cursor for next page" }
+                          next_after: { type: "string", nullable: true, description: "legacy pagination cursor (response_id)" },
+                          next_cursor: { type: "string", nullable: true, description: "pass as cursor to fetch the next page" }
                         }
                       }
                     }
@@ -488,28 +1117,20 @@ export function responsesStoreHandlerFactory(cfg: ResponsesStoreActorConfig): Ha
               }
             },
             post: {
+              operationId: "store_response",
               summary: "Store an OpenAI Response API document",
-              description: "Stores OpenAI Response API documents with automatic output array indexing for fast querying",
+              description: "Stores OpenAI Response API documents with automatic output array indexing for fast querying. Response ids are unique; replace a stored one with PUT.",
+              parameters: [{
+                name: "Idempotency-Key",
+                in: "header",
+                schema: { type: "string", maxLength: 255 },
+                description: "retries with the same key within 24 hours get the first response back instead of writing again"
+              }],
               requestBody: {
                 required: true,
                 content: { 
                   "application/json": { 
-                    schema: {
-                      type: "object",
-                      required: ["id", "object", "created_at", "status", "model", "output"],
-                      properties: {
-                        id: { type: "string" },
-                        object: { type: "string", enum: ["response"] },
-                        created_at: { type: "integer" },
-                        status: { type: "string", enum: ["completed", "incomplete", "failed"] },
-                        model: { type: "string" },
-                        output: {
-                          type: "array",
-                          items: { type: "object" }
-                        }
-                      },
-                      additionalProperties: true
-                    }
+                    schema: responseDocSchema
                   } 
                 }
               },
@@ -543,14 +1164,129 @@ export function responsesStoreHandlerFactory(cfg: ResponsesStoreActorConfig): Ha
                       }
                     }
                   }
+                },
+                "409": { description: "A response with this id exists" },
+                "422": { description: "The Idempotency-Key was used for a different request" }
+              }
+            }
+          },
+          [`${basePath}/responses:batch`]: {
+            post: batchOperation("store_responses_batch", "Store many OpenAI Response API documents", responseDocSchema, {
+              id: { type: "string", description: "internal storage ID" },
+              response_id: { type: "string", description: "OpenAI response ID" },
+              ts: { type: "integer" },
+              outputs_indexed: { type: "integer" }
+            })
+          },
+          [`${basePath}/responses/stream`]: {
+            post: {
+              operationId: "stream_response",
+              summary: "Ingest a Responses API event stream",
+              description: "Assembles response.created, response.output_item.*, response.content_part.*, response.output_text.*, " +
+                "response.function_call_arguments.*, response.reasoning_summary_* and response.completed / failed / incomplete events. " +
+                "The response is stored with status in_progress as events arrive and finalized by the completion event, " +
+                "so a stream cut short keeps what was received (finish it with PUT .../responses/{id}). Unknown event types are ignored. " +
+                "With an Idempotency-Key the whole body is read before anything is stored, so a cut stream stores nothing",
+              requestBody: {
+                required: true,
+                content: {
+                  "text/event-stream": { schema: { type: "string", description: "raw SSE as sent by the Responses API" } },
+                  "application/x-ndjson": { schema: { type: "string", description: "one event object per line" } }
                 }
+              },
+              responses: {
+                "200": {
+                  description: "The stream was read to the end",
+                  content: {
+                    "application/json": {
+                      schema: {
+                        type: "object",
+                        properties: {
+                          response_id: { type: "string" },
+                          status: { type: "string", enum: ["completed", "incomplete", "failed", "in_progress"] },
+                          complete: { type: "boolean", description: "false if no completion event arrived" },
+                          events: { type: "integer" },
+                          outputs_indexed: { type: "integer" },
+                          stored: { type: "array", items: { type: "string" }, description: "response IDs written by this stream" }
+                        }
+                      }
+                    }
+                  }
+                },
+                "400": { description: "Malformed or out-of-order event (events before it are kept), or an invalid response document" },
+                "409": { description: "The stream names a response id that is already stored (responses before it are kept)" }
+              }
+            }
+          },
+          [`${basePath}/responses/stats`]: {
+            get: {
+              operationId: "get_response_stats",
+              summary: "Usage analytics over stored responses",
+              description: "Counts, token sums and total_tokens percentiles, optionally grouped and bucketed by created_at. Accepts every GET /responses filter",
+              parameters: [
+                {
+                  name: "group_by",
+                  in: "query",
+                  schema: { type: "string", enum: ["model", "status", "output_type", ...(cfg.indexes ?? []).map(colName)] },
+                  description: "output_type counts a response once per distinct output type"
+                },
+                { name: "bucket", in: "query", schema: { type: "string", enum: Object.keys(STATS_BUCKETS) }, description: "time buckets over created_at (UTC, weeks start on Monday)" },
+                { name: "from", in: "query", schema: { type: "string" }, description: "created_at lower bound, inclusive (unix seconds or ISO 8601)" },
+                { name: "to", in: "query", schema: { type: "string" }, description: "created_at upper bound, exclusive (unix seconds or ISO 8601)" },
+                { name: "percentiles", in: "query", schema: { type: "string", default: "50,90,99" }, description: "comma-separated total_tokens percentiles" },
+                ...responseParams,
+                ...indexParams.filter(p => p.name !== "sort" && p.name !== "cursor"),
+                ...outputParams
+              ],
+              responses: {
+                "200": {
+                  description: "One entry per group and bucket",
+                  content: {
+                    "application/json": {
+                      schema: {
+                        type: "object",
+                        properties: {
+                          group_by: { type: "string", nullable: true },
+                          bucket: { type: "string", nullable: true },
+                          from: { type: "integer", nullable: true },
+                          to: { type: "integer", nullable: true },
+                          stats: {
+                            type: "array",
+                            items: {
+                              type: "object",
+                              properties: {
+                                group: { type: "string", nullable: true },
+                                bucket: { type: "integer", nullable: true, description: "bucket start, unix seconds" },
+                                bucket_start: { type: "string", nullable: true, format: "date-time" },
+                                count: { type: "integer" },
+                                tokens: {
+                                  type: "object",
+                                  properties: Object.fromEntries(
+                                    [...Object.keys(USAGE_PATHS), "total_tokens"].map(n => [n, { type: "integer" }])
+                                  )
+                                },
+                                total_tokens_percentiles: {
+                                  type: "object",
+                                  additionalProperties: { type: "integer", nullable: true },
+                                  description: "nearest-rank percentiles keyed p50, p90, ..."
+                                }
+                              }
+                            }
+                          }
+                        }
+                      }
+                    }
+                  }
+                },
+                "400": { description: "Invalid group_by, bucket, time window or filter" }
               }
             }
           },
           [`${basePath}/responses/{responseId}`]: {
             get: {
+              operationId: "get_response",
               summary: "Fetch a specific OpenAI response",
-              parameters: [{ name: "responseId", in: "path", required: true, schema: { type: "string" }, description: "OpenAI response ID" }],
+              parameters: [responseIdParam, ...projectionParams()],
               responses: { 
                 "200": { 
                   description: "Successfully retrieved response",
@@ -561,23 +1297,128 @@ export function responsesStoreHandlerFactory(cfg: ResponsesStoreActorConfig): Ha
                         properties: {
                           id: { type: "string" },
                           response_id: { type: "string" },
+                          previous_response_id: { type: "string", nullable: true },
                           ts: { type: "integer" },
                           status: { type: "string" },
                           model: { type: "string" },
                           created_at: { type: "integer" },
                           total_tokens: { type: "integer", nullable: true },
-                          body: { type: "object", description: "full OpenAI response" }
+                          body: { ...projectedBodySchema, description: "OpenAI response, trimmed by fields / exclude" }
                         }
                       }
                     }
                   }
                 }, 
+                "304": { description: "Not modified (If-None-Match)" },
                 "404": { description: "Response not found" } 
               }
+            },
+            put: {
+              operationId: "replace_response",
+              summary: "Replace or create a stored OpenAI response",
+              description: "Re-validates the document, recomputes indexes and re-indexes the output array; a missing response is created (201). The document id must equal responseId. Send If-Match with the response's ETag to avoid lost updates, or If-None-Match: * to only create.",
+              parameters: [responseIdParam, ifMatchParam],
+              requestBody: {
+                required: true,
+                content: { "application/json": { schema: { type: "object", additionalProperties: true } } }
+              },
+              responses: {
+                ...writeResponses,
+                "201": { description: "Response created (ETag in the ETag header)" }
+              }
+            },
+            patch: {
+              operationId: "update_response",
+              summary: "Partially update a stored OpenAI response",
+              description: "Accepts JSON Merge Patch (application/merge-patch+json) or JSON Patch (application/json-patch+json). The patched document is re-validated and re-indexed.",
+              parameters: [responseIdParam, ifMatchParam],
+              requestBody: {
+                required: true,
+                content: {
+                  "application/merge-patch+json": { schema: { type: "object" } },
+                  "application/json-patch+json": { schema: jsonPatchSchema }
+                }
+              },
+              responses: {
+                ...writeResponses,
+                "409": { description: "Patch could not be applied (e.g. failed test op)" }
+              }
+            },
+            delete: {
+              operationId: "delete_response",
+              summary: "Delete a stored OpenAI response and its output index",
+              parameters: [responseIdParam, ifMatchParam],
+              responses: {
+                "204": { description: "Response deleted" },
+                "404": { description: "Response not found" },
+                "412": { description: "If-Match did not match the current ETag" }
+              }
+            }
+          },
+          [`${basePath}/responses/{responseId}/thread`]: {
+            get: {
+              operationId: "get_response_thread",
+              summary: "Reconstruct the conversation leading to a response",
+              description: "Follows previous_response_id back to the first stored turn",
+              parameters: [
+                responseIdParam,
+                { name: "max_depth", in: "query", schema: { type: "integer", maximum: MAX_THREAD_DEPTH, default: MAX_THREAD_DEPTH }, description: "ancestors to walk at most" }
+              ],
+              responses: {
+                "200": {
+                  description: "The thread, oldest turn first and ending with the requested response",
+                  content: {
+                    "application/json": {
+                      schema: {
+                        type: "object",
+                        properties: {
+                          response_id: { type: "string" },
+                          thread: { type: "array", items: storedResponseSchema },
+                          root_response_id: { type: "string", nullable: true, description: "first turn, when the whole chain is stored" },
+                          missing_parent: { type: "string", nullable: true, description: "previous_response_id of the oldest turn when it is not stored" },
+                          truncated: { type: "boolean", description: "max_depth stopped the walk" }
+                        }
+                      }
+                    }
+                  }
+                },
+                "404": { description: "Response not found" }
+              }
+            }
+          },
+          [`${basePath}/responses/{responseId}/children`]: {
+            get: {
+              operationId: "list_response_children",
+              summary: "List branches continuing from a response",
+              parameters: [
+                responseIdParam,
+                { name: "depth", in: "query", schema: { type: "integer", minimum: 1, default: 1 }, description: "1 for direct continuations, more to include their descendants" }
+              ],
+              responses: {
+                "200": {
+                  description: "Descendants ordered by depth, then created_at",
+                  content: {
+                    "application/json": {
+                      schema: {
+                        type: "object",
+                        properties: {
+                          response_id: { type: "string" },
+                          children: {
+                            type: "array",
+                            items: { ...storedResponseSchema, properties: { ...storedResponseSchema.properties, depth: { type: "integer" } } }
+                          }
+                        }
+                      }
+                    }
+                  }
+                },
+                "404": { description: "Response not found" }
+              }
             }
           },
           [`${basePath}/responses/{responseId}/outputs`]: {
             get: {
+              operationId: "list_response_outputs",
               summary: "Get indexed output array details for a response",
               parameters: [{ name: "responseId", in: "path", required: true, schema: { type: "string" }, description: "OpenAI response ID" }],
               responses: {
@@ -0,0 +1,182 @@
+// src/handlers/schemaVersions.ts
+// Named document schema versions for store actors.
+//
+// `schema` is the current version (named by `schema_version`, default "v1") and every new or
+// updated document is stamped with that name. Earlier versions are listed oldest first in
+// `schema_versions`; each carries the `upcast` steps that turn one of its documents into a
+// document of the version after it:
+//
+//   "schema_version": "v3",
+//   "schema_versions": [
+//     { "version": "v1", "schema": {...}, "upcast": [{ "op": "rename", "path": "msg", "to": "message" }] },
+//     { "version": "v2", "schema": {...}, "upcast": [{ "op": "default", "path": "meta.kind", "value": "note" }] }
+//   ]
+//
+// Reads upcast on request (?upcast=true). A revalidation job (POST .../schemas/revalidate) walks
+// the stored documents from the actor's alarm, reporting the ones the current schema rejects
+// and, in "migrate" mode, rewriting older ones that upcast cleanly.
+
+import type { StoreActorConfig } from "../types";
+import type { ValidationError, Validator } from "../json-schema";
+
+export type SchemaTransform =
+  | { op: "rename"; path: string; to: string }          // a.b -> a.{to}
+  | { op: "move"; from: string; to: string }            // any path to any path
+  | { op: "default"; path: string; value: unknown }     // set when missing
+  | { op: "remove"; path: string };
+
+export type SchemaVersion = {
+  version: string;
+  schema: Record<string, unknown>;
+  upcast?: SchemaTransform[];                           // this version -> the next one
+};
+
+/** documents checked per alarm by a revalidation job */
+export const REVALIDATE_BATCH = 200;
+/** rejected documents listed in a job's report */
+const MAX_REPORTED = 100;
+
+/** the object holding the last segment of a dotted path (created on the way when `create`) */
+function parentOf(doc: unknown, path: string, create: boolean): [Record<string, unknown>, string] | null {
+  const keys = path.split(".");
+  const last = keys.pop()!;
+  const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+  let o = doc;
+  if (!isObject(o)) return null;
+  for (const k of keys) {
+    if (o[k] == null && create) o[k] = {};
+    o = o[k];
+    if (!isObject(o)) return null;
+  }
+  return [o, last];
+}
+
+function applyTransform(doc: unknown, t: SchemaTransform) {
+  switch (t.op) {
+    case "rename":
+    case "move": {
+      const from = parentOf(doc, t.op === "rename" ? t.path : t.from, false);
+      if (!from || !(from[1] in from[0])) return;
+      const value = from[0][from[1]];
+      delete from[0][from[1]];
+      const to = t.op === "rename" ? [from[0], t.to] as const : parentOf(doc, t.to, true);
+      if (to) to[0][to[1]] = value;
+      return;
+    }
+    case "default": {
+      const at = parentOf(doc, t.path, true);
+      if (at && at[0][at[1]] === undefined) at[0][at[1]] = structuredClone(t.value);
+      return;
+    }
+    case "remove": {
+      const at = parentOf(doc, t.path, false);
+      if (at) delete at[0][at[1]];
+      return;
+    }
+  }
+}
+
+export type SchemaChain = {
+  current: string;
+  /** a document of version `from` brought up to the current version; unknown versions are left as they are */
+  upcast(doc: unknown, from: string | null): { doc: unknown; upcast: boolean };
+};
+
+/** The version chain of a store config; throws for duplicate version names */
+export function schemaChain(cfg: StoreActorConfig): SchemaChain {
+  const current = cfg.schema_version ?? "v1";
+  const history = cfg.schema_versions ?? [];
+  const names = history.map(v => v.version);
+  if (new Set([...names, current]).size !== names.length + 1) {
+    throw new Error("schema_versions: version names must be unique and differ from schema_version");
+  }
+
+  return {
+    current,
+    upcast(doc, from) {
+      const start = from == null ? -1 : names.indexOf(from);
+      if (start < 0) return { doc, upcast: false };
+      const next = structuredClone(doc);
+      for (const v of history.slice(start)) {
+        for (const t of v.upcast ?? []) applyTransform(next, t);
+      }
+      return { doc: next, upcast: true };
+    }
+  };
+}
+
+/** A revalidation job's progress and findings (actor_meta 'schema_revalidation') */
+export type Revalidation = {
+  mode: "report" | "migrate";
+  schema_version: string;                 // the version documents are checked against
+  started_at: number;                     // unix ms
+  finished_at: number | null;
+  after: string | null;                   // id cursor
+  checked: number;
+  conforming: number;                     // valid against the current schema (after upcasting)
+  migrated: number;                       // rewritten as the current version ("migrate" mode)
+  invalid: number;
+  rejected: { id: string; schema_version: string | null; errors: ValidationError[] }[];  // the first 100
+};
+
+export function readRevalidation(db: SqlStorage): Revalidation | null {
+  const row = db.exec("SELECT v FROM actor_meta WHERE k = 'schema_revalidation'").toArray()[0];
+  return row ? JSON.parse(row.v as string) : null;
+}
+
+export function startRevalidation(db: SqlStorage, mode: Revalidation["mode"], schemaVersion: string): Revalidation {
+  const job: Revalidation = {
+    mode,
+    schema_version: schemaVersion,
+    started_at: Date.now(),
+    finished_at: null,
+    after: null,
+    checked: 0,
+    conforming: 0,
+    migrated: 0,
+    invalid: 0,
+    rejected: []
+  };
+  db.exec("INSERT OR REPLACE INTO actor_meta(k, v) VALUES ('schema_revalidation', ?)", JSON.stringify(job));
+  return job;
+}
+
+/**
+ * Check one batch of documents for a running job. `rewrite` stores an upcast document as the
+ * current version (only called in "migrate" mode).
+ */
+export function revalidateBatch(
+  db: SqlStorage,
+  chain: SchemaChain,
+  validate: Validator,
+  rewrite: (id: string, doc: unknown) => void,
+  batchSize = REVALIDATE_BATCH
+) {
+  const job = readRevalidation(db);
+  if (!job || job.finished_at != null) return;
+
+  const rows = db.exec(
+    "SELECT id, schema_version, body FROM items WHERE ? IS NULL OR id > ? ORDER BY id LIMIT ?",
+    job.after, job.after, batchSize
+  ).toArray();
+  for (const r of rows) {
+    const version = r.schema_version as string | null;
+    const { doc, upcast } = chain.upcast(JSON.parse(r.body as string), version);
+    const errors = validate(doc);
+    job.checked++;
+    if (errors.length) {
+      job.invalid++;
+      if (job.rejected.length < MAX_REPORTED) job.rejected.push({ id: r.id as string, schema_version: version, errors });
+      continue;
+    }
+    job.conforming++;
+    if (upcast && job.mode === "migrate") {
+      rewrite(r.id as string, doc);
+      job.migrated++;
+    }
+  }
+
+  job.after = rows.length ? (rows[rows.length - 1].id as string) : job.after;
+  if (rows.length < batchSize) job.finished_at = Date.now();
+  db.exec("INSERT OR REPLACE INTO actor_meta(k, v) VALUES ('schema_revalidation', ?)", JSON.stringify(job));
+}
@@ -1,7 +1,20 @@
 // src/handlers/store.ts
-import { z } from "zod";
 import type { StoreActorConfig } from "../types";
-import type { Handler } from "../registry";
+import type { ExportRow, Handler } from "../registry";
+import { recordChanges } from "../changeFeed";
+import { exportTableRows, SnapshotError } from "../snapshot";
+import { etagFor, notModified, preconditionFailed, preconditionsMet } from "../etag";
+import { applyPatch, jsonPatchSchema, PatchError } from "../json-patch";
+import { compileSchema, type ValidationError } from "../json-schema";
+import { listQueryParams, parseListQuery, QueryError, type ListSpec } from "./listQuery";
+import {
+  deleteSearchRows, ensureSearchTable, extractOutputText, isSearchSyntaxError,
+  rebuildSearchRows, searchMatchesCte, writeSearchRows, type SearchTable
+} from "./contentSearch";
+import { backfillBatch, migrateIndexColumns, planIndexedTable, type IndexedTable } from "./indexMigration";
+import { batchOperation, handleBatch } from "./batchIngest";
+import { parseProjection, projectedEtag, projectedSchema, projectionParams, type Projection } from "./projection";
+import { readRevalidation, revalidateBatch, schemaChain, startRevalidation, type SchemaChain } from "./schemaVersions";
 
 /** safe column label from "a.b.c" -> "k_a_b_c" */
 const colName = (p: string) => "k_" + p.replace(/[^a-zA-Z0-9]+/g, "_").slice(0, 48);
@@ -35,47 +48,186 @@ const extractOutputValues = (doc: any, path: string): string[] => {
   return values;
 };
 
-// Convert JSON Schema to Zod schema with enhanced support for OpenAI Response structure
-function jsonSchemaToZod(schema: any): z.ZodType {
-  if (schema.type === "object") {
-    const shape: Record<string, z.ZodType> = {};
-    const properties = schema.properties || {};
-    const required = schema.required || [];
-    
-    for (const [key, propSchema] of Object.entries(properties)) {
-      let zodType = jsonSchemaToZod(propSchema);
-      if (!required.includes(key)) {
-        zodType = zodType.optional();
-      }
-      shape[key] = zodType;
+/** k_* column values for the configured indexes of a validated document */
+const indexValues = (cfg: StoreActorConfig, doc: any): Record<string, string | null> => {
+  const values: Record<string, string | null> = {};
+  for (const p of cfg.indexes ?? []) {
+    const c = colName(p);
+    if (p.startsWith("output.")) {
+      // For output array paths, concatenate all values found
+      const extractedValues = extractOutputValues(doc, p);
+      values[c] = extractedValues.length > 0 ? extractedValues.join("|") : null;
+    } else {
+      const v = getPath(doc, p);
+      values[c] = v == null ? null : String(v);
     }
-    
-    return z.object(shape);
-  } else if (schema.type === "string") {
-    if (schema.enum) {
-      return z.enum(schema.enum as [string, ...string[]]);
+  }
+  return values;
+};
+
+const searchTable: SearchTable = { name: "output_index_fts", source: "items", sourceKey: "id" };
+
+/** (Re)build the output_index (and, when enabled, full-text) rows for one item */
+const indexOutputs = (db: SqlStorage, id: string, doc: any, search: boolean) => {
+  db.exec("DELETE FROM output_index WHERE item_id = ?", id);
+  if (search) writeSearchRows(db, searchTable, id, doc);
+  if (!doc.output || !Array.isArray(doc.output)) return;
+
+  for (let i = 0; i < doc.output.length; i++) {
+    const outputItem = doc.output[i];
+    const outputType = outputItem.type || null;
+    const outputRole = outputItem.role || null;
+
+    // Extract text content from various possible structures
+    let outputContent = extractOutputText(outputItem);
+
+    if (outputContent && outputContent.length > 1000) {
+      outputContent = outputContent.substring(0, 1000); // Truncate for indexing
     }
-    return z.string();
-  } else if (schema.type === "number" || schema.type === "integer") {
-    return z.number();
-  } else if (schema.type === "boolean") {
-    return z.boolean();
-  } else if (schema.type === "array") {
-    return z.array(jsonSchemaToZod(schema.items || {}));
-  } else if (schema.type === "null") {
-    return z.null();
-  } else if (schema.oneOf || schema.anyOf) {
-    const variants = (schema.oneOf || schema.anyOf).map(jsonSchemaToZod);
-    return z.union(variants as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+
+    db.exec(
+      `INSERT INTO output_index(item_id, output_index, output_type, output_role, output_content) 
+       VALUES (?, ?, ?, ?, ?)`,
+      id, i, outputType, outputRole, outputContent
+    );
   }
-  
-  // Fallback for unknown types - use z.any() for maximum flexibility
-  return z.any();
-}
+};
+
+/** the client-supplied id at the configured id_path, if the document has one */
+const docId = (cfg: StoreActorConfig, doc: any): string | null => {
+  if (!cfg.id_path) return null;
+  const v = getPath(doc, cfg.id_path);
+  return (typeof v === "string" && v) || typeof v === "number" ? String(v) : null;
+};
+
+const itemExists = (db: SqlStorage, id: string) => db.exec("SELECT 1 FROM items WHERE id = ?", id).toArray().length > 0;
+
+/** store.v2 keeps each item's first write time in created_at (v1 only has ts, the last write) */
+const keepsCreatedAt = (cfg: StoreActorConfig) => cfg.version !== "v1";
+
+/** item columns returned by the read routes */
+const itemColumns = (cfg: StoreActorConfig) =>
+  ["id", "ts", ...(keepsCreatedAt(cfg) ? ["created_at"] : []), "schema_version", "body"].map(c => `items.${c}`).join(", ");
+
+/** store.v1 -> v2: add created_at, seeded from ts (the best record of a v1 item's first write) */
+const addCreatedAt = (_prevVersion: string, db: SqlStorage) => {
+  const cols = db.exec("SELECT name FROM pragma_table_info('items')").toArray().map(r => r.name);
+  if (!cols.length || cols.includes("created_at")) return;
+  db.exec("ALTER TABLE items ADD COLUMN created_at INTEGER");
+  db.exec("UPDATE items SET created_at = ts");
+};
+
+const duplicateId = (id: string) =>
+  Response.json({ error: "duplicate_id", message: `item '${id}' already exists; replace it with PUT .../items/${id}` }, { status: 409 });
+
+/**
+ * Insert a validated item with its index rows (synchronous, so it can run in a transaction).
+ * Imports pass the original id / ts / schema_version; new items get fresh ones.
+ */
+const insertItem = (
+  db: SqlStorage,
+  cfg: StoreActorConfig,
+  doc: any,
+  search: boolean,
+  {
+    id = docId(cfg, doc) ?? crypto.randomUUID(),
+    ts = Math.floor(Date.now() / 1000),
+    schema_version = cfg.schema_version ?? "v1"
+  }: Partial<Omit<ExportRow, "body">> = {}
+) => {
+  // extract configured indexes
+  const values = indexValues(cfg, doc);
+
+  const body = JSON.stringify(doc);
+  const created = keepsCreatedAt(cfg) ? { created_at: ts } : {};
+  const cols = ["id", "ts", "schema_version", "body", ...Object.keys(created), ...Object.keys(values)];
+  const marks = cols.map(() => "?").join(", ");
+  const args = [id, ts, schema_version, body, ...Object.values(created), ...Object.values(values)];
+
+  // Insert main item
+  db.exec(`INSERT INTO items(${cols.join(",")}) VALUES (${marks})`, ...args);
+
+  // Index output array if present
+  indexOutputs(db, id, doc, search);
+  recordChanges(db, itemsListSpec(cfg), "id", "insert", "id = ?", id);
+  return { id, ts, body };
+};
+
+/**
+ * Store a validated document of the current schema version over an existing item and rebuild
+ * its index rows. `ts` is left alone when not given (migrations are not user writes).
+ */
+const updateItem = (db: SqlStorage, cfg: StoreActorConfig, id: string, doc: any, search: boolean, ts?: number) => {
+  const values = indexValues(cfg, doc);
+  const body = JSON.stringify(doc);
+  const sets = ["body = ?", "schema_version = ?", ...(ts != null ? ["ts = ?"] : []), ...Object.keys(values).map(c => `${c} = ?`)];
+  const args = [body, cfg.schema_version ?? "v1", ...(ts != null ? [ts] : []), ...Object.values(values)];
+  db.exec(`UPDATE items SET ${sets.join(", ")} WHERE id = ?`, ...args, id);
+  indexOutputs(db, id, doc, search);
+  recordChanges(db, itemsListSpec(cfg), "id", "update", "id = ?", id);
+  return body;
+};
+
+/**
+ * a stored row as returned by the API; with `upcast` older documents come back as the current
+ * version, and a projection (?fields= / ?exclude=) trims the body
+ */
+const itemView = (chain: SchemaChain, row: Record<string, any>, upcast: boolean, projection: Projection | null) => {
+  const body = JSON.parse(row.body);
+  const lifted = upcast ? chain.upcast(body, row.schema_version) : null;
+  const view = lifted?.upcast
+    ? { ...row, schema_version: chain.current, upcast_from: row.schema_version, body: lifted.doc }
+    : { ...row, body };
+  if (projection) view.body = projection(view.body);
+  return view;
+};
+
+/** filterable / sortable columns of GET /items */
+const itemsListSpec = (cfg: StoreActorConfig, search = false): ListSpec => ({
+  table: "items",
+  idCol: "id",
+  columns: {
+    ts: "number",
+    ...(keepsCreatedAt(cfg) ? { created_at: "number" as const } : {}),
+    ...Object.fromEntries((cfg.indexes ?? []).map(p => [colName(p), "text" as const]))
+  },
+  // with ?q= results can be ordered by BM25 relevance (lower scores rank first)
+  sortExpressions: search ? { relevance: "search_matches.score" } : undefined,
+  defaultSort: search ? "relevance" : "id"
+});
+
+const itemsTable: IndexedTable = { table: "items", key: "id", indexName: c => `idx_${c}` };
+
+/** details carry JSON Pointer paths into the rejected document */
+const validationError = (errors: ValidationError[]) =>
+  Response.json({ error: "invalid_document", details: errors }, { status: 400 });
 
 export function storeHandlerFactory(cfg: StoreActorConfig): Handler<StoreActorConfig> {
   const idxCols = (cfg.indexes ?? []).map(colName);
-  const zodSchema = jsonSchemaToZod(cfg.schema);
+  // throws SchemaError for schemas that cannot be enforced, failing the seed
+  const validate = compileSchema(cfg.schema);
+  const chain = schemaChain(cfg);
+  const enableContentSearch = cfg.params?.enable_content_search ?? false;
+
+  /** 400 when the document's id_path value names another item */
+  const idMismatch = (doc: unknown, itemId: string) => {
+    const given = docId(cfg, doc);
+    if (given == null || given === itemId) return null;
+    return Response.json({ error: "id_mismatch", message: `document id '${given}' does not match '${itemId}'` }, { status: 400 });
+  };
+
+  /** PUT on a missing item: store the document under the path's id */
+  const createItem = async (db: SqlStorage, req: Request, itemId: string) => {
+    if (!preconditionsMet(req, null)) return preconditionFailed(null);
+    const doc = await req.json().catch(() => undefined);
+    if (doc === undefined) return Response.json({ error: "invalid_json" }, { status: 400 });
+    const errors = validate(doc);
+    if (errors.length) return validationError(errors);
+    const mismatch = idMismatch(doc, itemId);
+    if (mismatch) return mismatch;
+    const { id, ts, body } = insertItem(db, cfg, doc, enableContentSearch, { id: itemId });
+    return Response.json({ id, ts }, { status: 201, headers: { ETag: await etagFor(body) } });
+  };
 
   return {
     async ensureSchema(db, cfg) {
@@ -87,21 +239,6 @@ export function storeHandlerFactory(cfg: StoreActorConfig): Handler<StoreActorCo
         );
       `);
 
-      // Check if we need to recreate the items table due to schema changes
-      const currentIndexes = JSON.stringify((cfg.indexes ?? []).sort());
-      const result = await db.exec("SELECT v FROM actor_meta WHERE k = 'indexes'");
-      const rows = result.toArray();
-      const storedIndexes = rows.length > 0 ? rows[0].v as string : null;
-      
-      if (storedIndexes !== currentIndexes) {
-        // Schema changed, recreate the table
-        await db.exec("DROP TABLE IF EXISTS items");
-        await db.exec("DROP TABLE IF EXISTS output_index");
-        
-        // Store the new index configuration
-        await db.exec("INSERT OR REPLACE INTO actor_meta(k, v) VALUES ('indexes', ?)", currentIndexes);
-      }
-
       // base table: items
       // (generic indexed columns k_... are TEXT; we store raw JSON too)
       const idxCols = (cfg.indexes ?? []).map(colName);
@@ -112,9 +249,14 @@ export function storeHandlerFactory(cfg: StoreActorConfig): Handler<StoreActorCo
           ts INTEGER NOT NULL,
           schema_version TEXT,
           body TEXT NOT NULL
+          ${keepsCreatedAt(cfg) ? ", created_at INTEGER" : ""}
           ${extraCols ? "," + extraCols : ""}
         );
       `);
+      if (keepsCreatedAt(cfg)) await db.exec("CREATE INDEX IF NOT EXISTS idx_items_created_at ON items(created_at);");
+
+      // An existing table keeps its rows: add/drop k_* columns and queue a backfill
+      migrateIndexColumns(db, itemsTable, idxCols);
 
       // Create separate table for indexing output array items
       await db.exec(`
@@ -138,174 +280,378 @@ export function storeHandlerFactory(cfg: StoreActorConfig): Handler<StoreActorCo
       await db.exec(`CREATE INDEX IF NOT EXISTS idx_output_type ON output_index(output_type);`);
       await db.exec(`CREATE INDEX IF NOT EXISTS idx_output_role ON output_index(output_role);`);
       await db.exec(`CREATE INDEX IF NOT EXISTS idx_output_content ON output_index(output_content);`);
+
+      // Optional full-text search over the untruncated output text
+      if (ensureSearchTable(db, searchTable, enableContentSearch)) rebuildSearchRows(db, searchTable);
     },
 
-    async handle(req, db, cfg) {
+    async handle(req, db, cfg, tx) {
       const url = new URL(req.url);
       const parts = url.pathname.split("/").filter(Boolean);
       const last = parts[parts.length - 1];
 
       // GET /actors/{id}/items
       if (req.method === "GET" && last === "items") {
-        const limit = Math.min(parseInt(url.searchParams.get("limit") || "50"), 200);
-        const after = url.searchParams.get("after"); // pagination by item id
-        const filters = Object.fromEntries([...url.searchParams.entries()]
-          .filter(([k]) => k.startsWith("k_"))); // filter by indexed fields: ?k_run_id=...
+        // Full-text search over output text (FTS5 syntax: terms, "phrases", prefix*, AND/OR/NOT)
+        const search = url.searchParams.get("q");
+        if (search && !enableContentSearch) {
+          return Response.json({ error: "content_search_disabled" }, { status: 400 });
+        }
+
+        let list, projection;
+        try {
+          list = parseListQuery(url, itemsListSpec(cfg, !!search));
+          projection = parseProjection(url);
+        } catch (e) {
+          if (!(e instanceof QueryError)) throw e;
+          return Response.json({ error: "invalid_query", message: e.message }, { status: 400 });
+        }
+        const after = url.searchParams.get("after"); // legacy pagination by item id
 
         // Support output array filtering
         const outputType = url.searchParams.get("output_type");
         const outputRole = url.searchParams.get("output_role");
         const outputContent = url.searchParams.get("output_content");
 
-        let where = [];
-        let params: any[] = [];
-        let joins = "";
+        let where = [...list.where];
+        let params: any[] = [...list.params];
+        let joins = search ? "JOIN search_matches ON search_matches.doc_id = items.id" : "";
 
         // Handle output array filters by joining with output_index table
         if (outputType || outputRole || outputContent) {
-          joins = "JOIN output_index oi ON items.id = oi.item_id";
+          joins += " JOIN output_index oi ON items.id = oi.item_id";
           if (outputType) { where.push("oi.output_type = ?"); params.push(outputType); }
           if (outputRole) { where.push("oi.output_role = ?"); params.push(outputRole); }
           if (outputContent) { where.push("oi.output_content LIKE ?"); params.push(`%${outputContent}%`); }
         }
 
         if (after) { where.push("items.id > ?"); params.push(after); }
-        for (const [k, v] of Object.entries(filters)) { 
-          where.push(`items.${k} = ?`); 
-          params.push(v as string); 
-        }
 
         const clause = where.length ? `WHERE ${where.join(" AND ")}` : "";
-        const q = `SELECT DISTINCT items.id, items.ts, items.schema_version, items.body 
+        const q = `${search ? searchMatchesCte(searchTable) : ""}
+                   SELECT DISTINCT ${itemColumns(cfg)},
+                          ${search ? "search_matches.score AS search_score, search_matches.snippet AS search_snippet," : ""}
+                          ${list.sortExpr} AS sort_key 
                    FROM items ${joins} ${clause} 
-                   ORDER BY items.id ASC LIMIT ?`;
+                   ORDER BY ${list.orderBy} LIMIT ?`;
         
-        const cursor = db.exec(q, ...params, limit);
-        const results = cursor.toArray();
+        let results;
+        try {
+          results = db.exec(q, ...(search ? [search] : []), ...params, list.limit).toArray();
+        } catch (e) {
+          if (!isSearchSyntaxError(e)) throw e;
+          return Response.json({ error: "invalid_query", message: (e as Error).message }, { status: 400 });
+        }
+        const lastRow = results[results.length - 1] as any;
+        const upcast = url.searchParams.get("upcast") === "true";
         return Response.json({
-          items: results.map((row: any) => ({ ...row, body: JSON.parse(row.body) })),
-          next_after: results.length ? results[results.length - 1].id : null
+          items: results.map(({ sort_key, search_score, search_snippet, ...row }: any) => ({
+            ...itemView(chain, row, upcast, projection),
+            ...(search ? { search: { score: search_score, snippet: search_snippet } } : {})
+          })),
+          next_after: lastRow ? lastRow.id : null,
+          next_cursor: results.length === list.limit ? list.nextCursor(lastRow) : null
         });
       }
 
       // POST /actors/{id}/items
       if (req.method === "POST" && last === "items") {
         const doc = await req.json().catch(() => null);
-        const result = zodSchema.safeParse(doc);
-        if (!result.success) {
-          return Response.json({ 
-            error: "invalid_document", 
-            details: result.error.issues.map(e => `${e.path.join('.')}: ${e.message}`)
-          }, { status: 400 });
-        }
-        const validatedDoc = result.data;
-        const docAsAny = validatedDoc as any;
-        const id = crypto.randomUUID();
-        const ts = Math.floor(Date.now() / 1000);
+        const errors = validate(doc);
+        if (errors.length) return validationError(errors);
+        const given = docId(cfg, doc);
+        if (given && itemExists(db, given)) return duplicateId(given);
+        const { id, ts, body } = insertItem(db, cfg, doc, enableContentSearch);
+        return Response.json({ id, ts }, { headers: { ETag: await etagFor(body) } });
+      }
 
-        // extract configured indexes
-        const values: Record<string, string | null> = {};
-        for (const p of cfg.indexes ?? []) {
-          const c = colName(p);
-          if (p.startsWith("output.")) {
-            // For output array paths, concatenate all values found
-            const extractedValues = extractOutputValues(docAsAny, p);
-            values[c] = extractedValues.length > 0 ? extractedValues.join("|") : null;
-          } else {
-            const v = getPath(validatedDoc, p);
-            values[c] = v == null ? null : String(v);
+      // POST /actors/{id}/items:batch
+      if (req.method === "POST" && last === "items:batch") {
+        return handleBatch(req, tx, {
+          validate(doc) {
+            const errors = validate(doc);
+            return errors.length ? { details: errors } : { doc };
+          },
+          write(doc) {
+            const given = docId(cfg, doc);
+            if (given && itemExists(db, given)) throw new Error(`duplicate_id: item '${given}' already exists`);
+            const { id, ts } = insertItem(db, cfg, doc, enableContentSearch);
+            return { id, ts };
           }
+        });
+      }
+
+      // GET /actors/{id}/items/{itemId}
+      if (req.method === "GET" && parts[parts.length - 2] === "items") {
+        const itemId = last;
+        const cursor = db.exec(`SELECT ${itemColumns(cfg)} FROM items WHERE id = ?`, itemId);
+        const r = cursor.toArray()[0];
+        if (!r) return new Response("Not Found", { status: 404 });
+        let projection;
+        try {
+          projection = parseProjection(url);
+        } catch (e) {
+          if (!(e instanceof QueryError)) throw e;
+          return Response.json({ error: "invalid_query", message: e.message }, { status: 400 });
         }
+        // the ETag stays the stored document's, so it still works as If-Match after an upcast read
+        const stored = await etagFor(r.body as string);
+        const etag = projectedEtag(stored, projection);
+        if (notModified(req, stored)) return new Response(null, { status: 304, headers: { ETag: etag } });
+        const view = itemView(chain, r, url.searchParams.get("upcast") === "true", projection);
+        return Response.json(view, { headers: { ETag: etag } });
+      }
 
-        const cols = ["id", "ts", "schema_version", "body", ...Object.keys(values)];
-        const marks = cols.map(() => "?").join(", ");
-        const args = [id, ts, "v1", JSON.stringify(validatedDoc), ...Object.values(values)];
-        
-        // Insert main item
-        await db.exec(`INSERT INTO items(${cols.join(",")}) VALUES (${marks})`, ...args);
-
-        // Index output array if present
-        if (docAsAny.output && Array.isArray(docAsAny.output)) {
-          for (let i = 0; i < docAsAny.output.length; i++) {
-            const outputItem = docAsAny.output[i];
-            const outputType = outputItem.type || null;
-            const outputRole = outputItem.role || null;
-            
-            // Extract text content from various possible structures
-            let outputContent = null;
-            if (outputItem.content) {
-              if (typeof outputItem.content === "string") {
-                outputContent = outputItem.content;
-              } else if (Array.isArray(outputItem.content)) {
-                // Handle content arrays (like OpenAI's structure)
-                const textItems = outputItem.content
-                  .filter((item: any) => item.type === "text" || item.type === "output_text")
-                  .map((item: any) => item.text)
-                  .filter(Boolean);
-                outputContent = textItems.join(" ");
-              }
-            } else if (outputItem.text) {
-              outputContent = outputItem.text;
-            }
+      // PUT | PATCH | DELETE /actors/{id}/items/{itemId}
+      if (["PUT", "PATCH", "DELETE"].includes(req.method) && parts[parts.length - 2] === "items") {
+        const itemId = last;
+        const r = db.exec("SELECT schema_version, body FROM items WHERE id = ?", itemId).toArray()[0];
+        // PUT creates a missing item under the id in the path
+        if (!r && req.method === "PUT") return createItem(db, req, itemId);
+        if (!r) return new Response("Not Found", { status: 404 });
+        // a patch applies to the document as the current version, since the result must match it
+        const current = chain.upcast(JSON.parse(r.body as string), r.schema_version as string | null).doc;
+        const etag = await etagFor(r.body as string);
+        if (!preconditionsMet(req, etag)) return preconditionFailed(etag);
 
-            if (outputContent && outputContent.length > 1000) {
-              outputContent = outputContent.substring(0, 1000); // Truncate for indexing
-            }
+        if (req.method === "DELETE") {
+          recordChanges(db, itemsListSpec(cfg), "id", "delete", "id = ?", itemId);
+          await db.exec("DELETE FROM output_index WHERE item_id = ?", itemId);
+          if (enableContentSearch) deleteSearchRows(db, searchTable, itemId);
+          await db.exec("DELETE FROM items WHERE id = ?", itemId);
+          return new Response(null, { status: 204 });
+        }
+
+        const incoming = await req.json().catch(() => undefined);
+        if (incoming === undefined) return Response.json({ error: "invalid_json" }, { status: 400 });
 
-            await db.exec(
-              `INSERT INTO output_index(item_id, output_index, output_type, output_role, output_content) 
-               VALUES (?, ?, ?, ?, ?)`,
-              id, i, outputType, outputRole, outputContent
-            );
+        let next: unknown = incoming;
+        if (req.method === "PATCH") {
+          try {
+            next = applyPatch(current, incoming, req.headers.get("Content-Type"));
+          } catch (e) {
+            if (!(e instanceof PatchError)) throw e;
+            return Response.json({ error: "invalid_patch", message: e.message }, { status: e.status });
           }
         }
 
-        return Response.json({ id, ts });
+        const errors = validate(next);
+        if (errors.length) return validationError(errors);
+        const mismatch = idMismatch(next, itemId);
+        if (mismatch) return mismatch;
+        const ts = Math.floor(Date.now() / 1000);
+        const body = updateItem(db, cfg, itemId, next, enableContentSearch, ts);
+
+        return Response.json({ id: itemId, ts }, { headers: { ETag: await etagFor(body) } });
       }
 
-      // GET /actors/{id}/items/{itemId}
-      if (req.method === "GET" && parts[parts.length - 2] === "items") {
-        const itemId = last;
-        const cursor = db.exec("SELECT id, ts, schema_version, body FROM items WHERE id = ?", itemId);
-        const r = cursor.one();
-        if (!r) return new Response("Not Found", { status: 404 });
-        return Response.json({ ...r, body: JSON.parse(r.body as string) });
+      // GET /actors/{id}/schemas
+      if (req.method === "GET" && last === "schemas") {
+        const counts = new Map(db.exec("SELECT schema_version, COUNT(*) AS n FROM items GROUP BY schema_version").toArray()
+          .map(r => [r.schema_version as string | null, r.n as number]));
+        return Response.json({
+          current: chain.current,
+          versions: [
+            ...(cfg.schema_versions ?? []).map(v => ({ ...v, documents: counts.get(v.version) ?? 0 })),
+            { version: chain.current, schema: cfg.schema, documents: counts.get(chain.current) ?? 0 }
+          ]
+        });
+      }
+
+      // GET | POST /actors/{id}/schemas/revalidate
+      if (last === "revalidate" && parts[parts.length - 2] === "schemas") {
+        if (req.method === "GET") {
+          const job = readRevalidation(db);
+          return job ? Response.json(job) : Response.json({ error: "no_revalidation" }, { status: 404 });
+        }
+        if (req.method === "POST") {
+          // an empty body starts a report
+          const body: unknown = await req.json().catch(() => ({}));
+          if (body === null || typeof body !== "object" || Array.isArray(body)) {
+            return Response.json({ error: "invalid_json", message: "the body must be a JSON object" }, { status: 400 });
+          }
+          const { mode = "report" } = body as { mode?: unknown };
+          if (mode !== "report" && mode !== "migrate") {
+            return Response.json({ error: "invalid_mode", message: "mode is 'report' or 'migrate'" }, { status: 400 });
+          }
+          const running = readRevalidation(db);
+          if (running && running.finished_at == null) {
+            return Response.json({ error: "revalidation_running", job: running }, { status: 409 });
+          }
+          return Response.json(startRevalidation(db, mode, chain.current), { status: 202 });
+        }
       }
 
       return new Response("Not Found", { status: 404 });
     },
 
+    nextAlarmAt(db) {
+      const job = readRevalidation(db);
+      return job && job.finished_at == null ? Date.now() : null;
+    },
+
+    async onAlarm(db, cfg) {
+      revalidateBatch(db, chain, validate, (id, doc) => updateItem(db, cfg, id, doc, enableContentSearch));
+    },
+
+    async backfillStep(db, cfg) {
+      return backfillBatch(db, itemsTable, doc => indexValues(cfg, doc));
+    },
+
+    planConfig(db, next) {
+      const plan = planIndexedTable(db, itemsTable, (next.indexes ?? []).map(colName), next.params?.retention_days);
+      const validateNext = compileSchema(next.schema);
+      const nextChain = schemaChain(next);
+      let invalid = 0;
+      for (const r of db.exec("SELECT schema_version, body FROM items")) {
+        if (validateNext(nextChain.upcast(JSON.parse(r.body as string), r.schema_version as string | null).doc).length) invalid++;
+      }
+      plan.rows_invalid = invalid;
+      if ((next.id_path ?? null) !== (cfg.id_path ?? null)) {
+        plan.notes.push(next.id_path ? `new items take their id from ${next.id_path}; stored items keep theirs` : "new items get generated ids");
+      }
+      if (nextChain.current !== chain.current) {
+        plan.notes.push(`new writes are stamped ${nextChain.current}; POST .../schemas/revalidate checks or migrates the stored documents`);
+      }
+      const search = next.params?.enable_content_search ?? false;
+      if (search && !enableContentSearch) {
+        plan.notes.push("enables content search: every item's output text is indexed");
+        plan.rows_reindexed = plan.rows;
+      } else if (!search && enableContentSearch) {
+        plan.notes.push("disables content search: the search index is dropped");
+      }
+      return plan;
+    },
+
+    async purgeExpired(db, cfg, before) {
+      const outputs = db.exec(
+        "DELETE FROM output_index WHERE item_id IN (SELECT id FROM items WHERE ts < ?)", before
+      ).rowsWritten;
+      if (enableContentSearch) {
+        db.exec(`DELETE FROM ${searchTable.name} WHERE doc_id IN (SELECT id FROM items WHERE ts < ?)`, before);
+      }
+      recordChanges(db, itemsListSpec(cfg), "id", "delete", "ts < ?", before);
+      const items = db.exec("DELETE FROM items WHERE ts < ?", before).rowsWritten;
+      return { items, output_index: outputs };
+    },
+
+    exportRows(db) {
+      return exportTableRows(db, "items");
+    },
+
+    ...(keepsCreatedAt(cfg) ? { migrateFrom: addCreatedAt } : {}),
+
+    changeFeed(cfg) {
+      return itemsListSpec(cfg);
+    },
+
+    webhookEvents: {
+      types: ["item.created"],
+      of: change => (change.op === "insert" ? ["item.created"] : [])
+    },
+
+    importRow(db, cfg, row) {
+      // older versions are kept as they are, but must upcast to a valid document
+      const errors = validate(chain.upcast(row.body, row.schema_version).doc);
+      if (errors.length) throw new SnapshotError(`invalid document: ${errors.map(e => `${e.path || "/"} ${e.message}`).join("; ")}`);
+      const { body, ...meta } = row;
+      insertItem(db, cfg, body, enableContentSearch, meta);
+    },
+
     openapi(cfg, basePath) {
       // Enhanced spec with support for OpenAI Response API structure
-      const indexParams = (cfg.indexes ?? []).map(p => ({
-        name: colName(p), 
-        in: "query", 
-        schema: { type: "string" }, 
-        description: `filter on ${p}`
-      }));
+      // equality, range/in/prefix/exists operators, sort and cursor
+      const indexParams = listQueryParams({ ...itemsListSpec(cfg, enableContentSearch), defaultSort: "id" });
 
       // Add output array filtering parameters
       const outputParams = [
         { name: "output_type", in: "query", schema: { type: "string" }, description: "filter by output item type" },
         { name: "output_role", in: "query", schema: { type: "string" }, description: "filter by output item role" },
-        { name: "output_content", in: "query", schema: { type: "string" }, description: "search in output content (partial match)" }
+        { name: "output_content", in: "query", schema: { type: "string" }, description: "search in output content (partial match)" },
+        ...(enableContentSearch ? [{
+          name: "q",
+          in: "query",
+          schema: { type: "string" },
+          description: "full-text search over output text (FTS5 syntax: terms, \"exact phrases\", prefix*, AND/OR/NOT); results default to BM25 relevance order (sort=relevance)"
+        }] : [])
       ];
 
+      const itemIdParam = { name: "itemId", in: "path", required: true, schema: { type: "string" } };
+      // a projected body has the document's shape with any part possibly left out
+      const bodySchema = projectedSchema(cfg.schema);
+      const upcastParam = {
+        name: "upcast",
+        in: "query",
+        schema: { type: "boolean" },
+        description: "return documents of older schema versions upcast to the current one (marked with upcast_from)"
+      };
+      const revalidationSchema = {
+        type: "object",
+        properties: {
+          mode: { type: "string", enum: ["report", "migrate"] },
+          schema_version: { type: "string" },
+          started_at: { type: "integer" },
+          finished_at: { type: ["integer", "null"] },
+          checked: { type: "integer" },
+          conforming: { type: "integer" },
+          migrated: { type: "integer" },
+          invalid: { type: "integer" },
+          rejected: {
+            type: "array",
+            description: "the first 100 documents the current schema rejects",
+            items: { type: "object", properties: { id: { type: "string" }, schema_version: { type: "string" }, errors: { type: "array" } } }
+          }
+        }
+      };
+      const createdAtProperty = keepsCreatedAt(cfg)
+        ? { created_at: { type: "integer", description: "unix seconds of the item's first write (ts is the last)" } }
+        : {};
+      const ifMatchParam = { name: "If-Match", in: "header", schema: { type: "string" }, description: "ETag from a previous read" };
+      const idempotencyKeyParam = {
+        name: "Idempotency-Key",
+        in: "header",
+        schema: { type: "string", maxLength: 255 },
+        description: "retries with the same key within 24 hours get the first response back instead of writing again"
+      };
+
+      const writeResponses = {
+        "200": {
+          description: "Successfully updated item (new ETag in the ETag header)",
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  id: { type: "string" },
+                  ts: { type: "integer" }
+                }
+              }
+            }
+          }
+        },
+        "400": { description: "Invalid document or patch" },
+        "404": { description: "Item not found" },
+        "412": { description: "If-Match did not match the current ETag" }
+      };
+
       return {
         openapi: "3.1.0",
         info: { 
           title: "Paseo Store Actor", 
           version: "0.1.0",
-          description: "Store actor optimized for OpenAI Response API structure with dynamic output array support"
+          description: "Store actor optimized for OpenAI Response API structure with dynamic output array support. Documents are validated against the configured JSON Schema (draft 2020-12)."
         },
         paths: {
           [`${basePath}/items`]: {
             get: {
+              operationId: "list_items",
               summary: "List stored items with advanced filtering",
-              description: "Supports filtering by indexed fields and output array properties",
+              description: "Supports filtering by indexed fields (with eq/ne/gt/gte/lt/lte/in/prefix/exists operators) and output array properties, sorting on any indexed column, and cursor pagination",
               parameters: [
                 { name: "limit", in: "query", schema: { type: "integer", maximum: 200 } },
-                { name: "after", in: "query", schema: { type: "string" } },
+                { name: "after", in: "query", schema: { type: "string" }, description: "legacy pagination by item id (default sort only)" },
+                upcastParam,
+                ...projectionParams(),
                 ...indexParams,
                 ...outputParams
               ],
@@ -324,12 +670,23 @@ export function storeHandlerFactory(cfg: StoreActorConfig): Handler<StoreActorCo
                               properties: {
                                 id: { type: "string" },
                                 ts: { type: "integer" },
+                                ...createdAtProperty,
                                 schema_version: { type: "string" },
-                                body: { type: "object" }
+                                upcast_from: { type: "string", description: "stored schema version, when upcast" },
+                                search: {
+                                  type: "object",
+                                  description: "present when q is given",
+                                  properties: {
+                                    score: { type: "number", description: "BM25 score (lower is more relevant)" },
+                                    snippet: { type: "string", description: "matching text with hits wrapped in <mark>" }
+                                  }
+                                },
+                                body: bodySchema
                               }
                             }
                           },
-                          next_after: { type: "string", nullable: true }
+                          next_after: { type: "string", nullable: true },
+                          next_cursor: { type: "string", nullable: true, description: "pass as cursor to fetch the next page" }
                         }
                       }
                     }
@@ -338,8 +695,12 @@ export function storeHandlerFactory(cfg: StoreActorConfig): Handler<StoreActorCo
               }
             },
             post: {
+              operationId: "store_item",
               summary: "Store a validated document",
-              description: "Stores documents conforming to OpenAI Response API structure with automatic output array indexing",
+              description: cfg.id_path
+                ? `Stores a new document under the id at ${cfg.id_path} (generated when missing), with automatic output array indexing`
+                : "Stores documents conforming to OpenAI Response API structure with automatic output array indexing",
+              parameters: [idempotencyKeyParam],
               requestBody: {
                 required: true,
                 content: { "application/json": { schema: cfg.schema } }
@@ -367,19 +728,37 @@ export function storeHandlerFactory(cfg: StoreActorConfig): Handler<StoreActorCo
                         type: "object",
                         properties: {
                           error: { type: "string" },
-                          details: { type: "array", items: { type: "string" } }
+                          details: {
+                            type: "array",
+                            items: {
+                              type: "object",
+                              properties: {
+                                path: { type: "string", description: "JSON Pointer into the document" },
+                                message: { type: "string" }
+                              }
+                            }
+                          }
                         }
                       }
                     }
                   }
-                }
+                },
+                "409": { description: "An item with this id exists" },
+                "422": { description: "The Idempotency-Key was used for a different request" }
               }
             }
           },
+          [`${basePath}/items:batch`]: {
+            post: batchOperation("store_items_batch", "Store many validated documents", cfg.schema, {
+              id: { type: "string" },
+              ts: { type: "integer" }
+            })
+          },
           [`${basePath}/items/{itemId}`]: {
             get: {
+              operationId: "get_item",
               summary: "Fetch one item",
-              parameters: [{ name: "itemId", in: "path", required: true, schema: { type: "string" } }],
+              parameters: [itemIdParam, upcastParam, ...projectionParams()],
               responses: { 
                 "200": { 
                   description: "Successfully retrieved item",
@@ -390,15 +769,119 @@ export function storeHandlerFactory(cfg: StoreActorConfig): Handler<StoreActorCo
                         properties: {
                           id: { type: "string" },
                           ts: { type: "integer" },
+                          ...createdAtProperty,
                           schema_version: { type: "string" },
-                          body: { type: "object" }
+                          upcast_from: { type: "string", description: "stored schema version, when upcast" },
+                          body: bodySchema
                         }
                       }
                     }
                   }
                 }, 
+                "304": { description: "Not modified (If-None-Match)" },
                 "404": { description: "Item not found" } 
               }
+            },
+            put: {
+              operationId: "replace_item",
+              summary: "Replace or create an item",
+              description: "Re-validates the document and recomputes indexes; a missing item is created under the id in the path (201). Send If-Match with the item's ETag to avoid lost updates, or If-None-Match: * to only create.",
+              parameters: [itemIdParam, ifMatchParam],
+              requestBody: {
+                required: true,
+                content: { "application/json": { schema: cfg.schema } }
+              },
+              responses: {
+                ...writeResponses,
+                "201": { description: "Item created (ETag in the ETag header)" }
+              }
+            },
+            patch: {
+              operationId: "update_item",
+              summary: "Partially update an item",
+              description: "Accepts JSON Merge Patch (application/merge-patch+json) or JSON Patch (application/json-patch+json). The patched document is re-validated.",
+              parameters: [itemIdParam, ifMatchParam],
+              requestBody: {
+                required: true,
+                content: {
+                  "application/merge-patch+json": { schema: { type: "object" } },
+                  "application/json-patch+json": { schema: jsonPatchSchema }
+                }
+              },
+              responses: {
+                ...writeResponses,
+                "409": { description: "Patch could not be applied (e.g. failed test op)" }
+              }
+            },
+            delete: {
+              operationId: "delete_item",
+              summary: "Delete an item",
+              parameters: [itemIdParam, ifMatchParam],
+              responses: {
+                "204": { description: "Item deleted" },
+                "404": { description: "Item not found" },
+                "412": { description: "If-Match did not match the current ETag" }
+              }
+            }
+          },
+          [`${basePath}/schemas`]: {
+            get: {
+              operationId: "list_schema_versions",
+              summary: "List the document schema versions",
+              description: "The current schema and the earlier ones with their upcast steps, each with the number of stored documents of that version",
+              responses: {
+                "200": {
+                  description: "Schema versions, oldest first",
+                  content: {
+                    "application/json": {
+                      schema: {
+                        type: "object",
+                        properties: {
+                          current: { type: "string" },
+                          versions: {
+                            type: "array",
+                            items: {
+                              type: "object",
+                              properties: {
+                                version: { type: "string" },
+                                schema: { type: "object" },
+                                upcast: { type: "array", items: { type: "object" } },
+                                documents: { type: "integer" }
+                              }
+                            }
+                          }
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          },
+          [`${basePath}/schemas/revalidate`]: {
+            get: {
+              operationId: "get_revalidation",
+              summary: "Progress and findings of the latest revalidation job",
+              responses: {
+                "200": { description: "The job", content: { "application/json": { schema: revalidationSchema } } },
+                "404": { description: "No job has run" }
+              }
+            },
+            post: {
+              operationId: "start_revalidation",
+              summary: "Check every stored document against the current schema",
+              description: "Runs in the background. 'report' lists the documents the current schema rejects after upcasting; 'migrate' also rewrites older documents that upcast cleanly as the current version.",
+              requestBody: {
+                content: {
+                  "application/json": {
+                    schema: { type: "object", properties: { mode: { type: "string", enum: ["report", "migrate"], default: "report" } } }
+                  }
+                }
+              },
+              responses: {
+                "202": { description: "Job started", content: { "application/json": { schema: revalidationSchema } } },
+                "409": { description: "A job is still running" }
+              }
             }
           }
         }
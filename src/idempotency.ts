@@ -0,0 +1,88 @@
+// src/idempotency.ts
+// Idempotency-Key support for writes to actor data routes.
+//
+// A write sent with an `Idempotency-Key` header is answered once; the same key within the window
+// gets the stored response back (marked `Idempotent-Replayed: true`) without writing again. The
+// key is bound to the request it was first used with: reusing it for a different method, path or
+// body is refused with 422. Responses with a 5xx status are not kept, so those requests can be
+// retried with the same key. The body is buffered to fingerprint it, so a streamed write
+// (POST .../responses/stream) sent with a key is handled only once it has been read in full.
+
+/** how long a key is remembered */
+export const IDEMPOTENCY_WINDOW_MS = 24 * 3600 * 1000;
+const MAX_KEY_LENGTH = 255;
+/** larger response bodies are not kept, so their keys are not remembered */
+const MAX_STORED_BODY = 1_000_000;
+
+export function ensureIdempotencyTable(db: SqlStorage) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS idempotency_keys(
+      key TEXT PRIMARY KEY,
+      fingerprint TEXT NOT NULL,        -- sha-256 of method, path and body
+      status INTEGER NOT NULL,
+      headers TEXT NOT NULL,            -- JSON [name, value] pairs
+      body TEXT,
+      created_at INTEGER NOT NULL       -- unix ms
+    )
+  `);
+  db.exec("CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created_at ON idempotency_keys(created_at)");
+}
+
+export type IdempotentWrite = {
+  key: string;
+  fingerprint: string;
+  /** the request with its body buffered, to hand on to the handler */
+  request: Request;
+};
+
+/** Buffer the request body and fingerprint it; returns an error response for unusable keys */
+export async function idempotentWrite(req: Request, key: string): Promise<IdempotentWrite | Response> {
+  if (!key || key.length > MAX_KEY_LENGTH) {
+    return Response.json({
+      error: "invalid_idempotency_key",
+      message: `Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters`
+    }, { status: 400 });
+  }
+  const body = await req.arrayBuffer();
+  const url = new URL(req.url);
+  const head = new TextEncoder().encode(`${req.method} ${url.pathname}${url.search}\n`);
+  const bytes = new Uint8Array(head.length + body.byteLength);
+  bytes.set(head);
+  bytes.set(new Uint8Array(body), head.length);
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  const fingerprint = [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, "0")).join("");
+  return {
+    key,
+    fingerprint,
+    request: new Request(req.url, { method: req.method, headers: req.headers, body: body.byteLength ? body : undefined })
+  };
+}
+
+/** The stored response for a key seen within the window, a 422 for a reused key, or null */
+export function replay(db: SqlStorage, w: IdempotentWrite): Response | null {
+  db.exec("DELETE FROM idempotency_keys WHERE created_at < ?", Date.now() - IDEMPOTENCY_WINDOW_MS);
+  const row = db.exec("SELECT fingerprint, status, headers, body FROM idempotency_keys WHERE key = ?", w.key).toArray()[0];
+  if (!row) return null;
+  if (row.fingerprint !== w.fingerprint) {
+    return Response.json({
+      error: "idempotency_key_reused",
+      message: "this Idempotency-Key was used for a different request"
+    }, { status: 422 });
+  }
+  const headers = new Headers(JSON.parse(row.headers as string));
+  headers.set("Idempotent-Replayed", "true");
+  return new Response(row.body as string | null, { status: row.status as number, headers });
+}
+
+/** Keep the handler's response for the key; returns a response to send in its place */
+export async function remember(db: SqlStorage, w: IdempotentWrite, res: Response): Promise<Response> {
+  if (res.status >= 500 || res.webSocket) return res;
+  const body = res.body ? await res.text() : null;
+  if (body == null || body.length <= MAX_STORED_BODY) {
+    db.exec(
+      "INSERT OR REPLACE INTO idempotency_keys(key, fingerprint, status, headers, body, created_at) VALUES (?, ?, ?, ?, ?, ?)",
+      w.key, w.fingerprint, res.status, JSON.stringify([...res.headers]), body, Date.now()
+    );
+  }
+  return new Response(body, { status: res.status, headers: res.headers });
+}
@@ -1,42 +1,119 @@
 // src/index.ts
 import type { Env, ActorConfig } from "./types";
+import { REGISTRY_NAME, type ActorInfo } from "./pod-registry";
+import { allows, bearerToken, forbidden, isRootKey, requirementFor, unauthorized, type Principal } from "./auth";
+import { handleMcp } from "./mcp";
 export { ActorDO } from "./actor-do";
+export { PodRegistry } from "./pod-registry";
 
 export default {
   async fetch(req: Request, env: Env) {
     const url = new URL(req.url);
     const parts = url.pathname.split("/").filter(Boolean);
+    if (parts[0] !== "pods") return new Response("Not Found", { status: 404 });
+
+    // pods and actor membership live in one registry DO
+    const registry = () => env.POD_REGISTRY.get(env.POD_REGISTRY.idFromName(REGISTRY_NAME));
+    const ask = async (path: string, init?: RequestInit) => {
+      try {
+        return await registry().fetch(new Request(new URL(path, url.origin), init));
+      } catch (e) {
+        // the registry is long-lived; after a reset (e.g. on deploy) the call can be retried on a fresh stub
+        const err = e as { retryable?: boolean; durableObjectReset?: boolean };
+        if (!err.retryable && !err.durableObjectReset) throw e;
+        return registry().fetch(new Request(new URL(path, url.origin), init));
+      }
+    };
+    const actorStub = (podName: string, actorId: string) =>
+      env.ACTOR_DO.get(env.ACTOR_DO.idFromName(`${podName}:${actorId}`));
+    /** wipe an actor's storage; the registry row is removed separately */
+    const destroyActor = (podName: string, actorId: string) =>
+      actorStub(podName, actorId).fetch(new Request(`${url.origin}/pods/${podName}/actors/${actorId}/__destroy`, { method: "POST" }));
+    /** record the actor's current type / version in the registry */
+    const registerActor = async (podName: string, actorId: string) => {
+      const status = await actorStub(podName, actorId).fetch(`${url.origin}/pods/${podName}/actors/${actorId}/status`);
+      const { actorType, version } = await status.json<ActorConfig>();
+      const registered = await ask(`/pods/${podName}/actors/${actorId}`, { method: "POST", body: JSON.stringify({ actorType, version }) });
+      if (!registered.ok) throw new Error(`registering actor ${actorId} failed: ${await registered.text()}`);
+    };
+
+    // authenticate before anything reaches a Durable Object
+    const token = bearerToken(req);
+    if (!token) return unauthorized();
+    let principal: Principal;
+    if (await isRootKey(env, token)) {
+      principal = { root: true };
+    } else {
+      const verified = await ask("/__verify", { method: "POST", body: JSON.stringify({ key: token }) });
+      if (!verified.ok) return unauthorized();
+      principal = await verified.json<Principal>();
+    }
+    const need = requirementFor(req.method, parts);
+    if (!allows(principal, need)) return forbidden(need);
 
     // POST /pods -> create a pod
-    if (req.method === "POST" && parts[0] === "pods" && parts.length === 1) {
-      const podName = crypto.randomUUID();
-      // Optional: warm-up or record pod metadata somewhere if you like
-      return Response.json({ podName });
+    // GET /pods -> list pods
+    // GET /pods/{podName} -> describe a pod
+    // GET /pods/{podName}/actors -> list its actors
+    // POST | GET /pods/{podName}/keys, DELETE /pods/{podName}/keys/{keyId} -> API keys
+    if (
+      (parts.length === 1 && (req.method === "POST" || req.method === "GET")) ||
+      (req.method === "GET" && (parts.length === 2 || (parts.length === 3 && parts[2] === "actors"))) ||
+      (parts[2] === "keys" && (parts.length === 3 ? ["POST", "GET"].includes(req.method) : parts.length === 4 && req.method === "DELETE"))
+    ) {
+      const body = req.method === "POST" ? await req.text() : undefined;
+      return ask(url.pathname + url.search, { method: req.method, headers: req.headers, body });
+    }
+
+    // DELETE /pods/{podName} -> delete the pod and all of its actors
+    if (req.method === "DELETE" && parts.length === 2) {
+      const podName = parts[1];
+      const listed = await ask(`/pods/${podName}/actors`);
+      if (!listed.ok) return listed;
+      const { actors } = await listed.json<{ actors: { actorId: string }[] }>();
+      // destroy first so a failed delete can simply be retried
+      for (const a of actors) await destroyActor(podName, a.actorId);
+      return ask(`/pods/${podName}`, { method: "DELETE" });
     }
 
-    // GET /pods/{podName} -> pod status
-    if (req.method === "GET" && parts[0] === "pods" && parts[1] && parts.length === 2) {
+    // POST /pods/{podName}/mcp -> MCP endpoint over the pod's actors (tool calls go through the same scope checks)
+    if (parts[2] === "mcp" && parts.length === 3) {
       const podName = parts[1];
-      // Minimal status for now
-      return Response.json({ podName, status: "ok" });
+      const pod = await ask(`/pods/${podName}`);
+      if (!pod.ok) return pod;
+      return handleMcp(req, {
+        podName,
+        actors: async () => (await (await ask(`/pods/${podName}/actors`)).json<{ actors: ActorInfo[] }>()).actors,
+        fetchActor: (actorId, path, init) =>
+          actorStub(podName, actorId).fetch(new Request(`${url.origin}/pods/${podName}/actors/${actorId}${path}`, init)),
+        allowed: (method, actorId, path) =>
+          allows(principal, requirementFor(method, ["pods", podName, "actors", actorId, ...path.split("/").filter(Boolean)]))
+      });
     }
 
     // POST /pods/{podName}/actors -> create actor inside pod
-    if (req.method === "POST" && parts[0] === "pods" && parts[1] && parts[2] === "actors" && parts.length === 3) {
+    if (req.method === "POST" && parts[1] && parts[2] === "actors" && parts.length === 3) {
       const podName = parts[1];
+      const pod = await ask(`/pods/${podName}`);
+      if (!pod.ok) return pod;
+
 	  const body = await req.json().catch(() => ({})) as { config?: ActorConfig };
       const actorId = crypto.randomUUID();
-      const actorKey = `${podName}:${actorId}`;
-
-      const id = env.ACTOR_DO.idFromName(actorKey);
-      const stub = env.ACTOR_DO.get(id);
+      const stub = actorStub(podName, actorId);
 
       // seed config into the actor DO
-      await stub.fetch(new Request(`${url.origin}/pods/${podName}/actors/${actorId}/__seed`, {
+      const seeded = await stub.fetch(new Request(`${url.origin}/pods/${podName}/actors/${actorId}/__seed`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(body?.config ?? {})
       }));
+      if (!seeded.ok) {
+        await destroyActor(podName, actorId);
+        return seeded;
+      }
+
+      // register what was actually seeded (defaults included)
+      await registerActor(podName, actorId);
 
       return Response.json({
         podName,
@@ -46,17 +123,35 @@ export default {
     }
 
     // Actor routes under /pods/{podName}/actors/{actorId}/...
-    if (parts[0] === "pods" && parts[1] && parts[2] === "actors" && parts[3]) {
+    if (parts[1] && parts[2] === "actors" && parts[3]) {
       const podName = parts[1];
       const actorId = parts[3];
-      const actorKey = `${podName}:${actorId}`;
-      const id = env.ACTOR_DO.idFromName(actorKey);
-      const stub = env.ACTOR_DO.get(id);
+
+      // internal actor routes (__seed, __destroy) are only called by this router; no public path
+      // may carry a "__" segment anywhere below the actor, percent-encoded or not
+      if (parts.slice(4).some(p => p.replace(/%5f/gi, "_").startsWith("__"))) return new Response("Not Found", { status: 404 });
+
+      const known = await ask(`/pods/${podName}/actors/${actorId}`);
+      if (!known.ok) return known;
+
+      // DELETE /pods/{podName}/actors/{actorId} -> delete the actor and its data
+      if (req.method === "DELETE" && parts.length === 4) {
+        await destroyActor(podName, actorId);
+        return ask(`/pods/${podName}/actors/${actorId}`, { method: "DELETE" });
+      }
+
+      // GET /pods/{podName}/actors/{actorId} -> describe the actor
+      if (req.method === "GET" && parts.length === 4) return known;
 
       // Proxy the exact subpath to the DO
       const remainder = "/" + parts.slice(4).join("/");
       const target = new URL(`/pods/${podName}/actors/${actorId}${remainder}`, url.origin);
-      return stub.fetch(new Request(target, req));
+      target.search = url.search;
+      const res = await actorStub(podName, actorId).fetch(new Request(target, req));
+      // an imported snapshot or a config change may change the actor type
+      const configChanged = ["/import", "/config/rollback"].includes(remainder) ? req.method === "POST" : remainder === "/config" && req.method === "PATCH";
+      if (configChanged && res.ok) await registerActor(podName, actorId);
+      return res;
     }
 
     return new Response("Not Found", { status: 404 });
@@ -0,0 +1,151 @@
+// src/json-patch.ts
+// JSON Merge Patch (RFC 7396) and JSON Patch (RFC 6902) over plain JSON values.
+
+export class PatchError extends Error {
+  constructor(message: string, public status: 400 | 409 = 400) {
+    super(message);
+  }
+}
+
+const isObject = (v: unknown): v is Record<string, any> =>
+  v !== null && typeof v === "object" && !Array.isArray(v);
+
+const clone = <T>(v: T): T => (v === undefined ? v : JSON.parse(JSON.stringify(v)));
+
+/** RFC 7396: objects merge recursively, null removes, everything else replaces */
+export function mergePatch(target: unknown, patch: unknown): unknown {
+  if (!isObject(patch)) return clone(patch);
+  const out: Record<string, any> = isObject(target) ? { ...target } : {};
+  for (const [k, v] of Object.entries(patch)) {
+    if (v === null) delete out[k];
+    else out[k] = mergePatch(out[k], v);
+  }
+  return out;
+}
+
+/** "/a/b~1c/0" -> ["a", "b/c", "0"] */
+const parsePointer = (ptr: unknown): string[] => {
+  if (typeof ptr !== "string") throw new PatchError("path must be a string");
+  if (ptr === "") return [];
+  if (!ptr.startsWith("/")) throw new PatchError(`invalid JSON Pointer: ${ptr}`);
+  return ptr.slice(1).split("/").map(s => s.replace(/~1/g, "/").replace(/~0/g, "~"));
+};
+
+const arrayIndex = (arr: any[], token: string, forInsert: boolean): number => {
+  if (forInsert && token === "-") return arr.length;
+  if (!/^(0|[1-9][0-9]*)$/.test(token)) throw new PatchError(`invalid array index: ${token}`, 409);
+  const i = Number(token);
+  if (i > arr.length || (!forInsert && i === arr.length)) throw new PatchError(`array index out of range: ${token}`, 409);
+  return i;
+};
+
+/** resolve the container holding the last token of a pointer */
+const parentOf = (doc: any, tokens: string[]) => {
+  let node = doc;
+  for (const t of tokens.slice(0, -1)) {
+    if (Array.isArray(node)) node = node[arrayIndex(node, t, false)];
+    else if (isObject(node) && t in node) node = node[t];
+    else throw new PatchError(`path not found: /${tokens.join("/")}`, 409);
+  }
+  if (!Array.isArray(node) && !isObject(node)) throw new PatchError(`path not found: /${tokens.join("/")}`, 409);
+  return { node, key: tokens[tokens.length - 1] };
+};
+
+const getAt = (doc: any, tokens: string[]) => {
+  if (!tokens.length) return doc;
+  const { node, key } = parentOf(doc, tokens);
+  if (Array.isArray(node)) return node[arrayIndex(node, key, false)];
+  if (!(key in node)) throw new PatchError(`path not found: /${tokens.join("/")}`, 409);
+  return node[key];
+};
+
+const addAt = (doc: any, tokens: string[], value: unknown) => {
+  if (!tokens.length) return value;
+  const { node, key } = parentOf(doc, tokens);
+  if (Array.isArray(node)) node.splice(arrayIndex(node, key, true), 0, value);
+  else node[key] = value;
+  return doc;
+};
+
+const removeAt = (doc: any, tokens: string[]) => {
+  if (!tokens.length) throw new PatchError("cannot remove the document root");
+  const { node, key } = parentOf(doc, tokens);
+  if (Array.isArray(node)) node.splice(arrayIndex(node, key, false), 1);
+  else if (key in node) delete node[key];
+  else throw new PatchError(`path not found: /${tokens.join("/")}`, 409);
+  return doc;
+};
+
+const deepEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((v, i) => deepEqual(v, b[i]));
+  if (isObject(a) && isObject(b)) {
+    const ka = Object.keys(a);
+    return ka.length === Object.keys(b).length && ka.every(k => k in b && deepEqual(a[k], b[k]));
+  }
+  return false;
+};
+
+/** RFC 6902: apply operations in order; any failure aborts the whole patch */
+export function jsonPatch(target: unknown, ops: unknown): unknown {
+  if (!Array.isArray(ops)) throw new PatchError("JSON Patch document must be an array");
+  let doc = clone(target);
+  for (const op of ops) {
+    if (!isObject(op)) throw new PatchError("patch operation must be an object");
+    const path = parsePointer(op.path);
+    switch (op.op) {
+      case "add":
+        if (!("value" in op)) throw new PatchError("add requires value");
+        doc = addAt(doc, path, clone(op.value));
+        break;
+      case "remove":
+        doc = removeAt(doc, path);
+        break;
+      case "replace":
+        if (!("value" in op)) throw new PatchError("replace requires value");
+        getAt(doc, path);
+        doc = path.length ? addAt(removeAt(doc, path), path, clone(op.value)) : clone(op.value);
+        break;
+      case "move": {
+        const from = parsePointer(op.from);
+        if (path.length > from.length && from.every((t, i) => path[i] === t)) {
+          throw new PatchError("cannot move a value into one of its children");
+        }
+        const value = getAt(doc, from);
+        doc = addAt(removeAt(doc, from), path, value);
+        break;
+      }
+      case "copy":
+        doc = addAt(doc, path, clone(getAt(doc, parsePointer(op.from))));
+        break;
+      case "test":
+        if (!deepEqual(getAt(doc, path), op.value)) throw new PatchError(`test failed at ${op.path}`, 409);
+        break;
+      default:
+        throw new PatchError(`unsupported op: ${String(op.op)}`);
+    }
+  }
+  return doc;
+}
+
+/** Apply a PATCH request body according to its Content-Type */
+export function applyPatch(target: unknown, patch: unknown, contentType: string | null): unknown {
+  const ct = (contentType ?? "").split(";")[0].trim().toLowerCase();
+  if (ct === "application/json-patch+json") return jsonPatch(target, patch);
+  return mergePatch(target, patch);
+}
+
+/** OpenAPI schema for an RFC 6902 request body */
+export const jsonPatchSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    required: ["op", "path"],
+    properties: {
+      op: { type: "string", enum: ["add", "remove", "replace", "move", "copy", "test"] },
+      path: { type: "string", description: "JSON Pointer" },
+      from: { type: "string", description: "JSON Pointer (move/copy)" },
+      value: {}
+    }
+  }
+};
@@ -0,0 +1,487 @@
+// src/json-schema.ts
+// JSON Schema draft 2020-12 validator for user-supplied store schemas.
+//
+// compileSchema() checks the schema up front and throws SchemaError for anything it
+// cannot enforce (remote $ref, unknown keywords or formats, malformed keyword values, $ref
+// cycles that never step into the document), so a bad schema is refused when the actor is seeded instead of being half-applied.
+
+export class SchemaError extends Error {}
+
+export type ValidationError = {
+  path: string;      // JSON Pointer into the validated document ("" = root)
+  message: string;
+};
+
+export type Validator = (instance: unknown) => ValidationError[];
+
+type Schema = boolean | Record<string, any>;
+
+/** evaluated-location annotations used by unevaluatedProperties / unevaluatedItems */
+type Evaluated = { props: Set<string>; items: Set<number> };
+
+const DRAFT_2020_12 = "https://json-schema.org/draft/2020-12/schema";
+
+const TYPES = ["null", "boolean", "object", "array", "number", "integer", "string"];
+
+// keywords that only carry annotations
+const ANNOTATIONS = [
+  "$schema", "$id", "$comment", "$anchor", "$defs", "definitions",
+  "title", "description", "default", "deprecated", "readOnly", "writeOnly", "examples",
+  "contentEncoding", "contentMediaType", "contentSchema"
+];
+
+const APPLICATORS = [
+  "$ref", "allOf", "anyOf", "oneOf", "not", "if", "then", "else",
+  "properties", "patternProperties", "additionalProperties", "propertyNames", "dependentSchemas",
+  "prefixItems", "items", "contains", "unevaluatedProperties", "unevaluatedItems"
+];
+
+const ASSERTIONS = [
+  "type", "enum", "const",
+  "multipleOf", "maximum", "exclusiveMaximum", "minimum", "exclusiveMinimum",
+  "maxLength", "minLength", "pattern", "format",
+  "maxItems", "minItems", "uniqueItems", "maxContains", "minContains",
+  "maxProperties", "minProperties", "required", "dependentRequired"
+];
+
+const KNOWN_KEYWORDS = new Set([...ANNOTATIONS, ...APPLICATORS, ...ASSERTIONS]);
+
+const isObject = (v: unknown): v is Record<string, any> =>
+  v !== null && typeof v === "object" && !Array.isArray(v);
+
+const isNonNegInt = (v: unknown) => typeof v === "number" && Number.isInteger(v) && v >= 0;
+
+const deepEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((v, i) => deepEqual(v, b[i]));
+  if (isObject(a) && isObject(b)) {
+    const ka = Object.keys(a);
+    return ka.length === Object.keys(b).length && ka.every(k => k in b && deepEqual(a[k], b[k]));
+  }
+  return false;
+};
+
+const escapeToken = (t: string | number) => String(t).replace(/~/g, "~0").replace(/\//g, "~1");
+const child = (ptr: string, t: string | number) => `${ptr}/${escapeToken(t)}`;
+
+const typeOf = (v: unknown): string => {
+  if (v === null) return "null";
+  if (Array.isArray(v)) return "array";
+  if (typeof v === "number") return Number.isInteger(v) ? "integer" : "number";
+  return typeof v;
+};
+
+const matchesType = (v: unknown, t: string) => {
+  const actual = typeOf(v);
+  return actual === t || (t === "number" && actual === "integer");
+};
+
+const DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME = /^([01]\d|2[0-3]):([0-5]\d):([0-5]\d|60)(\.\d+)?(z|[+-]([01]\d|2[0-3]):[0-5]\d)$/i;
+
+const validDate = (s: string) => {
+  const m = DATE.exec(s);
+  if (!m) return false;
+  const [y, mo, d] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  const days = [31, y % 4 === 0 && (y % 100 !== 0 || y % 400 === 0) ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+  return mo >= 1 && mo <= 12 && d >= 1 && d <= days[mo - 1];
+};
+
+const FORMATS: Record<string, (s: string) => boolean> = {
+  "date-time": s => {
+    const i = s.search(/t/i);
+    return i > 0 && validDate(s.slice(0, i)) && TIME.test(s.slice(i + 1));
+  },
+  date: validDate,
+  time: s => TIME.test(s),
+  duration: s => /^P(?!$)(\d+Y)?(\d+M)?(\d+W)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+S)?)?$/.test(s),
+  email: s => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(s),
+  hostname: s =>
+    s.length <= 253 && s.split(".").every(l => /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i.test(l)),
+  ipv4: s => /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/.test(s),
+  ipv6: s => {
+    if (!/^[0-9a-f:.]+$/i.test(s) || !s.includes(":")) return false;
+    try {
+      new URL(`http://[${s}]/`);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  uri: s => /^[a-z][a-z0-9+.-]*:[^\s]*$/i.test(s),
+  "uri-reference": s => !/\s/.test(s),
+  iri: s => /^[a-z][a-z0-9+.-]*:[^\s]*$/i.test(s),
+  "iri-reference": s => !/\s/.test(s),
+  uuid: s => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(s),
+  regex: s => {
+    try {
+      new RegExp(s, "u");
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  "json-pointer": s => /^(\/([^~/]|~[01])*)*$/.test(s),
+  "relative-json-pointer": s => /^(0|[1-9]\d*)(#|(\/([^~/]|~[01])*)*)$/.test(s)
+};
+
+export function compileSchema(root: unknown): Validator {
+  const regexes = new Map<string, RegExp>();
+  const anchors = new Map<string, Schema>();
+
+  const regex = (source: string, at: string) => {
+    let re = regexes.get(source);
+    if (!re) {
+      try {
+        re = new RegExp(source, "u");
+      } catch {
+        throw new SchemaError(`${at}: invalid regular expression ${JSON.stringify(source)}`);
+      }
+      regexes.set(source, re);
+    }
+    return re;
+  };
+
+  /** resolve a local JSON Pointer ("#/$defs/x") or anchor ("#name") reference */
+  const resolve = (ref: string, at: string): Schema => {
+    if (!ref.startsWith("#")) throw new SchemaError(`${at}: only local $ref ("#...") is supported, got ${ref}`);
+    const frag = decodeURIComponent(ref.slice(1));
+    if (frag && !frag.startsWith("/")) {
+      const target = anchors.get(frag);
+      if (target === undefined) throw new SchemaError(`${at}: unknown $anchor ${ref}`);
+      return target;
+    }
+    let node: any = root;
+    for (const token of frag.split("/").slice(1).map(t => t.replace(/~1/g, "/").replace(/~0/g, "~"))) {
+      node = node != null && typeof node === "object" ? node[token] : undefined;
+      if (node === undefined) throw new SchemaError(`${at}: unresolvable $ref ${ref}`);
+    }
+    if (typeof node !== "boolean" && !isObject(node)) throw new SchemaError(`${at}: $ref ${ref} is not a schema`);
+    return node;
+  };
+
+  // ---- compile-time checks -------------------------------------------------
+
+  const collectAnchors = (s: unknown) => {
+    if (Array.isArray(s)) return s.forEach(collectAnchors);
+    if (!isObject(s)) return;
+    if (typeof s.$anchor === "string") anchors.set(s.$anchor, s);
+    Object.values(s).forEach(collectAnchors);
+  };
+
+  /** every object subschema and where it sits, for the cycle check */
+  const locations = new Map<Record<string, any>, string>();
+
+  const checkSchema = (s: unknown, at: string) => {
+    if (typeof s === "boolean") return;
+    if (!isObject(s)) throw new SchemaError(`${at}: schema must be an object or boolean`);
+    locations.set(s, at);
+
+    for (const [k, v] of Object.entries(s)) {
+      const here = `${at}/${escapeToken(k)}`;
+      if (k.startsWith("x-")) continue;
+      if (k === "nullable") throw new SchemaError(`${here}: "nullable" is not JSON Schema; use "type": [..., "null"]`);
+      if (!KNOWN_KEYWORDS.has(k)) throw new SchemaError(`${here}: unsupported keyword`);
+
+      switch (k) {
+        case "$schema":
+          if (typeof v !== "string" || v.replace(/#$/, "") !== DRAFT_2020_12) {
+            throw new SchemaError(`${here}: only ${DRAFT_2020_12} is supported`);
+          }
+          break;
+        case "$id":
+          if (at !== "") throw new SchemaError(`${here}: embedded $id is not supported`);
+          break;
+        case "$anchor":
+          if (typeof v !== "string" || !/^[A-Za-z_][A-Za-z0-9._-]*$/.test(v)) throw new SchemaError(`${here}: invalid anchor`);
+          break;
+        case "$ref":
+          if (typeof v !== "string") throw new SchemaError(`${here}: must be a string`);
+          resolve(v, here);
+          break;
+        case "$defs":
+        case "definitions":
+        case "properties":
+        case "patternProperties":
+        case "dependentSchemas":
+          if (!isObject(v)) throw new SchemaError(`${here}: must be an object`);
+          for (const [name, sub] of Object.entries(v)) {
+            if (k === "patternProperties") regex(name, here);
+            checkSchema(sub, `${here}/${escapeToken(name)}`);
+          }
+          break;
+        case "allOf":
+        case "anyOf":
+        case "oneOf":
+        case "prefixItems":
+          if (!Array.isArray(v) || !v.length) throw new SchemaError(`${here}: must be a non-empty array`);
+          v.forEach((sub, i) => checkSchema(sub, `${here}/${i}`));
+          break;
+        case "items":
+          if (Array.isArray(v)) throw new SchemaError(`${here}: array form is not 2020-12; use "prefixItems"`);
+          checkSchema(v, here);
+          break;
+        case "not":
+        case "if":
+        case "then":
+        case "else":
+        case "additionalProperties":
+        case "propertyNames":
+        case "contains":
+        case "unevaluatedProperties":
+        case "unevaluatedItems":
+        case "contentSchema":
+          checkSchema(v, here);
+          break;
+        case "type": {
+          const list = Array.isArray(v) ? v : [v];
+          if (!list.length || list.some(t => !TYPES.includes(t))) throw new SchemaError(`${here}: invalid type ${JSON.stringify(v)}`);
+          break;
+        }
+        case "enum":
+          if (!Array.isArray(v)) throw new SchemaError(`${here}: must be an array`);
+          break;
+        case "multipleOf":
+          if (typeof v !== "number" || v <= 0) throw new SchemaError(`${here}: must be a number > 0`);
+          break;
+        case "maximum":
+        case "exclusiveMaximum":
+        case "minimum":
+        case "exclusiveMinimum":
+          if (typeof v !== "number") throw new SchemaError(`${here}: must be a number`);
+          break;
+        case "maxLength":
+        case "minLength":
+        case "maxItems":
+        case "minItems":
+        case "maxContains":
+        case "minContains":
+        case "maxProperties":
+        case "minProperties":
+          if (!isNonNegInt(v)) throw new SchemaError(`${here}: must be a non-negative integer`);
+          break;
+        case "pattern":
+          if (typeof v !== "string") throw new SchemaError(`${here}: must be a string`);
+          regex(v, here);
+          break;
+        case "format":
+          if (typeof v !== "string" || !FORMATS[v]) throw new SchemaError(`${here}: unsupported format ${JSON.stringify(v)}`);
+          break;
+        case "uniqueItems":
+        case "deprecated":
+        case "readOnly":
+        case "writeOnly":
+          if (typeof v !== "boolean") throw new SchemaError(`${here}: must be a boolean`);
+          break;
+        case "required":
+          if (!Array.isArray(v) || v.some(p => typeof p !== "string")) throw new SchemaError(`${here}: must be an array of strings`);
+          break;
+        case "dependentRequired":
+          if (!isObject(v) || Object.values(v).some(l => !Array.isArray(l) || l.some(p => typeof p !== "string"))) {
+            throw new SchemaError(`${here}: must map property names to arrays of strings`);
+          }
+          break;
+      }
+    }
+  };
+
+  /** subschemas applied to the same instance as `s` */
+  const inPlace = (s: Record<string, any>): Schema[] => [
+    ...(typeof s.$ref === "string" ? [resolve(s.$ref, "")] : []),
+    ...["allOf", "anyOf", "oneOf"].flatMap(k => s[k] ?? []),
+    ...["not", "if", "then", "else"].flatMap(k => (s[k] === undefined ? [] : [s[k]])),
+    ...Object.values<Schema>(s.dependentSchemas ?? {})
+  ];
+
+  // {"$ref": "#"} at the root, or $defs that refer to each other in place, would recurse on any document forever
+  const checkCycles = () => {
+    const state = new Map<Record<string, any>, "open" | "done">();
+    const visit = (s: Record<string, any>) => {
+      state.set(s, "open");
+      for (const sub of inPlace(s)) {
+        if (!isObject(sub)) continue;
+        if (state.get(sub) === "open") {
+          throw new SchemaError(`${locations.get(s)}: $ref cycle back to #${locations.get(sub)} never moves into the document`);
+        }
+        if (!state.has(sub)) visit(sub);
+      }
+      state.set(s, "done");
+    };
+    for (const s of locations.keys()) if (!state.has(s)) visit(s);
+  };
+
+  collectAnchors(root);
+  checkSchema(root, "");
+  checkCycles();
+
+  // ---- validation ----------------------------------------------------------
+
+  const merge = (into: Evaluated, from: Evaluated) => {
+    from.props.forEach(p => into.props.add(p));
+    from.items.forEach(i => into.items.add(i));
+  };
+
+  const run = (schema: Schema, inst: unknown, ptr: string, errors: ValidationError[]): Evaluated => {
+    const ev: Evaluated = { props: new Set(), items: new Set() };
+    if (schema === true) return ev;
+    if (schema === false) {
+      errors.push({ path: ptr, message: "no value is allowed here" });
+      return ev;
+    }
+    const s = schema as Record<string, any>;
+    const fail = (message: string, path = ptr) => errors.push({ path, message });
+    /** validate against a subschema in isolation; annotations are kept only if it passes */
+    const trial = (sub: Schema, value: unknown = inst, at = ptr) => {
+      const errs: ValidationError[] = [];
+      const sev = run(sub, value, at, errs);
+      return { ok: errs.length === 0, errs, ev: sev };
+    };
+    /** in-place subschema: its annotations count for this instance */
+    const apply = (sub: Schema) => {
+      const r = trial(sub);
+      errors.push(...r.errs);
+      if (r.ok) merge(ev, r.ev);
+      return r.ok;
+    };
+    /** subschema for a property or item */
+    const applyChild = (sub: Schema, value: unknown, at: string) => {
+      const r = trial(sub, value, at);
+      errors.push(...r.errs);
+      return r.ok;
+    };
+
+    // in-place applicators
+    if (s.$ref !== undefined) apply(resolve(s.$ref, ptr));
+    if (s.allOf) s.allOf.forEach((sub: Schema) => apply(sub));
+    if (s.anyOf) {
+      const passing = s.anyOf.map((sub: Schema) => trial(sub)).filter((r: any) => r.ok);
+      if (!passing.length) fail("must match at least one schema in anyOf");
+      passing.forEach((r: any) => merge(ev, r.ev));
+    }
+    if (s.oneOf) {
+      const passing = s.oneOf.map((sub: Schema) => trial(sub)).filter((r: any) => r.ok);
+      if (passing.length !== 1) fail(`must match exactly one schema in oneOf (matched ${passing.length})`);
+      else merge(ev, passing[0].ev);
+    }
+    if (s.not !== undefined && trial(s.not).ok) fail("must not match the schema in not");
+    if (s.if !== undefined) {
+      const cond = trial(s.if);
+      if (cond.ok) {
+        merge(ev, cond.ev);
+        if (s.then !== undefined) apply(s.then);
+      } else if (s.else !== undefined) {
+        apply(s.else);
+      }
+    }
+
+    // any instance
+    if (s.type !== undefined) {
+      const types: string[] = Array.isArray(s.type) ? s.type : [s.type];
+      if (!types.some(t => matchesType(inst, t))) fail(`must be ${types.join(" or ")}`);
+    }
+    if (s.enum && !s.enum.some((v: unknown) => deepEqual(v, inst))) fail(`must be one of ${JSON.stringify(s.enum)}`);
+    if ("const" in s && !deepEqual(s.const, inst)) fail(`must be ${JSON.stringify(s.const)}`);
+
+    if (typeof inst === "number") {
+      if (s.multipleOf !== undefined) {
+        const q = inst / s.multipleOf;
+        if (Math.abs(q - Math.round(q)) > 1e-9) fail(`must be a multiple of ${s.multipleOf}`);
+      }
+      if (s.maximum !== undefined && inst > s.maximum) fail(`must be <= ${s.maximum}`);
+      if (s.exclusiveMaximum !== undefined && inst >= s.exclusiveMaximum) fail(`must be < ${s.exclusiveMaximum}`);
+      if (s.minimum !== undefined && inst < s.minimum) fail(`must be >= ${s.minimum}`);
+      if (s.exclusiveMinimum !== undefined && inst <= s.exclusiveMinimum) fail(`must be > ${s.exclusiveMinimum}`);
+    }
+
+    if (typeof inst === "string") {
+      const len = [...inst].length;
+      if (s.maxLength !== undefined && len > s.maxLength) fail(`must be at most ${s.maxLength} characters`);
+      if (s.minLength !== undefined && len < s.minLength) fail(`must be at least ${s.minLength} characters`);
+      if (s.pattern !== undefined && !regexes.get(s.pattern)!.test(inst)) fail(`must match pattern ${s.pattern}`);
+      if (s.format !== undefined && !FORMATS[s.format](inst)) fail(`must be a valid ${s.format}`);
+    }
+
+    if (Array.isArray(inst)) {
+      const prefix: Schema[] = s.prefixItems ?? [];
+      prefix.forEach((sub, i) => {
+        if (i < inst.length && applyChild(sub, inst[i], child(ptr, i))) ev.items.add(i);
+      });
+      if (s.items !== undefined) {
+        for (let i = prefix.length; i < inst.length; i++) {
+          if (applyChild(s.items, inst[i], child(ptr, i))) ev.items.add(i);
+        }
+      }
+      if (s.contains !== undefined) {
+        const matched = inst.map((v, i) => (trial(s.contains, v, child(ptr, i)).ok ? i : -1)).filter(i => i >= 0);
+        matched.forEach(i => ev.items.add(i));
+        const min = s.minContains ?? 1;
+        if (matched.length < min) fail(`must contain at least ${min} matching item(s)`);
+        if (s.maxContains !== undefined && matched.length > s.maxContains) fail(`must contain at most ${s.maxContains} matching item(s)`);
+      }
+      if (s.maxItems !== undefined && inst.length > s.maxItems) fail(`must have at most ${s.maxItems} items`);
+      if (s.minItems !== undefined && inst.length < s.minItems) fail(`must have at least ${s.minItems} items`);
+      if (s.uniqueItems && inst.some((v, i) => inst.findIndex(w => deepEqual(v, w)) !== i)) fail("must not contain duplicate items");
+    }
+
+    if (isObject(inst)) {
+      const keys = Object.keys(inst);
+      const props: Record<string, Schema> = s.properties ?? {};
+      const patterns = Object.keys(s.patternProperties ?? {});
+      for (const k of keys) {
+        let covered = false;
+        if (k in props) {
+          covered = true;
+          if (applyChild(props[k], inst[k], child(ptr, k))) ev.props.add(k);
+        }
+        for (const p of patterns) {
+          if (!regexes.get(p)!.test(k)) continue;
+          covered = true;
+          if (applyChild(s.patternProperties[p], inst[k], child(ptr, k))) ev.props.add(k);
+        }
+        if (!covered && s.additionalProperties !== undefined) {
+          if (s.additionalProperties === false) fail("is not an allowed property", child(ptr, k));
+          else if (applyChild(s.additionalProperties, inst[k], child(ptr, k))) ev.props.add(k);
+        }
+        if (s.propertyNames !== undefined && !trial(s.propertyNames, k, child(ptr, k)).ok) {
+          fail("property name does not match propertyNames", child(ptr, k));
+        }
+      }
+      for (const r of s.required ?? []) {
+        if (!(r in inst)) fail("is required", child(ptr, r));
+      }
+      for (const [k, deps] of Object.entries<string[]>(s.dependentRequired ?? {})) {
+        if (!(k in inst)) continue;
+        for (const d of deps) if (!(d in inst)) fail(`is required when ${k} is present`, child(ptr, d));
+      }
+      for (const [k, sub] of Object.entries<Schema>(s.dependentSchemas ?? {})) {
+        if (k in inst) apply(sub);
+      }
+      if (s.maxProperties !== undefined && keys.length > s.maxProperties) fail(`must have at most ${s.maxProperties} properties`);
+      if (s.minProperties !== undefined && keys.length < s.minProperties) fail(`must have at least ${s.minProperties} properties`);
+
+      if (s.unevaluatedProperties !== undefined) {
+        for (const k of keys) {
+          if (ev.props.has(k)) continue;
+          if (s.unevaluatedProperties === false) fail("is not an allowed property", child(ptr, k));
+          else if (applyChild(s.unevaluatedProperties, inst[k], child(ptr, k))) ev.props.add(k);
+        }
+      }
+    }
+
+    if (Array.isArray(inst) && s.unevaluatedItems !== undefined) {
+      inst.forEach((v, i) => {
+        if (ev.items.has(i)) return;
+        if (s.unevaluatedItems === false) fail("is not an allowed item", child(ptr, i));
+        else if (applyChild(s.unevaluatedItems, v, child(ptr, i))) ev.items.add(i);
+      });
+    }
+
+    return ev;
+  };
+
+  return instance => {
+    const errors: ValidationError[] = [];
+    run(root as Schema, instance, "", errors);
+    return errors;
+  };
+}
@@ -0,0 +1,262 @@
+// src/mcp.ts
+// Model Context Protocol endpoint for a pod: POST /pods/{podName}/mcp (Streamable HTTP, JSON-RPC 2.0).
+//
+// Every actor in the pod contributes tools built from its OpenAPI document, one per operation and
+// named by its operationId (list_items, store_item, get_response, search_embeddings ...). When several
+// actors offer the same operation, each name gets the actor's id prefix: list_items_1a2b3c4d.
+// A tool call is dispatched into the actor under the caller's own scopes, and tools the caller
+// may not use are not listed. Actor configs and OpenAPI documents are resources:
+//
+//   paseo://pods/{podName}/actors/{actorId}/config
+//   paseo://pods/{podName}/actors/{actorId}/openapi
+//
+// The server keeps no session state and answers every POST with plain JSON (no SSE stream).
+
+import type { ActorInfo } from "./pod-registry";
+
+export const PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26"];
+const SERVER_INFO = { name: "paseo-core", version: "0.1.5" };
+const HTTP_METHODS = ["get", "post", "put", "patch", "delete"] as const;
+
+/** what the endpoint needs from the router */
+export type McpPod = {
+  podName: string;
+  actors(): Promise<ActorInfo[]>;
+  /** a request into one actor; `path` is below the actor, e.g. "/items?limit=5" */
+  fetchActor(actorId: string, path: string, init?: RequestInit): Promise<Response>;
+  /** whether the caller's key may send `method` to the actor path */
+  allowed(method: string, actorId: string, path: string): boolean;
+};
+
+type Tool = {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  actorId: string;
+  method: string;
+  path: string;                                  // template below the actor, e.g. "/items/{itemId}"
+  params: { name: string; in: string }[];
+  body: { contentType: string; json: boolean } | null;
+};
+
+class RpcError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+  }
+}
+
+const rpcResult = (id: unknown, result: unknown) => ({ jsonrpc: "2.0", id, result });
+const rpcError = (id: unknown, code: number, message: string) => ({ jsonrpc: "2.0", id: id ?? null, error: { code, message } });
+
+/** fallback tool name for operations without an operationId: "post_items_batch" */
+const slug = (method: string, path: string) =>
+  [method, ...path.split("/").filter(s => s && !s.startsWith("{"))].join("_").replace(/[^A-Za-z0-9_-]+/g, "_");
+
+/** Tools for every operation of every actor in the pod that the caller may use */
+async function podTools(pod: McpPod): Promise<Tool[]> {
+  const found: (Omit<Tool, "name"> & { id: string })[] = [];
+  for (const actor of await pod.actors()) {
+    const res = await pod.fetchActor(actor.actorId, "/openapi.json");
+    if (!res.ok) continue;
+    const doc = await res.json<any>();
+    const base = `/pods/${pod.podName}/actors/${actor.actorId}`;
+
+    for (const [fullPath, item] of Object.entries<any>(doc.paths ?? {})) {
+      const path = fullPath.startsWith(base) ? fullPath.slice(base.length) : fullPath;
+      for (const method of HTTP_METHODS) {
+        const op = item?.[method];
+        if (!op || !pod.allowed(method.toUpperCase(), actor.actorId, path)) continue;
+
+        const properties: Record<string, unknown> = {};
+        const required: string[] = [];
+        const params = (op.parameters ?? []).filter((p: any) => ["path", "query", "header"].includes(p.in));
+        for (const p of params) {
+          properties[p.name] = { ...p.schema, ...(p.description ? { description: p.description } : {}) };
+          if (p.required) required.push(p.name);
+        }
+        let body: Tool["body"] = null;
+        const content = op.requestBody?.content;
+        if (content) {
+          const contentType = Object.keys(content)[0];
+          const json = contentType.includes("json");
+          body = { contentType, json };
+          properties.body = json
+            ? { ...content[contentType].schema }
+            : { type: "string", description: `raw ${contentType} request body` };
+          if (op.requestBody.required) required.push("body");
+        }
+
+        found.push({
+          id: op.operationId ?? slug(method, path),
+          description: [op.summary, op.description].filter(Boolean).join(". ") +
+            ` (${actor.actorType}.${actor.version} actor ${actor.actorId})`,
+          inputSchema: { type: "object", properties, ...(required.length ? { required } : {}) },
+          actorId: actor.actorId,
+          method: method.toUpperCase(),
+          path,
+          params: params.map((p: any) => ({ name: p.name, in: p.in })),
+          body
+        });
+      }
+    }
+  }
+
+  const counts = new Map<string, number>();
+  for (const t of found) counts.set(t.id, (counts.get(t.id) ?? 0) + 1);
+  return found.map(({ id, ...t }) => ({
+    ...t,
+    name: counts.get(id)! > 1 ? `${id}_${t.actorId.replace(/-/g, "").slice(0, 8)}` : id
+  }));
+}
+
+/** Dispatch a tool call into its actor; HTTP errors come back as isError results */
+async function callTool(pod: McpPod, tool: Tool, args: Record<string, unknown>) {
+  for (const name of (tool.inputSchema.required as string[] | undefined) ?? []) {
+    if (args[name] === undefined) throw new RpcError(-32602, `${tool.name}: missing argument '${name}'`);
+  }
+
+  let path = tool.path;
+  const query = new URLSearchParams();
+  const headers: Record<string, string> = {};
+  for (const p of tool.params) {
+    const v = args[p.name];
+    if (v === undefined || v === null) continue;
+    const value = Array.isArray(v) ? v.join(",") : String(v);
+    if (p.in === "path") path = path.replace(`{${p.name}}`, encodeURIComponent(value));
+    else if (p.in === "query") query.set(p.name, value);
+    else headers[p.name] = value;
+  }
+  let body: string | undefined;
+  if (tool.body && args.body !== undefined) {
+    headers["Content-Type"] = tool.body.contentType;
+    body = tool.body.json || typeof args.body !== "string" ? JSON.stringify(args.body) : args.body;
+  }
+
+  const res = await pod.fetchActor(tool.actorId, path + (query.size ? `?${query}` : ""), { method: tool.method, headers, body });
+  const text = await res.text();
+  let structured: unknown;
+  if (res.ok && res.headers.get("Content-Type")?.includes("json")) {
+    try {
+      structured = JSON.parse(text);
+    } catch {
+      // keep the text only
+    }
+  }
+  return {
+    content: [{ type: "text", text: text || `HTTP ${res.status}` }],
+    ...(structured && typeof structured === "object" && !Array.isArray(structured) ? { structuredContent: structured } : {}),
+    isError: !res.ok
+  };
+}
+
+const resourceUri = (pod: McpPod, actorId: string, kind: "config" | "openapi") =>
+  `paseo://pods/${pod.podName}/actors/${actorId}/${kind}`;
+
+async function listResources(pod: McpPod) {
+  const resources = [];
+  for (const a of await pod.actors()) {
+    if (!pod.allowed("GET", a.actorId, "/")) continue;
+    resources.push(
+      {
+        uri: resourceUri(pod, a.actorId, "config"),
+        name: `${a.actorId} config`,
+        description: `Config of the ${a.actorType}.${a.version} actor ${a.actorId} (schema, indexes, params)`,
+        mimeType: "application/json"
+      },
+      {
+        uri: resourceUri(pod, a.actorId, "openapi"),
+        name: `${a.actorId} OpenAPI`,
+        description: `HTTP API of the ${a.actorType}.${a.version} actor ${a.actorId}`,
+        mimeType: "application/json"
+      }
+    );
+  }
+  return { resources };
+}
+
+async function readResource(pod: McpPod, uri: unknown) {
+  const m = typeof uri === "string" ? /^paseo:\/\/pods\/([^/]+)\/actors\/([^/]+)\/(config|openapi)$/.exec(uri) : null;
+  const actor = m && m[1] === pod.podName ? (await pod.actors()).find(a => a.actorId === m[2]) : undefined;
+  if (!m || !actor || !pod.allowed("GET", actor.actorId, "/")) throw new RpcError(-32002, `resource not found: ${uri}`);
+
+  const res = await pod.fetchActor(actor.actorId, m[3] === "config" ? "/config" : "/openapi.json");
+  if (!res.ok) throw new RpcError(-32603, `reading ${uri} failed with HTTP ${res.status}`);
+  return { contents: [{ uri, mimeType: "application/json", text: await res.text() }] };
+}
+
+/** Answer one JSON-RPC request */
+async function dispatch(pod: McpPod, method: string, params: any): Promise<unknown> {
+  switch (method) {
+    case "initialize": {
+      const requested = params?.protocolVersion;
+      return {
+        protocolVersion: PROTOCOL_VERSIONS.includes(requested) ? requested : PROTOCOL_VERSIONS[0],
+        capabilities: { tools: { listChanged: false }, resources: { listChanged: false } },
+        serverInfo: SERVER_INFO,
+        instructions: `Tools and resources for the actors in pod ${pod.podName}. Each tool calls one actor's HTTP API.`
+      };
+    }
+    case "ping":
+      return {};
+    case "tools/list":
+      return { tools: (await podTools(pod)).map(({ name, description, inputSchema }) => ({ name, description, inputSchema })) };
+    case "tools/call": {
+      const tool = (await podTools(pod)).find(t => t.name === params?.name);
+      if (!tool) throw new RpcError(-32602, `unknown tool: ${params?.name}`);
+      const args = params.arguments ?? {};
+      if (typeof args !== "object" || Array.isArray(args)) throw new RpcError(-32602, "arguments must be an object");
+      return callTool(pod, tool, args);
+    }
+    case "resources/list":
+      return listResources(pod);
+    case "resources/templates/list":
+      return { resourceTemplates: [] };
+    case "resources/read":
+      return readResource(pod, params?.uri);
+    default:
+      throw new RpcError(-32601, `method not found: ${method}`);
+  }
+}
+
+/** POST /pods/{podName}/mcp; GET / DELETE get 405 since there is no server stream or session */
+export async function handleMcp(req: Request, pod: McpPod): Promise<Response> {
+  if (req.method !== "POST") {
+    return Response.json({ error: "method_not_allowed", message: "the MCP endpoint takes JSON-RPC messages by POST" }, {
+      status: 405,
+      headers: { Allow: "POST" }
+    });
+  }
+  const version = req.headers.get("MCP-Protocol-Version");
+  if (version && !PROTOCOL_VERSIONS.includes(version)) {
+    return Response.json(rpcError(null, -32600, `unsupported MCP-Protocol-Version ${version}`), { status: 400 });
+  }
+
+  let payload: unknown;
+  try {
+    payload = await req.json();
+  } catch {
+    return Response.json(rpcError(null, -32700, "parse error"), { status: 400 });
+  }
+  const batch = Array.isArray(payload);
+  const messages = batch ? (payload as unknown[]) : [payload];
+  if (!messages.length) return Response.json(rpcError(null, -32600, "empty batch"), { status: 400 });
+
+  const replies = [];
+  for (const msg of messages as any[]) {
+    if (!msg || typeof msg !== "object" || msg.jsonrpc !== "2.0") {
+      replies.push(rpcError(msg?.id, -32600, "invalid request"));
+      continue;
+    }
+    // notifications (no id) and responses from the client need no reply
+    if (typeof msg.method !== "string" || msg.id === undefined) continue;
+    try {
+      replies.push(rpcResult(msg.id, await dispatch(pod, msg.method, msg.params)));
+    } catch (e) {
+      if (!(e instanceof RpcError)) throw e;
+      replies.push(rpcError(msg.id, e.code, e.message));
+    }
+  }
+
+  if (!replies.length) return new Response(null, { status: 202 });
+  return Response.json(batch ? replies : replies[0]);
+}
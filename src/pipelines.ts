@@ -0,0 +1,314 @@
+// src/pipelines.ts
+// Actor-to-actor pipelines: forward accepted writes to sibling actors in the same pod.
+//
+// An actor's config lists downstream actors under `pipelines`. Each pipeline keeps a cursor into
+// the change log (changeFeed.ts); matching changes are projected into request bodies and written to
+// a durable outbox, which the storage alarm drains by POSTing to the target through ACTOR_DO.
+// Delivery is at-least-once and in order per pipeline: a failed send is retried with backoff and
+// holds back the entries after it. A target that refuses an entry (4xx) gets the next one; the
+// refused entry is kept for GET .../pipelines.
+//
+//   "pipelines": [{
+//     "name": "tool-calls", "target": "{actorId}", "route": "items",
+//     "select": "output[*]", "where": { "type": "function_call" },
+//     "fields": { "call_id": "call_id", "name": "name", "arguments": "arguments", "response_id": "$.id" }
+//   }]
+
+import { changeLogBounds, checkChangeFilter, readChanges, type ChangeEvent, type ChangeOp } from "./changeFeed";
+import { filterQueryParams, type ListSpec } from "./handlers/listQuery";
+import { backoff } from "./webhooks";
+
+export type PipelineConfig = {
+  name: string;                      // unique within the actor; shown in GET .../pipelines
+  target: string;                    // actorId of a sibling in the same pod
+  route?: string;                    // collection on the target that takes POSTs (default "items")
+  ops?: ChangeOp[];                  // "insert" / "update" (default both)
+  filter?: Record<string, unknown>;  // on the source's list columns and indexes, like webhook filters
+  select?: string;                   // forward this part of the document; "[*]" fans out arrays, e.g. "output[*].content[*]"
+  where?: Record<string, unknown>;   // keep selected values whose paths equal the value (or one of an array of values)
+  fields?: Record<string, string>;   // build the body from paths of the selected value; "$." paths start at the document,
+                                     // dotted names nest ("metadata.source")
+};
+
+/** outbox entries sent per pipeline per alarm run */
+const SENDS_PER_RUN = 100;
+/** refused entries kept per pipeline for inspection */
+const REJECTED_KEPT = 100;
+/** change events read per query while enqueueing */
+const ENQUEUE_BATCH = 500;
+
+export function ensurePipelineTables(db: SqlStorage) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS pipelines(
+      name TEXT PRIMARY KEY,
+      cursor INTEGER NOT NULL,
+      delivered INTEGER NOT NULL DEFAULT 0,
+      rejected INTEGER NOT NULL DEFAULT 0,
+      last_delivered_at INTEGER,
+      last_error TEXT,
+      last_status INTEGER,
+      last_error_at INTEGER
+    );
+  `);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS pipeline_outbox(
+      id TEXT PRIMARY KEY,
+      pipeline TEXT NOT NULL,
+      seq INTEGER NOT NULL,
+      body TEXT NOT NULL,
+      status TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at INTEGER,
+      last_status INTEGER,
+      last_error TEXT,
+      created_at INTEGER NOT NULL
+    );
+  `);
+  db.exec("CREATE INDEX IF NOT EXISTS idx_pipeline_outbox_pending ON pipeline_outbox(pipeline, status, seq)");
+}
+
+/** every value at `path`; "name[*]" steps into each array element, "name[0]" into one */
+export function selectPath(value: unknown, path: string): unknown[] {
+  let values = [value];
+  for (const segment of path.split(".").filter(Boolean)) {
+    const m = /^([^[\]]*)((?:\[(?:\*|\d+)\])*)$/.exec(segment);
+    if (!m) return [];
+    const next: unknown[] = [];
+    for (const v of values) {
+      let current: unknown[] = [m[1] ? (v && typeof v === "object" ? (v as any)[m[1]] : undefined) : v];
+      for (const [, index] of m[2].matchAll(/\[(\*|\d+)\]/g)) {
+        current = current.flatMap(c => !Array.isArray(c) ? [] : index === "*" ? c : [c[Number(index)]]);
+      }
+      next.push(...current.filter(c => c !== undefined));
+    }
+    values = next;
+  }
+  return values;
+}
+
+const pathValue = (doc: unknown, selected: unknown, path: string) =>
+  path.startsWith("$.") ? selectPath(doc, path.slice(2))[0] : selectPath(selected, path)[0];
+
+/** request bodies a change produces for a pipeline (none when the projection filters it out) */
+export function project(p: PipelineConfig, change: ChangeEvent): unknown[] {
+  if (change.doc == null || !(p.ops ?? ["insert", "update"]).includes(change.op)) return [];
+  const doc = change.doc;
+  return (p.select ? selectPath(doc, p.select) : [doc])
+    .filter(v =>
+      Object.entries(p.where ?? {}).every(([path, want]) => {
+        const got = pathValue(doc, v, path);
+        return Array.isArray(want) ? want.includes(got) : got === want;
+      })
+    )
+    .map(v => {
+      if (!p.fields) return v;
+      const body: Record<string, any> = {};
+      for (const [key, path] of Object.entries(p.fields)) {
+        // dotted names nest: "metadata.source" -> { metadata: { source } }
+        const names = key.split(".");
+        const parent = names.slice(0, -1).reduce((o, k) => (o[k] ??= {}), body);
+        parent[names[names.length - 1]] = pathValue(doc, v, path) ?? null;
+      }
+      return body;
+    });
+}
+
+/** a route reaching the actor's internal endpoints (__seed, __destroy), which only the router may call */
+export const isInternalRoute = (route: string) => route.split("/").some(s => s.replace(/%5f/gi, "_").startsWith("__"));
+
+/** Check a config's pipelines against the source collection; throws Error with a message for invalid_config */
+export function checkPipelines(pipelines: unknown, spec: ListSpec | undefined, self: string) {
+  if (!Array.isArray(pipelines)) throw new Error("pipelines must be an array");
+  if (pipelines.length && !spec) throw new Error("this actor type has no change feed to forward");
+  const names = new Set<string>();
+  for (const p of pipelines as PipelineConfig[]) {
+    const label = `pipeline '${p?.name}'`;
+    if (!p || typeof p.name !== "string" || !/^[A-Za-z0-9_-]{1,64}$/.test(p.name)) {
+      throw new Error("pipeline names must be 1-64 letters, digits, '_' or '-'");
+    }
+    if (names.has(p.name)) throw new Error(`${label} is declared twice`);
+    names.add(p.name);
+    if (typeof p.target !== "string" || !p.target) throw new Error(`${label} needs a target actorId`);
+    if (p.target === self) throw new Error(`${label} cannot target its own actor`);
+    if (p.route != null && (typeof p.route !== "string" || !/^[A-Za-z0-9_:/-]+$/.test(p.route))) {
+      throw new Error(`${label} has an invalid route`);
+    }
+    if (p.route != null && isInternalRoute(p.route)) throw new Error(`${label}: route segments cannot start with "__"`);
+    if (p.ops != null && (!Array.isArray(p.ops) || !p.ops.length || !p.ops.every(op => op === "insert" || op === "update"))) {
+      throw new Error(`${label}: ops must list "insert" and/or "update"`);
+    }
+    if (p.select != null && typeof p.select !== "string") throw new Error(`${label}: select must be a path`);
+    for (const [key, value] of [["where", p.where], ["fields", p.fields]] as const) {
+      if (value != null && (typeof value !== "object" || Array.isArray(value))) throw new Error(`${label}: ${key} must be an object`);
+    }
+    if (p.fields && !Object.values(p.fields).every(v => typeof v === "string")) throw new Error(`${label}: fields map names to paths`);
+    try {
+      checkChangeFilter(filterQueryParams(p.filter, spec!).toString(), spec!);
+    } catch (e) {
+      throw new Error(`${label}: ${(e as Error).message}`);
+    }
+  }
+}
+
+/** Match the pipelines table to the config; new pipelines forward writes made from now on */
+export function syncPipelines(db: SqlStorage, pipelines: PipelineConfig[]) {
+  const names = pipelines.map(p => p.name);
+  for (const r of db.exec("SELECT name FROM pipelines").toArray()) {
+    if (names.includes(r.name as string)) continue;
+    db.exec("DELETE FROM pipeline_outbox WHERE pipeline = ?", r.name);
+    db.exec("DELETE FROM pipelines WHERE name = ?", r.name);
+  }
+  const { head } = changeLogBounds(db);
+  for (const name of names) db.exec("INSERT OR IGNORE INTO pipelines(name, cursor) VALUES (?, ?)", name, head);
+}
+
+/** Project new change-log entries into the outbox; synchronous, so it can run in one transaction */
+export function enqueuePipelines(db: SqlStorage, spec: ListSpec, pipelines: PipelineConfig[]): number {
+  let queued = 0;
+  const now = Date.now();
+  for (const p of pipelines) {
+    const state = db.exec("SELECT cursor FROM pipelines WHERE name = ?", p.name).toArray()[0];
+    if (!state) continue;
+    const query = filterQueryParams(p.filter, spec).toString();
+    let cursor = state.cursor as number;
+    for (;;) {
+      const page = readChanges(db, spec, query, cursor, ENQUEUE_BATCH);
+      for (const change of page.events) {
+        for (const body of project(p, change)) {
+          db.exec(
+            `INSERT INTO pipeline_outbox(id, pipeline, seq, body, status, next_attempt_at, created_at)
+             VALUES (?, ?, ?, ?, 'pending', ?, ?)`,
+            crypto.randomUUID(), p.name, change.seq, JSON.stringify(body), now, now
+          );
+          queued++;
+        }
+      }
+      cursor = page.cursor;
+      if (page.events.length < ENQUEUE_BATCH) break;
+    }
+    db.exec("UPDATE pipelines SET cursor = ? WHERE name = ?", cursor, p.name);
+  }
+  return queued;
+}
+
+/** the oldest pending entry of each pipeline; the ones behind it wait for it */
+const HEAD_ENTRIES = `
+  SELECT o.pipeline, o.next_attempt_at FROM pipeline_outbox o
+  WHERE o.status = 'pending' AND o.id = (
+    SELECT id FROM pipeline_outbox WHERE pipeline = o.pipeline AND status = 'pending' ORDER BY seq, created_at LIMIT 1)`;
+
+/** when the next pipeline send is due (unix ms), or null */
+export function nextPipelineAt(db: SqlStorage): number | null {
+  const r = db.exec(`SELECT MIN(next_attempt_at) AS at FROM (${HEAD_ENTRIES})`).toArray()[0];
+  return (r?.at as number | null) ?? null;
+}
+
+/** a refusal the target will repeat; anything else (5xx, timeouts, 408, 429) is retried */
+const refused = (status: number) => status >= 400 && status < 500 && status !== 408 && status !== 429;
+
+/**
+ * Send due outbox entries in order. `send` POSTs one body to the target's route and returns the
+ * response; `actorPath` (/pods/{podName}/actors/{actorId}) names the source in the X-Paseo-Pipeline header.
+ */
+export async function runPipelines(
+  db: SqlStorage,
+  pipelines: PipelineConfig[],
+  send: (p: PipelineConfig, body: string, headers: Record<string, string>) => Promise<Response>,
+  actorPath: string
+) {
+  const now = Date.now();
+  for (const p of pipelines) {
+    const entries = db.exec(
+      "SELECT id, seq, body, attempts, next_attempt_at FROM pipeline_outbox WHERE pipeline = ? AND status = 'pending' ORDER BY seq, created_at LIMIT ?",
+      p.name, SENDS_PER_RUN
+    ).toArray();
+
+    for (const entry of entries) {
+      // entries queue behind a failed one, so the first not-yet-due entry ends the run
+      if ((entry.next_attempt_at as number) > now) break;
+      let status: number | null = null;
+      let error: string | null = null;
+      try {
+        const res = await send(p, entry.body as string, {
+          "Content-Type": "application/json",
+          "Idempotency-Key": entry.id as string,
+          "X-Paseo-Pipeline": `${actorPath}#${p.name}`
+        });
+        status = res.status;
+        if (!res.ok) error = (await res.text().catch(() => "")).slice(0, 500) || `HTTP ${res.status}`;
+        else await res.body?.cancel();
+      } catch (e) {
+        error = e instanceof Error ? e.message : String(e);
+      }
+
+      const at = Date.now();
+      if (!error) {
+        db.exec("DELETE FROM pipeline_outbox WHERE id = ?", entry.id);
+        db.exec("UPDATE pipelines SET delivered = delivered + 1, last_delivered_at = ? WHERE name = ?", at, p.name);
+        continue;
+      }
+      db.exec("UPDATE pipelines SET last_error = ?, last_status = ?, last_error_at = ? WHERE name = ?", error, status, at, p.name);
+      const attempts = (entry.attempts as number) + 1;
+      if (status != null && refused(status)) {
+        db.exec(
+          "UPDATE pipeline_outbox SET status = 'rejected', attempts = ?, last_status = ?, last_error = ?, next_attempt_at = NULL WHERE id = ?",
+          attempts, status, error, entry.id
+        );
+        db.exec("UPDATE pipelines SET rejected = rejected + 1 WHERE name = ?", p.name);
+        db.exec(
+          `DELETE FROM pipeline_outbox WHERE pipeline = ? AND status = 'rejected' AND id NOT IN (
+             SELECT id FROM pipeline_outbox WHERE pipeline = ? AND status = 'rejected' ORDER BY seq DESC LIMIT ?)`,
+          p.name, p.name, REJECTED_KEPT
+        );
+        continue;
+      }
+      db.exec(
+        "UPDATE pipeline_outbox SET attempts = ?, last_status = ?, last_error = ?, next_attempt_at = ? WHERE id = ?",
+        attempts, status, error, at + backoff(attempts), entry.id
+      );
+      break;
+    }
+  }
+}
+
+/** GET .../pipelines: delivery state, lag and recent errors per configured pipeline */
+export function pipelineStatus(db: SqlStorage, pipelines: PipelineConfig[]) {
+  const { head } = changeLogBounds(db);
+  const now = Date.now();
+  return {
+    head_seq: head,
+    pipelines: pipelines.map(p => {
+      const s = db.exec("SELECT * FROM pipelines WHERE name = ?", p.name).toArray()[0] ?? {};
+      const pending = db.exec(
+        "SELECT COUNT(*) AS n, MIN(created_at) AS oldest, MIN(seq) AS seq FROM pipeline_outbox WHERE pipeline = ? AND status = 'pending'",
+        p.name
+      ).toArray()[0];
+      const next = db.exec(`SELECT next_attempt_at FROM (${HEAD_ENTRIES}) WHERE pipeline = ?`, p.name).toArray()[0];
+      const rejected = db.exec(
+        "SELECT seq, body, attempts, last_status, last_error, created_at FROM pipeline_outbox WHERE pipeline = ? AND status = 'rejected' ORDER BY seq DESC LIMIT 10",
+        p.name
+      ).toArray();
+      return {
+        name: p.name,
+        target: p.target,
+        route: p.route ?? "items",
+        cursor: s.cursor ?? null,
+        pending: pending.n,
+        oldest_pending_seq: pending.seq,
+        lag_ms: pending.oldest == null ? 0 : now - (pending.oldest as number),
+        next_attempt_at: next?.next_attempt_at ?? null,
+        delivered: s.delivered ?? 0,
+        rejected: s.rejected ?? 0,
+        last_delivered_at: s.last_delivered_at ?? null,
+        last_error: s.last_error == null ? null : { message: s.last_error, status: s.last_status, at: s.last_error_at },
+        recent_rejections: rejected.map(r => ({
+          seq: r.seq,
+          status: r.last_status,
+          error: r.last_error,
+          body: JSON.parse(r.body as string),
+          created_at: r.created_at
+        }))
+      };
+    })
+  };
+}
@@ -0,0 +1,264 @@
+// src/pod-registry.ts
+// Single Durable Object that records which pods exist and which actors belong to them.
+// The router consults it before creating or proxying to an ActorDO, so unknown
+// pods / actors get a 404 instead of a blank DO.
+//
+//   POST   /pods                        { labels?, owner? }  -> create
+//   GET    /pods                        ?limit=&after=       -> list
+//   GET    /pods/{podName}                                   -> describe
+//   DELETE /pods/{podName}                                   -> forget pod and its actors
+//   GET    /pods/{podName}/actors                            -> list actors
+//   POST   /pods/{podName}/actors/{actorId}  { actorType, version } -> register
+//   GET    /pods/{podName}/actors/{actorId}                  -> describe
+//   DELETE /pods/{podName}/actors/{actorId}                  -> forget actor
+//   POST   /pods/{podName}/keys         { name?, scopes }    -> issue an API key (returned once)
+//   GET    /pods/{podName}/keys                              -> list keys (no secrets)
+//   DELETE /pods/{podName}/keys/{keyId}                      -> revoke
+//   POST   /__verify                    { key }              -> principal for a pod key (router only)
+
+import { generateKey, hashKey, isScope, keyIdOf, type Principal, type Scope } from "./auth";
+
+export const REGISTRY_NAME = "registry";
+
+export type PodInfo = {
+  podName: string;
+  created_at: number;                // unix ms
+  owner: string | null;
+  labels: Record<string, string>;
+};
+
+export type ActorInfo = {
+  podName: string;
+  actorId: string;
+  actorType: string;
+  version: string;
+  created_at: number;                // unix ms
+};
+
+export type KeyInfo = {
+  keyId: string;
+  name: string | null;
+  scopes: Scope[];
+  created_at: number;                // unix ms
+  last_used_at: number | null;
+};
+
+const notFound = (what: "pod" | "actor" | "key") =>
+  Response.json({ error: `${what}_not_found` }, { status: 404 });
+
+const isLabels = (v: unknown): v is Record<string, string> =>
+  !!v && typeof v === "object" && !Array.isArray(v) && Object.values(v).every(x => typeof x === "string");
+
+const podRow = (r: Record<string, SqlStorageValue>): PodInfo => ({
+  podName: r.pod_name as string,
+  created_at: r.created_at as number,
+  owner: (r.owner as string | null) ?? null,
+  labels: JSON.parse(r.labels as string)
+});
+
+const keyRow = (r: Record<string, SqlStorageValue>): KeyInfo => ({
+  keyId: r.key_id as string,
+  name: (r.name as string | null) ?? null,
+  scopes: JSON.parse(r.scopes as string),
+  created_at: r.created_at as number,
+  last_used_at: (r.last_used_at as number | null) ?? null
+});
+
+const actorRow = (r: Record<string, SqlStorageValue>): ActorInfo => ({
+  podName: r.pod_name as string,
+  actorId: r.actor_id as string,
+  actorType: r.actor_type as string,
+  version: r.version as string,
+  created_at: r.created_at as number
+});
+
+export class PodRegistry {
+  private db: SqlStorage;
+
+  constructor(private state: DurableObjectState, private env: any) {
+    this.db = state.storage.sql;
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS pods(
+        pod_name TEXT PRIMARY KEY,
+        created_at INTEGER NOT NULL,
+        owner TEXT,
+        labels TEXT NOT NULL DEFAULT '{}'
+      );
+      CREATE TABLE IF NOT EXISTS actors(
+        pod_name TEXT NOT NULL,
+        actor_id TEXT NOT NULL,
+        actor_type TEXT NOT NULL,
+        version TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY(pod_name, actor_id)
+      );
+      CREATE TABLE IF NOT EXISTS api_keys(
+        key_id TEXT PRIMARY KEY,
+        pod_name TEXT NOT NULL,
+        key_hash TEXT NOT NULL,
+        name TEXT,
+        scopes TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        last_used_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_api_keys_pod ON api_keys(pod_name);
+    `);
+  }
+
+  private pod(podName: string): PodInfo | null {
+    const r = this.db.exec("SELECT * FROM pods WHERE pod_name = ?", podName).toArray()[0];
+    return r ? podRow(r) : null;
+  }
+
+  /** /pods/{podName}/keys[/{keyId}] */
+  private async keys(req: Request, podName: string, keyId?: string) {
+    // POST /pods/{podName}/keys
+    if (req.method === "POST" && !keyId) {
+      const body = (await req.json().catch(() => ({}))) as { name?: unknown; scopes?: unknown };
+      if (!Array.isArray(body.scopes) || !body.scopes.length || !body.scopes.every(isScope)) {
+        return Response.json({ error: "invalid_key", message: "scopes must be a non-empty list of pod:admin, actor:read, actor:write, actor:config" }, { status: 400 });
+      }
+      if (body.name != null && typeof body.name !== "string") {
+        return Response.json({ error: "invalid_key", message: "name must be a string" }, { status: 400 });
+      }
+      const { keyId, key } = generateKey();
+      const info: KeyInfo = {
+        keyId,
+        name: (body.name as string | undefined) ?? null,
+        scopes: [...new Set(body.scopes as Scope[])],
+        created_at: Date.now(),
+        last_used_at: null
+      };
+      this.db.exec(
+        "INSERT INTO api_keys(key_id, pod_name, key_hash, name, scopes, created_at) VALUES (?, ?, ?, ?, ?, ?)",
+        keyId, podName, await hashKey(key), info.name, JSON.stringify(info.scopes), info.created_at
+      );
+      // the only time the secret is returned
+      return Response.json({ ...info, key }, { status: 201 });
+    }
+
+    // GET /pods/{podName}/keys
+    if (req.method === "GET" && !keyId) {
+      const keys = this.db.exec("SELECT * FROM api_keys WHERE pod_name = ? ORDER BY created_at ASC", podName).toArray().map(keyRow);
+      return Response.json({ podName, keys });
+    }
+
+    // DELETE /pods/{podName}/keys/{keyId}
+    if (req.method === "DELETE" && keyId) {
+      const removed = this.db.exec("DELETE FROM api_keys WHERE pod_name = ? AND key_id = ?", podName, keyId).rowsWritten;
+      return removed ? new Response(null, { status: 204 }) : notFound("key");
+    }
+
+    return new Response("Not Found", { status: 404 });
+  }
+
+  async fetch(req: Request) {
+    const url = new URL(req.url);
+    const parts = url.pathname.split("/").filter(Boolean);
+    const [, podName, section, actorId] = parts;
+
+    // POST /__verify
+    if (req.method === "POST" && parts[0] === "__verify") {
+      const { key } = (await req.json().catch(() => ({}))) as { key?: string };
+      const keyId = typeof key === "string" ? keyIdOf(key) : null;
+      const r = keyId && this.db.exec("SELECT * FROM api_keys WHERE key_id = ?", keyId).toArray()[0];
+      if (!r || r.key_hash !== (await hashKey(key!))) return Response.json({ error: "unauthorized" }, { status: 401 });
+      this.db.exec("UPDATE api_keys SET last_used_at = ? WHERE key_id = ?", Date.now(), keyId);
+      const principal: Principal = { root: false, podName: r.pod_name as string, keyId: keyId!, scopes: JSON.parse(r.scopes as string) };
+      return Response.json(principal);
+    }
+
+    // POST /pods
+    if (req.method === "POST" && parts.length === 1) {
+      const body = (await req.json().catch(() => ({}))) as { owner?: unknown; labels?: unknown };
+      if (body.owner != null && typeof body.owner !== "string") {
+        return Response.json({ error: "invalid_pod", message: "owner must be a string" }, { status: 400 });
+      }
+      if (body.labels != null && !isLabels(body.labels)) {
+        return Response.json({ error: "invalid_pod", message: "labels must map strings to strings" }, { status: 400 });
+      }
+      const pod: PodInfo = {
+        podName: crypto.randomUUID(),
+        created_at: Date.now(),
+        owner: (body.owner as string | undefined) ?? null,
+        labels: (body.labels as Record<string, string> | undefined) ?? {}
+      };
+      this.db.exec(
+        "INSERT INTO pods(pod_name, created_at, owner, labels) VALUES (?, ?, ?, ?)",
+        pod.podName, pod.created_at, pod.owner, JSON.stringify(pod.labels)
+      );
+      return Response.json(pod);
+    }
+
+    // GET /pods
+    if (req.method === "GET" && parts.length === 1) {
+      const limit = Math.min(parseInt(url.searchParams.get("limit") || "50") || 50, 200);
+      const after = url.searchParams.get("after") ?? "";
+      const pods = this.db.exec(
+        "SELECT * FROM pods WHERE pod_name > ? ORDER BY pod_name ASC LIMIT ?", after, limit
+      ).toArray().map(podRow);
+      return Response.json({ pods, next_after: pods.length === limit ? pods[pods.length - 1].podName : null });
+    }
+
+    const pod = this.pod(podName);
+    if (!pod) return notFound("pod");
+
+    // GET /pods/{podName}
+    if (req.method === "GET" && parts.length === 2) {
+      const actors = this.db.exec("SELECT count(*) AS n FROM actors WHERE pod_name = ?", podName).toArray()[0].n;
+      return Response.json({ ...pod, actor_count: actors });
+    }
+
+    // DELETE /pods/{podName}
+    if (req.method === "DELETE" && parts.length === 2) {
+      this.state.storage.transactionSync(() => {
+        this.db.exec("DELETE FROM actors WHERE pod_name = ?", podName);
+        this.db.exec("DELETE FROM api_keys WHERE pod_name = ?", podName);
+        this.db.exec("DELETE FROM pods WHERE pod_name = ?", podName);
+      });
+      return new Response(null, { status: 204 });
+    }
+
+    if (section === "keys") return this.keys(req, podName, parts[3]);
+
+    // GET /pods/{podName}/actors
+    if (req.method === "GET" && parts.length === 3) {
+      const actors = this.db.exec(
+        "SELECT * FROM actors WHERE pod_name = ? ORDER BY created_at ASC, actor_id ASC", podName
+      ).toArray().map(actorRow);
+      return Response.json({ podName, actors });
+    }
+
+    if (parts.length !== 4) return new Response("Not Found", { status: 404 });
+
+    // POST /pods/{podName}/actors/{actorId} - register an actor, or record its new type after a config change
+    if (req.method === "POST") {
+      const { actorType, version } = ((await req.json().catch(() => null)) ?? {}) as Partial<ActorInfo>;
+      if (typeof actorType !== "string" || !actorType || typeof version !== "string" || !version) {
+        return Response.json({ error: "invalid_actor", message: "actorType and version are required strings" }, { status: 400 });
+      }
+      // a re-registration keeps the original created_at, and so the actor's place in the list
+      const row = this.db.exec(
+        `INSERT INTO actors(pod_name, actor_id, actor_type, version, created_at) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(pod_name, actor_id) DO UPDATE SET actor_type = excluded.actor_type, version = excluded.version
+         RETURNING *`,
+        podName, actorId, actorType, version, Date.now()
+      ).one();
+      return Response.json(actorRow(row));
+    }
+
+    const r = this.db.exec("SELECT * FROM actors WHERE pod_name = ? AND actor_id = ?", podName, actorId).toArray()[0];
+    if (!r) return notFound("actor");
+
+    // GET /pods/{podName}/actors/{actorId}
+    if (req.method === "GET") return Response.json(actorRow(r));
+
+    // DELETE /pods/{podName}/actors/{actorId}
+    if (req.method === "DELETE") {
+      this.db.exec("DELETE FROM actors WHERE pod_name = ? AND actor_id = ?", podName, actorId);
+      return new Response(null, { status: 204 });
+    }
+
+    return new Response("Not Found", { status: 404 });
+  }
+}
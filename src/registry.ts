@@ -1,15 +1,80 @@
 // src/registry.ts
 import type { ActorConfig, BaseActorConfig } from "./types";
+import type { ListSpec } from "./handlers/listQuery";
+import type { WebhookEvents } from "./webhooks";
+
+/** run `fn` in one storage transaction (rolled back if it throws); `fn` must not await */
+export type Transaction = <T>(fn: () => T) => T;
+
+/** one stored document as it appears in an export snapshot */
+export type ExportRow = {
+  id: string;                    // storage id, kept on import
+  ts: number;                    // unix seconds
+  schema_version: string | null;
+  body: unknown;
+};
+
+/** what applying a config would do to the stored data (PATCH .../config?dry_run=true) */
+export type ConfigPlan = {
+  columns_added: string[];       // k_* index columns created and backfilled
+  columns_dropped: string[];     // k_* index columns dropped with their values
+  rows: number;                  // documents stored
+  rows_reindexed: number;        // documents re-indexed by a backfill or search rebuild
+  rows_expiring?: number;        // documents the next retention purge removes
+  rows_invalid?: number;         // stored documents the new schema rejects (they are kept)
+  notes: string[];
+  conflicts: string[];           // reasons the change is refused
+};
 
 export interface Handler<TConfig extends BaseActorConfig = ActorConfig> {
   ensureSchema(db: SqlStorage, cfg: TConfig): Promise<void>;
-  handle(req: Request, db: SqlStorage, cfg: TConfig): Promise<Response>;
+  handle(req: Request, db: SqlStorage, cfg: TConfig, tx: Transaction): Promise<Response>;
   openapi(cfg: TConfig, basePath: string): any; // returns OpenAPI JSON
+  /** re-index one resumable batch after an index change; returns the columns still pending */
+  backfillStep?(db: SqlStorage, cfg: TConfig): Promise<string[]>;
+  /** delete rows stored before `before` (unix seconds); returns rows removed per table */
+  purgeExpired?(db: SqlStorage, cfg: TConfig, before: number): Promise<Record<string, number>>;
+  /** every stored document, in a stable order, for GET .../export */
+  exportRows?(db: SqlStorage, cfg: TConfig): Iterable<ExportRow>;
+  /**
+   * store one snapshot row with its original id / ts and rebuild its index rows.
+   * Runs inside the import transaction, so it must be synchronous; throws SnapshotError for rejected rows.
+   */
+  importRow?(db: SqlStorage, cfg: TConfig, row: ExportRow): void;
+  /** the collection whose writes go to the change log (see changeFeed.ts); enables GET .../subscribe */
+  changeFeed?(cfg: TConfig): ListSpec;
+  /** what switching to `next` (same actor type) would change; no writes */
+  planConfig?(db: SqlStorage, next: TConfig): ConfigPlan;
+  /** webhook event types derived from change-feed entries (see webhooks.ts); enables .../webhooks */
+  webhookEvents?: WebhookEvents;
+  /**
+   * bring data stored by an older version of this actor type up to date. Runs once, before
+   * ensureSchema, when a config change moves an actor with data to this version. Runs in one
+   * transaction with the config write, so it must be synchronous; if it throws, nothing changes.
+   */
+  migrateFrom?(prevVersion: string, db: SqlStorage): void;
+  /** when the handler next needs its onAlarm (unix ms), or null; read whenever the alarm is rescheduled */
+  nextAlarmAt?(db: SqlStorage, cfg: TConfig): number | null;
+  /** handler work run on every alarm of the actor (expiry, redelivery ...); must check itself what is due */
+  onAlarm?(db: SqlStorage, cfg: TConfig): Promise<void>;
+  /** clean up anything the handler keeps outside the actor's storage; runs before the actor is deleted */
+  onDestroy?(db: SqlStorage, cfg: TConfig): Promise<void>;
 }
 
+/** the number of a registry version ("v2" -> 2); NaN for anything else */
+export const versionNumber = (version: string) => Number(/^v(\d+)$/.exec(version)?.[1] ?? NaN);
+
 import { storeHandlerFactory } from "./handlers/store";
 import { responsesStoreHandlerFactory } from "./handlers/responsesStore";
+import { embeddingStoreHandlerFactory } from "./handlers/embeddingStore";
+import { kvHandlerFactory } from "./handlers/kv";
+import { queueHandlerFactory } from "./handlers/queue";
 
+/**
+ * Handler factories keyed by "{actorType}.{version}". A newer version of an actor type registers
+ * next to the old one; actors move up with PATCH .../config {"version": ...} (its migrateFrom
+ * carries the stored data over) and are never moved down.
+ */
 export const registry: Record<string, (cfg: ActorConfig) => Handler> = {
   "store.v1": (cfg: ActorConfig) => {
     if (cfg.actorType === "store") {
@@ -17,10 +82,34 @@ export const registry: Record<string, (cfg: ActorConfig) => Handler> = {
     }
     throw new Error(`Invalid config for store.v1: expected actorType 'store', got '${cfg.actorType}'`);
   },
+  "store.v2": (cfg: ActorConfig) => {
+    if (cfg.actorType === "store") {
+      return storeHandlerFactory(cfg);
+    }
+    throw new Error(`Invalid config for store.v2: expected actorType 'store', got '${cfg.actorType}'`);
+  },
   "responsesStore.v1": (cfg: ActorConfig) => {
     if (cfg.actorType === "responsesStore") {
       return responsesStoreHandlerFactory(cfg);
     }
     throw new Error(`Invalid config for responsesStore.v1: expected actorType 'responsesStore', got '${cfg.actorType}'`);
   },
+  "embeddingStore.v1": (cfg: ActorConfig) => {
+    if (cfg.actorType === "embeddingStore") {
+      return embeddingStoreHandlerFactory(cfg);
+    }
+    throw new Error(`Invalid config for embeddingStore.v1: expected actorType 'embeddingStore', got '${cfg.actorType}'`);
+  },
+  "kv.v1": (cfg: ActorConfig) => {
+    if (cfg.actorType === "kv") {
+      return kvHandlerFactory(cfg);
+    }
+    throw new Error(`Invalid config for kv.v1: expected actorType 'kv', got '${cfg.actorType}'`);
+  },
+  "queue.v1": (cfg: ActorConfig) => {
+    if (cfg.actorType === "queue") {
+      return queueHandlerFactory(cfg);
+    }
+    throw new Error(`Invalid config for queue.v1: expected actorType 'queue', got '${cfg.actorType}'`);
+  },
 };
@@ -0,0 +1,93 @@
+// src/snapshot.ts
+// NDJSON actor snapshots for GET .../export and POST .../import.
+//
+//   {"type":"config","config":{...ActorConfig}}
+//   {"type":"row","id":"...","ts":1735689600,"schema_version":"v1","body":{...}}
+//   ...
+
+import type { ActorConfig } from "./types";
+import type { ExportRow } from "./registry";
+
+/** rows read per query while exporting */
+const EXPORT_BATCH = 500;
+
+export class SnapshotError extends Error {
+  constructor(message: string, public line?: number) {
+    super(message);
+  }
+}
+
+/**
+ * Page through a table in id order; yields lazily so large actors stream.
+ * `extraColumns` are selected too and handed to `toBody` with the parsed body.
+ */
+export function* exportTableRows(
+  db: SqlStorage,
+  table: string,
+  extraColumns: string[] = [],
+  toBody: (body: any, row: Record<string, SqlStorageValue>) => unknown = body => body
+): Generator<ExportRow> {
+  const cols = ["id", "ts", "schema_version", "body", ...extraColumns].join(", ");
+  let after = "";
+  for (;;) {
+    const rows = db.exec(
+      `SELECT ${cols} FROM ${table} WHERE id > ? ORDER BY id ASC LIMIT ?`, after, EXPORT_BATCH
+    ).toArray();
+    for (const r of rows) {
+      yield { id: r.id as string, ts: r.ts as number, schema_version: r.schema_version as string | null, body: toBody(JSON.parse(r.body as string), r) };
+    }
+    if (rows.length < EXPORT_BATCH) return;
+    after = rows[rows.length - 1].id as string;
+  }
+}
+
+/** Stream the config line followed by one line per row */
+export function snapshotStream(config: ActorConfig, rows: Iterable<ExportRow>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const line = (v: unknown) => encoder.encode(JSON.stringify(v) + "\n");
+  const it = rows[Symbol.iterator]();
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(line({ type: "config", config }));
+    },
+    pull(controller) {
+      for (let i = 0; i < EXPORT_BATCH; i++) {
+        const next = it.next();
+        if (next.done) return controller.close();
+        controller.enqueue(line({ type: "row", ...next.value }));
+      }
+    }
+  });
+}
+
+/** Parse an NDJSON snapshot; the config line is optional but must come first */
+export function parseSnapshot(text: string): { config: ActorConfig | null; rows: { line: number; row: ExportRow }[] } {
+  let config: ActorConfig | null = null;
+  const rows: { line: number; row: ExportRow }[] = [];
+
+  text.split("\n").forEach((raw, i) => {
+    const line = i + 1;
+    if (!raw.trim()) return;
+    let entry: any;
+    try {
+      entry = JSON.parse(raw);
+    } catch {
+      throw new SnapshotError("invalid JSON", line);
+    }
+    if (entry?.type === "config") {
+      if (rows.length || config) throw new SnapshotError("the config line must come first", line);
+      if (!entry.config || typeof entry.config !== "object") throw new SnapshotError("config line has no config", line);
+      config = entry.config;
+    } else if (entry?.type === "row") {
+      const { id, ts, schema_version = null, body } = entry;
+      if (typeof id !== "string" || !Number.isInteger(ts) || body === undefined) {
+        throw new SnapshotError("row needs a string id, an integer ts and a body", line);
+      }
+      rows.push({ line, row: { id, ts, schema_version, body } });
+    } else {
+      throw new SnapshotError(`unknown line type '${entry?.type}'`, line);
+    }
+  });
+
+  return { config, rows };
+}
@@ -1,4 +1,6 @@
 // src/types.ts
+import type { PipelineConfig } from "./pipelines";
+import type { SchemaVersion } from "./handlers/schemaVersions";
 
 /**
  * Actor Configuration System
@@ -28,15 +30,20 @@ export type BaseActorConfig = {
   actorType: string;
   version: string;
   schema: Record<string, unknown>;   // JSON Schema / OpenAPI schema object
+  pipelines?: PipelineConfig[];      // forward accepted writes to sibling actors (see pipelines.ts)
 };
 
 // Store-specific configuration
 export type StoreActorConfig = BaseActorConfig & {
   actorType: "store";
-  version: "v1";
+  version: "v1" | "v2";              // v2 adds created_at, the item's first write time
   indexes?: string[];                // e.g. ["run.id", "message.type"]
+  id_path?: string;                  // document path holding a client-supplied item id, e.g. "id" or "meta.key"
+  schema_version?: string;           // name of `schema`, stamped on new writes (default "v1")
+  schema_versions?: SchemaVersion[]; // earlier schemas, oldest first, with their upcast steps (see handlers/schemaVersions.ts)
   params?: {
     retention_days?: number;
+    enable_content_search?: boolean;     // Enable FTS5 full-text search (?q=) on output content
   };
 };
 
@@ -48,20 +55,63 @@ export type ResponsesStoreActorConfig = BaseActorConfig & {
   params?: {
     retention_days?: number;
     max_output_content_length?: number;  // Truncate output content for indexing
-    enable_content_search?: boolean;     // Enable full-text search on output content
+    enable_content_search?: boolean;     // Enable FTS5 full-text search (?q=) on output content
+    search_instructions?: boolean;       // Also index `instructions` for ?q=
+  };
+};
+
+// Embedding Store-specific configuration (vectors + metadata, two-stage retrieval)
+export type EmbeddingStoreActorConfig = BaseActorConfig & {
+  actorType: "embeddingStore";
+  version: "v1";
+  dimensions: number;                // full vector length
+  indexes?: string[];                // metadata paths usable in search filters, e.g. ["kind", "source.url"]
+  params?: {
+    retention_days?: number;
+    similarity?: "cosine" | "dot";       // default "cosine"
+    coarse_dimensions?: number;          // leading dimensions scored in the coarse pass (default min(64, dimensions))
+    coarse_k?: number;                   // candidates kept for the full-vector rerank (default 100)
+    provider?: string;                   // embedding provider for text input (default "local")
+    provider_options?: Record<string, unknown>;
+  };
+};
+
+// KV-specific configuration (versioned values by key; `schema` checks each value)
+export type KvActorConfig = BaseActorConfig & {
+  actorType: "kv";
+  version: "v1";
+};
+
+// Queue-specific configuration (leased messages for background work; `schema` checks each message body)
+export type QueueActorConfig = BaseActorConfig & {
+  actorType: "queue";
+  version: "v1";
+  params?: {
+    max_attempts?: number;               // deliveries before a message is dead-lettered (default 5)
+    visibility_timeout_seconds?: number; // default lease length (default 30)
   };
 };
 
 // Union type for all possible actor configurations
 // Add new actor config types here as they are created
-export type ActorConfig = StoreActorConfig | ResponsesStoreActorConfig;
+export type ActorConfig =
+  | StoreActorConfig
+  | ResponsesStoreActorConfig
+  | EmbeddingStoreActorConfig
+  | KvActorConfig
+  | QueueActorConfig;
 
 // Type helper to extract config type based on actor type and version
 export type ConfigForActor<T extends string, V extends string> = 
-  T extends "store" ? (V extends "v1" ? StoreActorConfig : never) :
+  T extends "store" ? (V extends "v1" | "v2" ? StoreActorConfig : never) :
   T extends "responsesStore" ? (V extends "v1" ? ResponsesStoreActorConfig : never) :
+  T extends "embeddingStore" ? (V extends "v1" ? EmbeddingStoreActorConfig : never) :
+  T extends "kv" ? (V extends "v1" ? KvActorConfig : never) :
+  T extends "queue" ? (V extends "v1" ? QueueActorConfig : never) :
   never;
 
 export type Env = {
   ACTOR_DO: DurableObjectNamespace;
+  POD_REGISTRY: DurableObjectNamespace;
+  PASEO_ADMIN_KEY?: string;          // secret: root API key (wrangler secret put PASEO_ADMIN_KEY)
 };
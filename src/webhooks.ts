@@ -0,0 +1,323 @@
+// src/webhooks.ts
+// Outbound webhooks for actor events.
+//
+// POST .../webhooks registers an endpoint for some event types, optionally narrowed by a filter
+// on the collection's list columns. Each webhook keeps a cursor into the change log (changeFeed.ts);
+// matching changes become deliveries that the actor's storage alarm sends, retrying failures with
+// exponential backoff. After MAX_ATTEMPTS a delivery is dead-lettered (status "dead"). Delivered
+// and dead deliveries are pruned after DELIVERY_RETENTION_MS. All times are unix ms, except the
+// signed X-Paseo-Timestamp header (seconds).
+//
+//   POST {url}
+//   Content-Type: application/json
+//   X-Paseo-Event: item.created
+//   X-Paseo-Delivery: {deliveryId}
+//   X-Paseo-Timestamp: 1735689600
+//   X-Paseo-Signature: sha256={hex HMAC-SHA256 of "{timestamp}.{body}" keyed with the webhook secret}
+
+import { changeLogBounds, checkChangeFilter, readChanges, type ChangeEvent } from "./changeFeed";
+import { filterQueryParams, QueryError, type ListSpec } from "./handlers/listQuery";
+
+export const MAX_ATTEMPTS = 8;
+const BACKOFF_BASE_MS = 30_000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+const DELIVERY_TIMEOUT_MS = 10_000;
+/** how long delivered (from delivered_at) and dead (from dead_at) deliveries stay in the log */
+const DELIVERY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+/** deliveries attempted per alarm run */
+const DELIVERIES_PER_RUN = 50;
+/** change events read per query while enqueueing */
+const ENQUEUE_BATCH = 500;
+
+/** event types a handler emits, and the ones a logged change produces */
+export type WebhookEvents = {
+  types: string[];
+  of(change: ChangeEvent): string[];
+};
+
+/** delay before attempt `attempts + 1`: 30s, 1m, 2m, ... capped at an hour */
+export const backoff = (attempts: number) => Math.min(BACKOFF_BASE_MS * 2 ** (attempts - 1), BACKOFF_MAX_MS);
+
+export function ensureWebhookTables(db: SqlStorage) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS webhooks(
+      id TEXT PRIMARY KEY,
+      url TEXT NOT NULL,
+      events TEXT NOT NULL,
+      filter TEXT,
+      filter_query TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      source TEXT NOT NULL,
+      cursor INTEGER NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+  `);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS webhook_deliveries(
+      id TEXT PRIMARY KEY,
+      webhook_id TEXT NOT NULL,
+      event TEXT NOT NULL,
+      seq INTEGER NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at INTEGER,
+      last_status INTEGER,
+      last_error TEXT,
+      created_at INTEGER NOT NULL,
+      delivered_at INTEGER,
+      dead_at INTEGER
+    );
+  `);
+  // Tables created before dead letters were timestamped: backfill dead_at from created_at
+  const columns = db.exec("PRAGMA table_info(webhook_deliveries)").toArray().map(r => r.name);
+  if (!columns.includes("dead_at")) {
+    db.exec("ALTER TABLE webhook_deliveries ADD COLUMN dead_at INTEGER");
+    db.exec("UPDATE webhook_deliveries SET dead_at = created_at WHERE status = 'dead'");
+  }
+  db.exec("CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at)");
+  db.exec("CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_hook ON webhook_deliveries(webhook_id, created_at)");
+}
+
+const hex = (buf: ArrayBuffer) => [...new Uint8Array(buf)].map(b => b.toString(16).padStart(2, "0")).join("");
+
+export async function sign(secret: string, timestamp: number, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  return "sha256=" + hex(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${timestamp}.${body}`)));
+}
+
+const webhookJson = (r: Record<string, SqlStorageValue>) => ({
+  id: r.id,
+  url: r.url,
+  events: JSON.parse(r.events as string),
+  filter: r.filter == null ? null : JSON.parse(r.filter as string),
+  created_at: r.created_at
+});
+
+const deliveryJson = (r: Record<string, SqlStorageValue>) => ({
+  id: r.id,
+  event: r.event,
+  seq: r.seq,
+  status: r.status,
+  attempts: r.attempts,
+  next_attempt_at: r.next_attempt_at,
+  last_status: r.last_status,
+  last_error: r.last_error,
+  created_at: r.created_at,
+  delivered_at: r.delivered_at,
+  dead_at: r.dead_at,
+  payload: JSON.parse(r.payload as string)
+});
+
+const invalid = (message: string) => Response.json({ error: "invalid_webhook", message }, { status: 400 });
+const notFound = () => Response.json({ error: "webhook_not_found" }, { status: 404 });
+
+/**
+ * Routes below .../webhooks (`parts` are the path segments after "webhooks"):
+ *   POST / · GET / · GET /{id} · DELETE /{id} · GET /{id}/deliveries · POST /{id}/deliveries/{deliveryId}/retry
+ * `source` is the actor path, sent in payloads so receivers can tell actors apart.
+ */
+export async function handleWebhooks(
+  req: Request,
+  db: SqlStorage,
+  parts: string[],
+  source: string,
+  spec: ListSpec,
+  events: WebhookEvents
+): Promise<Response> {
+  const url = new URL(req.url);
+  const [webhookId, section, deliveryId, action] = parts;
+
+  if (!webhookId && req.method === "POST") {
+    const body = (await req.json().catch(() => null)) as any;
+    if (!body || typeof body !== "object") return Response.json({ error: "invalid_json" }, { status: 400 });
+
+    let target: URL;
+    try {
+      target = new URL(body.url);
+    } catch {
+      return invalid("url must be an absolute http(s) URL");
+    }
+    if (target.protocol !== "https:" && target.protocol !== "http:") return invalid("url must be an absolute http(s) URL");
+    if (!Array.isArray(body.events) || !body.events.length || !body.events.every((e: unknown) => events.types.includes(e as string))) {
+      return invalid(`events must be a non-empty list of: ${events.types.join(", ")}`);
+    }
+    if (body.secret != null && (typeof body.secret !== "string" || body.secret.length < 16)) {
+      return invalid("secret must be a string of at least 16 characters");
+    }
+    let filterQuery: string;
+    try {
+      filterQuery = filterQueryParams(body.filter, spec).toString();
+      checkChangeFilter(filterQuery, spec);
+    } catch (e) {
+      if (!(e instanceof QueryError)) throw e;
+      return invalid(e.message);
+    }
+
+    const id = crypto.randomUUID();
+    const secret = body.secret ?? "whsec_" + hex(crypto.getRandomValues(new Uint8Array(24)).buffer);
+    const events_ = [...new Set(body.events as string[])];
+    // only changes made from now on are delivered
+    const { head } = changeLogBounds(db);
+    db.exec(
+      "INSERT INTO webhooks(id, url, events, filter, filter_query, secret, source, cursor, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)",
+      id, target.toString(), JSON.stringify(events_), body.filter == null ? null : JSON.stringify(body.filter),
+      filterQuery, secret, source, head, Date.now()
+    );
+    const created = db.exec("SELECT * FROM webhooks WHERE id = ?", id).toArray()[0];
+    // the secret is only ever shown here
+    return Response.json({ ...webhookJson(created), secret }, { status: 201 });
+  }
+
+  if (!webhookId && req.method === "GET") {
+    const rows = db.exec("SELECT * FROM webhooks ORDER BY created_at, id").toArray();
+    return Response.json({ webhooks: rows.map(webhookJson) });
+  }
+
+  const hook = webhookId ? db.exec("SELECT * FROM webhooks WHERE id = ?", webhookId).toArray()[0] : undefined;
+  if (!hook) return notFound();
+
+  if (!section && req.method === "GET") return Response.json(webhookJson(hook));
+
+  if (!section && req.method === "DELETE") {
+    db.exec("DELETE FROM webhook_deliveries WHERE webhook_id = ?", webhookId);
+    db.exec("DELETE FROM webhooks WHERE id = ?", webhookId);
+    return new Response(null, { status: 204 });
+  }
+
+  // GET .../webhooks/{id}/deliveries?status=dead
+  if (section === "deliveries" && !deliveryId && req.method === "GET") {
+    const status = url.searchParams.get("status");
+    if (status && !["pending", "delivered", "dead"].includes(status)) {
+      return Response.json({ error: "invalid_query", message: "status expects pending, delivered or dead" }, { status: 400 });
+    }
+    const limit = Math.min(parseInt(url.searchParams.get("limit") || "50") || 50, 200);
+    const rows = db.exec(
+      `SELECT * FROM webhook_deliveries WHERE webhook_id = ? ${status ? "AND status = ?" : ""}
+       ORDER BY created_at DESC, seq DESC LIMIT ?`,
+      ...(status ? [webhookId, status] : [webhookId]), limit
+    ).toArray();
+    return Response.json({ deliveries: rows.map(deliveryJson) });
+  }
+
+  // POST .../webhooks/{id}/deliveries/{deliveryId}/retry - requeue a dead letter
+  if (section === "deliveries" && deliveryId && action === "retry" && req.method === "POST") {
+    const retried = db.exec(
+      "UPDATE webhook_deliveries SET status = 'pending', attempts = 0, next_attempt_at = ?, dead_at = NULL WHERE id = ? AND webhook_id = ? AND status = 'dead'",
+      Date.now(), deliveryId, webhookId
+    ).rowsWritten;
+    if (!retried) return Response.json({ error: "delivery_not_found", message: "no dead delivery with this id" }, { status: 404 });
+    return Response.json({ id: deliveryId, status: "pending" }, { status: 202 });
+  }
+
+  return new Response("Not Found", { status: 404 });
+}
+
+/**
+ * Turn new change-log entries into pending deliveries and advance each webhook's cursor.
+ * Synchronous, so the caller can run it in one transaction. Returns the deliveries created.
+ */
+export function enqueueDeliveries(db: SqlStorage, spec: ListSpec, events: WebhookEvents): number {
+  let created = 0;
+  const now = Date.now();
+  for (const hook of db.exec("SELECT id, events, filter_query, source, cursor FROM webhooks").toArray()) {
+    const wanted: string[] = JSON.parse(hook.events as string);
+    let cursor = hook.cursor as number;
+    for (;;) {
+      const page = readChanges(db, spec, hook.filter_query as string, cursor, ENQUEUE_BATCH);
+      for (const change of page.events) {
+        for (const event of events.of(change).filter(e => wanted.includes(e))) {
+          const id = crypto.randomUUID();
+          const payload = { id, type: event, created_at: change.at, actor: hook.source, data: change };
+          db.exec(
+            `INSERT INTO webhook_deliveries(id, webhook_id, event, seq, payload, status, next_attempt_at, created_at)
+             VALUES (?, ?, ?, ?, ?, 'pending', ?, ?)`,
+            id, hook.id, event, change.seq, JSON.stringify(payload), now, now
+          );
+          created++;
+        }
+      }
+      cursor = page.cursor;
+      if (page.events.length < ENQUEUE_BATCH) break;
+    }
+    db.exec("UPDATE webhooks SET cursor = ? WHERE id = ?", cursor, hook.id);
+  }
+  return created;
+}
+
+/** when the earliest pending delivery is due (unix ms), or null */
+export function nextDeliveryAt(db: SqlStorage): number | null {
+  const r = db.exec("SELECT MIN(next_attempt_at) AS at FROM webhook_deliveries WHERE status = 'pending'").toArray()[0];
+  return (r?.at as number | null) ?? null;
+}
+
+/** Drop delivered and dead deliveries older than DELIVERY_RETENTION_MS; pending ones stay */
+export function pruneDeliveries(db: SqlStorage): number {
+  const cutoff = Date.now() - DELIVERY_RETENTION_MS;
+  return db.exec(
+    `DELETE FROM webhook_deliveries
+     WHERE (status = 'delivered' AND delivered_at < ?) OR (status = 'dead' AND dead_at < ?)
+     RETURNING id`,
+    cutoff, cutoff
+  ).toArray().length;
+}
+
+/** Attempt the deliveries that are due; failures are rescheduled or dead-lettered */
+export async function runDeliveries(db: SqlStorage): Promise<{ delivered: number; failed: number; dead: number }> {
+  const result = { delivered: 0, failed: 0, dead: 0 };
+  const due = db.exec(
+    `SELECT d.id, d.event, d.payload, d.attempts, w.url, w.secret
+     FROM webhook_deliveries d JOIN webhooks w ON w.id = d.webhook_id
+     WHERE d.status = 'pending' AND d.next_attempt_at <= ?
+     ORDER BY d.next_attempt_at, d.seq LIMIT ?`,
+    Date.now(), DELIVERIES_PER_RUN
+  ).toArray();
+
+  for (const d of due) {
+    const body = d.payload as string;
+    const timestamp = Math.floor(Date.now() / 1000);
+    let status: number | null = null;
+    let error: string | null = null;
+    try {
+      const res = await fetch(d.url as string, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Paseo-Event": d.event as string,
+          "X-Paseo-Delivery": d.id as string,
+          "X-Paseo-Timestamp": String(timestamp),
+          "X-Paseo-Signature": await sign(d.secret as string, timestamp, body)
+        },
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+      });
+      status = res.status;
+      if (!res.ok) error = `HTTP ${res.status}`;
+      await res.body?.cancel();
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    const attempts = (d.attempts as number) + 1;
+    if (!error) {
+      db.exec(
+        "UPDATE webhook_deliveries SET status = 'delivered', attempts = ?, last_status = ?, last_error = NULL, next_attempt_at = NULL, delivered_at = ? WHERE id = ?",
+        attempts, status, Date.now(), d.id
+      );
+      result.delivered++;
+    } else if (attempts >= MAX_ATTEMPTS) {
+      db.exec(
+        "UPDATE webhook_deliveries SET status = 'dead', attempts = ?, last_status = ?, last_error = ?, next_attempt_at = NULL, dead_at = ? WHERE id = ?",
+        attempts, status, error, Date.now(), d.id
+      );
+      result.dead++;
+    } else {
+      db.exec(
+        "UPDATE webhook_deliveries SET attempts = ?, last_status = ?, last_error = ?, next_attempt_at = ? WHERE id = ?",
+        attempts, status, error, Date.now() + backoff(attempts), d.id
+      );
+      result.failed++;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,138 @@
+import { env, createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+import { embeddingProviders, registerEmbeddingProvider } from '../src/handlers/embeddings';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+const ADMIN_KEY = 'test-admin-key';
+
+async function call(path: string, init?: RequestInit) {
+	const ctx = createExecutionContext();
+	const headers = { Authorization: `Bearer ${ADMIN_KEY}`, ...(init?.headers as Record<string, string>) };
+	const res = await worker.fetch(new IncomingRequest(`http://example.com${path}`, { ...init, headers }), env, ctx);
+	await waitOnExecutionContext(ctx);
+	return res;
+}
+
+async function createEmbeddingActor(config: Record<string, unknown>) {
+	const { podName } = await (await call('/pods', { method: 'POST' })).json<{ podName: string }>();
+	const res = await call(`/pods/${podName}/actors`, {
+		method: 'POST',
+		body: JSON.stringify({ config: { actorType: 'embeddingStore', version: 'v1', schema: {}, ...config } }),
+	});
+	return { res, base: `/pods/${podName}/actors/${(await res.clone().json<{ actorId: string }>()).actorId}` };
+}
+
+const post = (path: string, body: unknown) => call(path, { method: 'POST', body: JSON.stringify(body) });
+
+describe('embeddingStore.v1', () => {
+	it('rejects invalid dimensions', async () => {
+		const { res } = await createEmbeddingActor({ dimensions: 0 });
+		expect(res.status).toBe(400);
+		expect(await res.json()).toMatchObject({ error: 'invalid_config' });
+	});
+
+	it('stores vectors and checks their dimensions', async () => {
+		const { base } = await createEmbeddingActor({ dimensions: 4 });
+		expect((await post(`${base}/embeddings`, { id: 'a', vector: [1, 0, 0, 0], metadata: { kind: 'x' } })).status).toBe(200);
+		expect((await post(`${base}/embeddings`, { id: 'a', vector: [1, 0, 0, 0] })).status).toBe(409);
+
+		const bad = await post(`${base}/embeddings`, { vector: [1, 0] });
+		expect(bad.status).toBe(400);
+		expect(await bad.json()).toMatchObject({ error: 'invalid_embedding', details: [{ path: '/vector' }] });
+
+		const got = await (await call(`${base}/embeddings/a`)).json();
+		expect(got).toMatchObject({ id: 'a', vector: [1, 0, 0, 0], metadata: { kind: 'x' } });
+		expect((await call(`${base}/embeddings/a`, { method: 'DELETE' })).status).toBe(204);
+		expect((await call(`${base}/embeddings/a`)).status).toBe(404);
+	});
+
+	it('reranks coarse candidates with the full vector', async () => {
+		// the first two dimensions tie; only the full vector separates b from c
+		const { base } = await createEmbeddingActor({ dimensions: 4, params: { coarse_dimensions: 2, coarse_k: 3 } });
+		const batch = [
+			{ id: 'a', vector: [0, 1, 0, 0] },
+			{ id: 'b', vector: [1, 0, 0, 1] },
+			{ id: 'c', vector: [1, 0, 1, 0] },
+		];
+		const ingest = await call(`${base}/embeddings:batch`, { method: 'POST', body: JSON.stringify(batch) });
+		expect(ingest.status).toBe(200);
+
+		const res = await post(`${base}/search`, { vector: [1, 0, 1, 0], k: 2 });
+		const { results, stats } = await res.json<{ results: any[]; stats: any }>();
+		expect(results.map((r) => r.id)).toEqual(['c', 'b']);
+		expect(results[0].score).toBeCloseTo(1);
+		expect(results[0].coarse_score).toBeCloseTo(results[1].coarse_score);
+		expect(stats).toMatchObject({ scanned: 3, candidates: 3, coarse_dimensions: 2, dimensions: 4, similarity: 'cosine' });
+
+		const narrow = await (await post(`${base}/search`, { vector: [1, 0, 1, 0], k: 1, coarse_k: 1 })).json<{ stats: any }>();
+		expect(narrow.stats.candidates).toBe(1);
+		for (const coarse_k of [0, 2.5, '3', 1001]) {
+			const bad = await post(`${base}/search`, { vector: [1, 0, 1, 0], coarse_k });
+			expect(bad.status).toBe(400);
+			expect(await bad.json()).toMatchObject({ error: 'invalid_query' });
+		}
+	});
+
+	it('uses dot product similarity when configured', async () => {
+		const { base } = await createEmbeddingActor({ dimensions: 2, params: { similarity: 'dot' } });
+		await post(`${base}/embeddings`, { id: 'small', vector: [1, 0] });
+		await post(`${base}/embeddings`, { id: 'large', vector: [3, 3] });
+
+		const { results } = await (await post(`${base}/search`, { vector: [1, 0] })).json<{ results: any[] }>();
+		expect(results.map((r) => [r.id, r.score])).toEqual([['large', 3], ['small', 1]]);
+	});
+
+	it('embeds text with the local provider and filters on metadata', async () => {
+		const { base } = await createEmbeddingActor({ dimensions: 64, indexes: ['lang'] });
+		const docs = [
+			{ text: 'the cat sat on the mat', metadata: { lang: 'en' } },
+			{ text: 'stock markets fell sharply today', metadata: { lang: 'en' } },
+			{ text: 'le chat est sur le tapis', metadata: { lang: 'fr' } },
+		];
+		for (const doc of docs) expect((await post(`${base}/embeddings`, doc)).status).toBe(200);
+
+		const hits = await (await post(`${base}/search`, { text: 'a cat on a mat', k: 1 })).json<{ results: any[] }>();
+		expect(hits.results[0].text).toBe('the cat sat on the mat');
+
+		const fr = await (await post(`${base}/search`, { text: 'a cat on a mat', filter: { lang: 'fr' } })).json<{ results: any[] }>();
+		expect(fr.results.map((r) => r.metadata.lang)).toEqual(['fr']);
+
+		const listed = await (await call(`${base}/embeddings?k_lang=en`)).json<{ embeddings: any[] }>();
+		expect(listed.embeddings).toHaveLength(2);
+
+		const unknown = await post(`${base}/search`, { text: 'cat', filter: { topic: 'pets' } });
+		expect(unknown.status).toBe(400);
+		expect(await unknown.json()).toMatchObject({ error: 'invalid_query' });
+	});
+
+	it('refuses provider vectors of the wrong size when storing and searching', async () => {
+		registerEmbeddingProvider('short', () => ({ name: 'short', embed: async (texts) => texts.map(() => [1, 0]) }));
+		try {
+			const { base } = await createEmbeddingActor({ dimensions: 8, params: { provider: 'short' } });
+			for (const res of [await post(`${base}/embeddings`, { text: 'cat' }), await post(`${base}/search`, { text: 'cat' })]) {
+				expect(res.status).toBe(400);
+				expect(await res.json()).toEqual({
+					error: 'invalid_embedding',
+					details: [{ path: '/vector', message: 'short provider returned a vector that must have 8 dimensions, got 2' }],
+				});
+			}
+		} finally {
+			delete embeddingProviders.short;
+		}
+	});
+
+	it('refuses a dimensions change once vectors are stored', async () => {
+		const { base } = await createEmbeddingActor({ dimensions: 2 });
+		const patch = (body: unknown) => call(`${base}/config`, { method: 'PATCH', body: JSON.stringify(body) });
+		expect((await post(`${base}/embeddings`, { id: 'a', vector: [1, 0] })).status).toBe(200);
+
+		const res = await patch({ dimensions: 3 });
+		expect(res.status).toBe(409);
+		const { plan } = await res.json<{ plan: { conflicts: string[] } }>();
+		expect(plan.conflicts).toEqual(['dimensions cannot change from 2 to 3 while 1 vectors are stored']);
+
+		const similarity = await (await patch({ params: { similarity: 'dot' } })).json<any>();
+		expect(similarity.plan).toMatchObject({ rows: 1, rows_reindexed: 1 });
+	});
+});
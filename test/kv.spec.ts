@@ -0,0 +1,162 @@
+import { env, createExecutionContext, waitOnExecutionContext, runInDurableObject, runDurableObjectAlarm } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+const ADMIN_KEY = 'test-admin-key';
+
+async function call(path: string, init?: RequestInit) {
+	const ctx = createExecutionContext();
+	const headers = { Authorization: `Bearer ${ADMIN_KEY}`, ...(init?.headers as Record<string, string>) };
+	const res = await worker.fetch(new IncomingRequest(`http://example.com${path}`, { ...init, headers }), env, ctx);
+	await waitOnExecutionContext(ctx);
+	return res;
+}
+
+async function createKvActor(schema: Record<string, unknown> = {}) {
+	const { podName } = await (await call('/pods', { method: 'POST' })).json<{ podName: string }>();
+	const res = await call(`/pods/${podName}/actors`, {
+		method: 'POST',
+		body: JSON.stringify({ config: { actorType: 'kv', version: 'v1', schema } }),
+	});
+	const { actorId } = await res.json<{ actorId: string }>();
+	return { base: `/pods/${podName}/actors/${actorId}`, stub: env.ACTOR_DO.get(env.ACTOR_DO.idFromName(`${podName}:${actorId}`)) };
+}
+
+const put = (path: string, body: unknown) => call(path, { method: 'PUT', body: JSON.stringify(body) });
+const post = (path: string, body: unknown) => call(path, { method: 'POST', body: JSON.stringify(body) });
+
+describe('kv.v1', () => {
+	it('stores versioned values and compares and swaps on the version', async () => {
+		const { base } = await createKvActor();
+		const created = await put(`${base}/kv/flag`, { value: { on: true } });
+		expect(created.status).toBe(201);
+		expect(await created.json()).toEqual({ key: 'flag', version: 1, expires_at: null });
+		expect(await (await call(`${base}/kv/flag`)).json()).toMatchObject({ key: 'flag', value: { on: true }, version: 1 });
+
+		expect((await put(`${base}/kv/flag`, { value: { on: false }, if_version: 1 })).status).toBe(200);
+		const stale = await put(`${base}/kv/flag`, { value: { on: true }, if_version: 1 });
+		expect(stale.status).toBe(409);
+		expect(await stale.json()).toMatchObject({ error: 'version_conflict', key: 'flag', version: 2 });
+		expect((await put(`${base}/kv/flag`, { value: 1, if_version: 0 })).status).toBe(409);
+		expect((await put(`${base}/kv/other`, { value: 1, if_version: 0 })).status).toBe(201);
+
+		expect((await call(`${base}/kv/flag?if_version=1`, { method: 'DELETE' })).status).toBe(409);
+		expect((await call(`${base}/kv/flag?if_version=2`, { method: 'DELETE' })).status).toBe(204);
+		expect((await call(`${base}/kv/flag`)).status).toBe(404);
+		expect((await call(`${base}/kv/flag`, { method: 'DELETE' })).status).toBe(404);
+
+		// versions come from one counter, so a recreated key never repeats an old one
+		const recreated = await put(`${base}/kv/flag`, { value: { on: true }, if_version: 0 });
+		expect(await recreated.json()).toMatchObject({ version: 4 });
+		expect((await put(`${base}/kv/flag`, { value: { on: false }, if_version: 1 })).status).toBe(409);
+	});
+
+	it('limits values by their UTF-8 size', async () => {
+		const { base } = await createKvActor();
+		expect((await put(`${base}/kv/ascii`, { value: 'a'.repeat(100_000) })).status).toBe(201);
+		const wide = await put(`${base}/kv/wide`, { value: 'é'.repeat(100_000) });
+		expect(wide.status).toBe(413);
+		expect(await wide.json()).toMatchObject({ error: 'value_too_large' });
+	});
+
+	it('lists keys by prefix with a cursor', async () => {
+		const { base } = await createKvActor();
+		for (const k of ['run:1', 'run:2', 'run:3', 'runner', 'other']) await put(`${base}/kv/${encodeURIComponent(k)}`, { value: k });
+
+		const page = await (await call(`${base}/kv?prefix=run:&limit=2`)).json<{ entries: { key: string }[]; next_cursor: string }>();
+		expect(page.entries.map((e) => e.key)).toEqual(['run:1', 'run:2']);
+		const rest = await (await call(`${base}/kv?prefix=run:&limit=2&cursor=${encodeURIComponent(page.next_cursor)}`)).json<any>();
+		expect(rest.entries.map((e: any) => e.key)).toEqual(['run:3']);
+		expect(rest.next_cursor).toBeNull();
+
+		const all = await (await call(`${base}/kv`)).json<{ entries: { key: string }[] }>();
+		expect(all.entries).toHaveLength(5);
+	});
+
+	it('increments counters atomically', async () => {
+		const { base } = await createKvActor();
+		expect(await (await post(`${base}/kv/hits/increment`, {})).json()).toMatchObject({ value: 1, version: 1 });
+		expect(await (await post(`${base}/kv/hits/increment`, { by: 5 })).json()).toMatchObject({ value: 6, version: 2 });
+		await put(`${base}/kv/name`, { value: 'paseo' });
+		const nan = await post(`${base}/kv/name/increment`, {});
+		expect(nan.status).toBe(409);
+		expect(await nan.json()).toMatchObject({ error: 'not_a_number' });
+	});
+
+	it('applies transactions all or nothing', async () => {
+		const { base } = await createKvActor();
+		await put(`${base}/kv/cursor`, { value: 10 });
+
+		const ok = await post(`${base}/kv:transaction`, {
+			ops: [
+				{ op: 'check', key: 'cursor', version: 1 },
+				{ op: 'put', key: 'cursor', value: 20 },
+				{ op: 'increment', key: 'processed', by: 10 },
+			],
+		});
+		expect(ok.status).toBe(200);
+		expect((await ok.json<any>()).results).toEqual([
+			{ key: 'cursor', version: 1 },
+			{ key: 'cursor', version: 2, expires_at: null },
+			{ key: 'processed', version: 3, expires_at: null, value: 10 },
+		]);
+
+		const failed = await post(`${base}/kv:transaction`, {
+			ops: [
+				{ op: 'put', key: 'cursor', value: 30 },
+				{ op: 'delete', key: 'processed', if_version: 7 },
+			],
+		});
+		expect(failed.status).toBe(409);
+		expect(await failed.json()).toMatchObject({ error: 'version_conflict', op: 1 });
+		expect(await (await call(`${base}/kv/cursor`)).json()).toMatchObject({ value: 20, version: 2 });
+
+		const invalid = await post(`${base}/kv:transaction`, { ops: [{ op: 'rename', key: 'cursor' }] });
+		expect(invalid.status).toBe(400);
+	});
+
+	it('expires keys with a TTL from the alarm', async () => {
+		const { base, stub } = await createKvActor();
+		await put(`${base}/kv/lock`, { value: 'worker-1', ttl_seconds: 60 });
+		await put(`${base}/kv/keep`, { value: 'forever' });
+		const lock = await (await call(`${base}/kv/lock`)).json<any>();
+		expect(lock.expires_at).toBeGreaterThan(Date.now());
+
+		await runInDurableObject(stub, async (_instance, state) => {
+			state.storage.sql.exec("UPDATE kv SET expires_at = ? WHERE id = 'lock'", Date.now() - 1);
+			expect(await state.storage.getAlarm()).not.toBeNull();
+		});
+		// expired keys are hidden before the alarm deletes them
+		expect((await call(`${base}/kv/lock`)).status).toBe(404);
+
+		await runDurableObjectAlarm(stub);
+		await runInDurableObject(stub, async (_instance, state) => {
+			expect(state.storage.sql.exec('SELECT id FROM kv').toArray().map((r) => r.id)).toEqual(['keep']);
+		});
+	});
+
+	it('keeps versions growing across an export and import', async () => {
+		const { base } = await createKvActor();
+		for (let i = 0; i < 3; i++) await post(`${base}/kv/n/increment`, {});
+		const snapshot = await (await call(`${base}/export`)).text();
+
+		const { podName } = await (await call('/pods', { method: 'POST' })).json<{ podName: string }>();
+		const { actorId } = await (await call(`/pods/${podName}/actors`, { method: 'POST', body: '{}' })).json<{ actorId: string }>();
+		const target = `/pods/${podName}/actors/${actorId}`;
+		expect((await call(`${target}/import`, { method: 'POST', body: snapshot })).status).toBe(200);
+		expect(await (await call(`${target}/kv/n`)).json()).toMatchObject({ value: 3, version: 3 });
+		expect(await (await put(`${target}/kv/m`, { value: 0 })).json()).toMatchObject({ version: 4 });
+	});
+
+	it('checks values against the schema and describes its routes', async () => {
+		const { base } = await createKvActor({ type: 'number' });
+		const bad = await put(`${base}/kv/n`, { value: 'text' });
+		expect(bad.status).toBe(400);
+		expect(await bad.json()).toMatchObject({ error: 'invalid_value' });
+
+		const spec = await (await call(`${base}/openapi.json`)).json<any>();
+		const ops = Object.values(spec.paths).flatMap((p: any) => Object.values(p).map((o: any) => o.operationId));
+		expect(ops.sort()).toEqual(['delete_kv', 'get_kv', 'increment_kv', 'kv_transaction', 'list_kv', 'put_kv']);
+	});
+});
@@ -3,20 +3,233 @@ import { describe, it, expect } from 'vitest';
 import worker from '../src/index';
 
 const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+const ADMIN_KEY = 'test-admin-key';
+
+async function call(path: string, init?: RequestInit) {
+        const ctx = createExecutionContext();
+        const headers = { Authorization: `Bearer ${ADMIN_KEY}`, ...(init?.headers as Record<string, string>) };
+        const res = await worker.fetch(new IncomingRequest(`http://example.com${path}`, { ...init, headers }), env, ctx);
+        await waitOnExecutionContext(ctx);
+        return res;
+}
 
 describe('Paseo worker', () => {
         it('creates a pod and responds to status', async () => {
-                const createReq = new IncomingRequest('http://example.com/pods', { method: 'POST' });
+                const createReq = new IncomingRequest('http://example.com/pods', { method: 'POST', headers: { Authorization: `Bearer ${ADMIN_KEY}` } });
                 const ctx = createExecutionContext();
                 const createRes = await worker.fetch(createReq, env, ctx);
                 await waitOnExecutionContext(ctx);
                 const body = await createRes.json<{ podName: string }>();
                 expect(body.podName).toMatch(/[0-9a-f-]{36}/);
 
-                const statusReq = new IncomingRequest(`http://example.com/pods/${body.podName}`);
+                const statusReq = new IncomingRequest(`http://example.com/pods/${body.podName}`, { headers: { Authorization: `Bearer ${ADMIN_KEY}` } });
                 const ctx2 = createExecutionContext();
                 const statusRes = await worker.fetch(statusReq, env, ctx2);
                 await waitOnExecutionContext(ctx2);
-                expect(await statusRes.text()).toBe('PaseoPod is alive.');
+                expect(statusRes.status).toBe(200);
+                expect(await statusRes.json()).toMatchObject({ podName: body.podName, actor_count: 0 });
+        });
+
+        it('returns 404 for unknown pods and actors', async () => {
+                const missing = crypto.randomUUID();
+                expect((await call(`/pods/${missing}`)).status).toBe(404);
+                expect((await call(`/pods/${missing}/actors`, { method: 'POST', body: '{}' })).status).toBe(404);
+
+                const { podName } = await (await call('/pods', { method: 'POST' })).json<{ podName: string }>();
+                expect((await call(`/pods/${podName}/actors/${missing}/items`)).status).toBe(404);
+        });
+});
+
+describe('pod registry', () => {
+        it('records pod metadata and the actors created in it', async () => {
+                const created = await call('/pods', {
+                        method: 'POST',
+                        body: JSON.stringify({ owner: 'team-a', labels: { env: 'test' } }),
+                });
+                const { podName } = await created.json<{ podName: string }>();
+
+                const { actorId } = await (
+                        await call(`/pods/${podName}/actors`, {
+                                method: 'POST',
+                                body: JSON.stringify({ config: { actorType: 'responsesStore', version: 'v1', schema: {} } }),
+                        })
+                ).json<{ actorId: string }>();
+
+                expect(await (await call(`/pods/${podName}`)).json()).toMatchObject({
+                        podName,
+                        owner: 'team-a',
+                        labels: { env: 'test' },
+                        actor_count: 1,
+                });
+                const listed = await (await call(`/pods/${podName}/actors`)).json<{ actors: any[] }>();
+                expect(listed.actors).toEqual([expect.objectContaining({ actorId, actorType: 'responsesStore', version: 'v1' })]);
+                expect(await (await call(`/pods/${podName}/actors/${actorId}`)).json()).toMatchObject({ actorId, actorType: 'responsesStore' });
+
+                const pods = await (await call('/pods?limit=200')).json<{ pods: { podName: string }[] }>();
+                expect(pods.pods.map((p) => p.podName)).toContain(podName);
+
+                expect((await call('/pods', { method: 'POST', body: JSON.stringify({ labels: { n: 1 } }) })).status).toBe(400);
+        });
+
+        it('keeps an actor in place in the list when its config changes', async () => {
+                const { podName } = await (await call('/pods', { method: 'POST' })).json<{ podName: string }>();
+                const create = async () =>
+                        (await (await call(`/pods/${podName}/actors`, { method: 'POST', body: '{}' })).json<{ actorId: string }>()).actorId;
+                const first = await create();
+                const second = await create();
+                const before = await (await call(`/pods/${podName}/actors/${first}`)).json<{ created_at: number }>();
+
+                const patched = await call(`/pods/${podName}/actors/${first}/config`, { method: 'PATCH', body: JSON.stringify({ version: 'v2' }) });
+                expect(patched.status).toBe(200);
+                const listed = await (await call(`/pods/${podName}/actors`)).json<{ actors: any[] }>();
+                expect(listed.actors.map((a) => [a.actorId, a.version])).toEqual([[first, 'v2'], [second, 'v1']]);
+                expect(listed.actors[0].created_at).toBe(before.created_at);
+        });
+
+        it('deletes actors and pods', async () => {
+                const { podName } = await (await call('/pods', { method: 'POST' })).json<{ podName: string }>();
+                const create = async () =>
+                        (await (await call(`/pods/${podName}/actors`, { method: 'POST', body: '{}' })).json<{ actorId: string }>()).actorId;
+                const first = await create();
+                const second = await create();
+                await call(`/pods/${podName}/actors/${first}/items`, { method: 'POST', body: JSON.stringify({ a: 1 }) });
+
+                expect((await call(`/pods/${podName}/actors/${first}`, { method: 'DELETE' })).status).toBe(204);
+                expect((await call(`/pods/${podName}/actors/${first}/items`)).status).toBe(404);
+                expect((await (await call(`/pods/${podName}/actors`)).json<{ actors: { actorId: string }[] }>()).actors.map((a) => a.actorId)).toEqual([second]);
+
+                expect((await call(`/pods/${podName}`, { method: 'DELETE' })).status).toBe(204);
+                expect((await call(`/pods/${podName}`)).status).toBe(404);
+                expect((await call(`/pods/${podName}/actors/${second}/items`)).status).toBe(404);
+        });
+});
+
+describe('API keys', () => {
+        const as = (key: string | null, init: RequestInit = {}) => ({
+                ...init,
+                headers: { ...(init.headers as Record<string, string>), Authorization: key ? `Bearer ${key}` : '' },
+        });
+
+        it('requires a key and enforces scopes per pod', async () => {
+                expect((await call('/pods', as(null, { method: 'POST' }))).status).toBe(401);
+                expect((await call('/pods', as('pk_nope', { method: 'POST' }))).status).toBe(401);
+
+                const { podName } = await (await call('/pods', { method: 'POST' })).json<{ podName: string }>();
+                const { actorId } = await (await call(`/pods/${podName}/actors`, { method: 'POST', body: '{}' })).json<{ actorId: string }>();
+                const issue = async (scopes: string[]) => {
+                        const res = await call(`/pods/${podName}/keys`, { method: 'POST', body: JSON.stringify({ name: scopes.join(','), scopes }) });
+                        expect(res.status).toBe(201);
+                        return (await res.json<{ key: string; keyId: string }>());
+                };
+                const reader = await issue(['actor:read']);
+                const writer = await issue(['actor:read', 'actor:write']);
+                const admin = await issue(['pod:admin']);
+                const items = `/pods/${podName}/actors/${actorId}/items`;
+
+                expect((await call(items, as(writer.key, { method: 'POST', body: JSON.stringify({ a: 1 }) }))).status).toBe(200);
+                expect((await call(items, as(reader.key))).status).toBe(200);
+                expect((await call(items, as(reader.key, { method: 'POST', body: JSON.stringify({ a: 2 }) }))).status).toBe(403);
+                expect((await call(`/pods/${podName}/actors/${actorId}/import`, as(writer.key, { method: 'POST', body: '' }))).status).toBe(403);
+                expect((await call(`/pods/${podName}/actors/${actorId}/config`, as(writer.key, { method: 'PATCH', body: '{}' }))).status).toBe(403);
+                expect((await call(`/pods/${podName}/actors/${actorId}/config`, as(reader.key))).status).toBe(200);
+                expect((await call(`/pods/${podName}/actors`, as(writer.key, { method: 'POST', body: '{}' }))).status).toBe(403);
+                expect((await call(`/pods/${podName}/actors`, as(admin.key, { method: 'POST', body: '{}' }))).status).toBe(200);
+                expect((await call('/pods', as(admin.key))).status).toBe(403);
+
+                // keys are bound to their pod
+                const other = await (await call('/pods', { method: 'POST' })).json<{ podName: string }>();
+                expect((await call(`/pods/${other.podName}`, as(admin.key))).status).toBe(403);
+
+                const listed = await (await call(`/pods/${podName}/keys`, as(admin.key))).json<{ keys: { keyId: string; key?: string }[] }>();
+                expect(listed.keys.map((k) => k.keyId)).toEqual([reader.keyId, writer.keyId, admin.keyId]);
+                expect(listed.keys.every((k) => k.key === undefined)).toBe(true);
+
+                expect((await call(`/pods/${podName}/keys/${reader.keyId}`, as(admin.key, { method: 'DELETE' }))).status).toBe(204);
+                expect((await call(items, as(reader.key))).status).toBe(401);
+        });
+
+        it('keeps the internal seed route off the public API', async () => {
+                const { podName } = await (await call('/pods', { method: 'POST' })).json<{ podName: string }>();
+                const { actorId } = await (await call(`/pods/${podName}/actors`, { method: 'POST', body: '{}' })).json<{ actorId: string }>();
+                const res = await call(`/pods/${podName}/actors/${actorId}/__seed`, { method: 'POST', body: JSON.stringify({ indexes: [] }) });
+                expect(res.status).toBe(404);
+
+                // nested below a data route, and percent-encoded
+                for (const sub of ['items/__seed', 'items/__destroy', 'items/%5F%5Fdestroy']) {
+                        expect((await call(`/pods/${podName}/actors/${actorId}/${sub}`, { method: 'POST', body: '{}' })).status).toBe(404);
+                }
+                expect((await call(`/pods/${podName}/actors/${actorId}/config`)).status).toBe(200);
+        });
+});
+
+describe('MCP endpoint', () => {
+        let nextId = 0;
+        const rpc = async (podName: string, method: string, params?: unknown, key?: string) => {
+                const headers: Record<string, string> = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+                if (key) headers.Authorization = `Bearer ${key}`;
+                const res = await call(`/pods/${podName}/mcp`, { method: 'POST', headers, body: JSON.stringify({ jsonrpc: '2.0', id: ++nextId, method, params }) });
+                expect(res.status).toBe(200);
+                return res.json<any>();
+        };
+        const createPod = async () => {
+                const { podName } = await (await call('/pods', { method: 'POST' })).json<{ podName: string }>();
+                const create = async (config: unknown) =>
+                        (await (await call(`/pods/${podName}/actors`, { method: 'POST', body: JSON.stringify({ config }) })).json<{ actorId: string }>()).actorId;
+                const store = await create({ actorType: 'store', version: 'v1', schema: { type: 'object', required: ['title'] } });
+                await create({ actorType: 'responsesStore', version: 'v1', schema: {} });
+                return { podName, store };
+        };
+
+        it('lists actor operations as tools and runs them', async () => {
+                const { podName, store } = await createPod();
+                const init = await rpc(podName, 'initialize', { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'test', version: '1' } });
+                expect(init.result).toMatchObject({ protocolVersion: '2025-06-18', capabilities: { tools: {}, resources: {} }, serverInfo: { name: 'paseo-core' } });
+                const notified = await call(`/pods/${podName}/mcp`, {
+                        method: 'POST',
+                        body: JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+                });
+                expect(notified.status).toBe(202);
+
+                const { tools } = (await rpc(podName, 'tools/list')).result;
+                const names = tools.map((t: any) => t.name);
+                expect(names).toEqual(expect.arrayContaining(['store_item', 'list_items', 'get_item', 'get_response', 'list_responses', 'get_response_thread']));
+                const storeItem = tools.find((t: any) => t.name === 'store_item');
+                expect(storeItem.description).toContain(store);
+                expect(storeItem.inputSchema).toMatchObject({ required: ['body'], properties: { body: { required: ['title'] } } });
+
+                const stored = (await rpc(podName, 'tools/call', { name: 'store_item', arguments: { body: { title: 'from mcp' } } })).result;
+                expect(stored.isError).toBe(false);
+                const { id } = stored.structuredContent;
+                const fetched = (await rpc(podName, 'tools/call', { name: 'get_item', arguments: { itemId: id } })).result;
+                expect(fetched.structuredContent.body).toEqual({ title: 'from mcp' });
+
+                const invalid = (await rpc(podName, 'tools/call', { name: 'store_item', arguments: { body: {} } })).result;
+                expect(invalid.isError).toBe(true);
+                expect((await rpc(podName, 'tools/call', { name: 'get_item', arguments: {} })).error.code).toBe(-32602);
+                expect((await rpc(podName, 'tools/call', { name: 'nope' })).error.code).toBe(-32602);
+                expect((await rpc(podName, 'resources/subscribe')).error.code).toBe(-32601);
+
+                const missing = (await rpc(podName, 'tools/call', { name: 'get_response', arguments: { responseId: 'resp_x' } })).result;
+                expect(missing.isError).toBe(true);
+        });
+
+        it('exposes actor configs as resources and applies key scopes', async () => {
+                const { podName, store } = await createPod();
+                const { resources } = (await rpc(podName, 'resources/list')).result;
+                expect(resources).toHaveLength(4);
+                const uri = `paseo://pods/${podName}/actors/${store}/config`;
+                const read = (await rpc(podName, 'resources/read', { uri })).result;
+                expect(JSON.parse(read.contents[0].text).config).toMatchObject({ actorType: 'store', schema: { required: ['title'] } });
+                expect((await rpc(podName, 'resources/read', { uri: 'paseo://pods/other/actors/x/config' })).error.code).toBe(-32002);
+
+                const { key } = await (
+                        await call(`/pods/${podName}/keys`, { method: 'POST', body: JSON.stringify({ scopes: ['actor:read'] }) })
+                ).json<{ key: string }>();
+                const names = (await rpc(podName, 'tools/list', undefined, key)).result.tools.map((t: any) => t.name);
+                expect(names).toContain('list_items');
+                expect(names).not.toContain('store_item');
+                expect((await rpc(podName, 'tools/call', { name: 'store_item', arguments: { body: { title: 'x' } } }, key)).error.code).toBe(-32602);
+
+                expect((await call(`/pods/${podName}/mcp`)).status).toBe(405);
         });
 });
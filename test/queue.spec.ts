@@ -0,0 +1,131 @@
+import { env, createExecutionContext, waitOnExecutionContext, runInDurableObject, runDurableObjectAlarm } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src/index';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+const ADMIN_KEY = 'test-admin-key';
+
+async function call(path: string, init?: RequestInit) {
+	const ctx = createExecutionContext();
+	const headers = { Authorization: `Bearer ${ADMIN_KEY}`, ...(init?.headers as Record<string, string>) };
+	const res = await worker.fetch(new IncomingRequest(`http://example.com${path}`, { ...init, headers }), env, ctx);
+	await waitOnExecutionContext(ctx);
+	return res;
+}
+
+async function createQueueActor(params?: Record<string, unknown>) {
+	const { podName } = await (await call('/pods', { method: 'POST' })).json<{ podName: string }>();
+	const res = await call(`/pods/${podName}/actors`, {
+		method: 'POST',
+		body: JSON.stringify({ config: { actorType: 'queue', version: 'v1', schema: { type: 'object' }, params } }),
+	});
+	const { actorId } = await res.json<{ actorId: string }>();
+	return { base: `/pods/${podName}/actors/${actorId}`, stub: env.ACTOR_DO.get(env.ACTOR_DO.idFromName(`${podName}:${actorId}`)) };
+}
+
+const post = (path: string, body: unknown = {}) => call(path, { method: 'POST', body: JSON.stringify(body) });
+
+type Lease = { lease_id: string | null; expires_at: number | null; messages: { id: string; body: any; attempts: number }[] };
+const lease = async (base: string, body: unknown = {}) => (await post(`${base}/lease`, body)).json<Lease>();
+
+/** make every current lease of the actor expire now */
+async function expireLeases(stub: DurableObjectStub) {
+	await runInDurableObject(stub, async (_instance, state) => {
+		state.storage.sql.exec("UPDATE messages SET available_at = ? WHERE state = 'leased'", Date.now() - 1);
+	});
+}
+
+describe('queue.v1', () => {
+	it('leases by priority, then age, and acks', async () => {
+		const { base } = await createQueueActor();
+		expect((await post(`${base}/messages`, { body: { n: 1 } })).status).toBe(201);
+		await post(`${base}/messages`, { body: { n: 2 }, priority: 5 });
+		await post(`${base}/messages`, { body: { n: 3 } });
+		await post(`${base}/messages`, { body: { n: 4 }, delay_seconds: 600 });
+		expect((await post(`${base}/messages`, { body: 'not an object' })).status).toBe(400);
+
+		const first = await lease(base, { max_messages: 2 });
+		expect(first.messages.map((m) => m.body.n)).toEqual([2, 1]);
+		expect(first.messages[0].attempts).toBe(1);
+
+		const stats = await (await call(`${base}/stats`)).json<any>();
+		expect(stats).toMatchObject({ depth: 2, ready: 1, delayed: 1, in_flight: 2, dead: 0 });
+		expect(stats.oldest_age_seconds).toBeGreaterThanOrEqual(0);
+
+		const acked = await post(`${base}/leases/${first.lease_id}/ack`, { ids: [first.messages[0].id] });
+		expect(await acked.json()).toEqual({ lease_id: first.lease_id, acked: 1 });
+		expect(await (await post(`${base}/leases/${first.lease_id}/ack`)).json()).toEqual({ lease_id: first.lease_id, acked: 1 });
+		expect((await post(`${base}/leases/${first.lease_id}/ack`)).status).toBe(404);
+
+		const rest = await lease(base, { max_messages: 10 });
+		expect(rest.messages.map((m) => m.body.n)).toEqual([3]);
+		expect(await lease(base)).toEqual({ lease_id: null, expires_at: null, messages: [] });
+	});
+
+	it('leases a nacked message ahead of newer ones of the same priority', async () => {
+		const { base } = await createQueueActor();
+		await post(`${base}/messages`, { body: { n: 1 } });
+		const first = await lease(base);
+		await post(`${base}/messages`, { body: { n: 2 } });
+		await post(`${base}/leases/${first.lease_id}/nack`);
+		expect((await lease(base, { max_messages: 2 })).messages.map((m) => m.body.n)).toEqual([1, 2]);
+	});
+
+	it('limits message bodies by their UTF-8 size', async () => {
+		const { base } = await createQueueActor();
+		expect((await post(`${base}/messages`, { body: { s: 'a'.repeat(200_000) } })).status).toBe(201);
+		const wide = await post(`${base}/messages`, { body: { s: 'é'.repeat(200_000) } });
+		expect(wide.status).toBe(413);
+		expect(await wide.json()).toMatchObject({ error: 'message_too_large' });
+	});
+
+	it('redelivers expired leases from the alarm and dead-letters after max_attempts', async () => {
+		const { base, stub } = await createQueueActor({ max_attempts: 2 });
+		const { id } = await (await post(`${base}/messages`, { body: { job: 'flaky' } })).json<{ id: string }>();
+
+		const one = await lease(base, { visibility_timeout_seconds: 60 });
+		await runInDurableObject(stub, async (_instance, state) => {
+			expect(await state.storage.getAlarm()).toBe(one.expires_at);
+		});
+		await expireLeases(stub);
+		await runDurableObjectAlarm(stub);
+		expect(await (await call(`${base}/messages/${id}`)).json()).toMatchObject({ state: 'ready', attempts: 1 });
+		expect((await post(`${base}/leases/${one.lease_id}/ack`)).status).toBe(404);
+
+		const two = await lease(base);
+		expect(two.messages[0].attempts).toBe(2);
+		const nacked = await post(`${base}/leases/${two.lease_id}/nack`, { error: 'boom' });
+		expect(await nacked.json()).toEqual({ lease_id: two.lease_id, released: 0, dead: 1 });
+
+		const dead = await (await call(`${base}/messages?state=dead`)).json<{ messages: any[] }>();
+		expect(dead.messages).toEqual([expect.objectContaining({ id, state: 'dead', attempts: 2, last_error: 'boom' })]);
+		expect((await lease(base)).messages).toHaveLength(0);
+
+		expect((await post(`${base}/messages/${id}/retry`)).status).toBe(200);
+		expect((await lease(base)).messages[0]).toMatchObject({ id, attempts: 1 });
+	});
+
+	it('nacks with a delay and extends leases', async () => {
+		const { base } = await createQueueActor();
+		await post(`${base}/messages`, { body: { n: 1 } });
+		await post(`${base}/messages`, { body: { n: 2 } });
+
+		const held = await lease(base, { max_messages: 2, visibility_timeout_seconds: 5 });
+		const extended = await (await post(`${base}/leases/${held.lease_id}/extend`, { visibility_timeout_seconds: 300 })).json<any>();
+		expect(extended.messages).toBe(2);
+		expect(extended.expires_at).toBeGreaterThan(held.expires_at!);
+
+		const back = await (await post(`${base}/leases/${held.lease_id}/nack`, { ids: [held.messages[0].id], delay_seconds: 600 })).json<any>();
+		expect(back).toMatchObject({ released: 1, dead: 0 });
+		const stats = await (await call(`${base}/stats`)).json<any>();
+		expect(stats).toMatchObject({ delayed: 1, in_flight: 1, ready: 0 });
+		expect((await lease(base)).messages).toHaveLength(0);
+	});
+
+	it('describes its routes in openapi', async () => {
+		const { base } = await createQueueActor();
+		const spec = await (await call(`${base}/openapi.json`)).json<any>();
+		const ops = Object.values(spec.paths).flatMap((p: any) => Object.values(p).map((o: any) => o.operationId));
+		expect(ops).toEqual(expect.arrayContaining(['enqueue_message', 'lease_messages', 'ack_messages', 'nack_messages', 'extend_lease', 'queue_stats']));
+	});
+});
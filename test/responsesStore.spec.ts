@@ -0,0 +1,443 @@
+import { env, createExecutionContext, waitOnExecutionContext, fetchMock, runDurableObjectAlarm } from 'cloudflare:test';
+import { describe, it, expect, beforeAll } from 'vitest';
+import worker from '../src/index';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+const ADMIN_KEY = 'test-admin-key';
+
+async function call(path: string, init?: RequestInit) {
+	const ctx = createExecutionContext();
+	const headers = { Authorization: `Bearer ${ADMIN_KEY}`, ...(init?.headers as Record<string, string>) };
+	const res = await worker.fetch(new IncomingRequest(`http://example.com${path}`, { ...init, headers }), env, ctx);
+	await waitOnExecutionContext(ctx);
+	return res;
+}
+
+async function createResponsesActor(params?: Record<string, unknown>) {
+	const { podName } = await (await call('/pods', { method: 'POST' })).json<{ podName: string }>();
+	const res = await call(`/pods/${podName}/actors`, {
+		method: 'POST',
+		body: JSON.stringify({ config: { actorType: 'responsesStore', version: 'v1', schema: {}, params } }),
+	});
+	const { actorId } = await res.json<{ actorId: string }>();
+	return `/pods/${podName}/actors/${actorId}`;
+}
+
+function responseDoc(id: string, text: string, extra: Record<string, unknown> = {}) {
+	return {
+		id,
+		object: 'response',
+		created_at: 1741476542,
+		status: 'completed',
+		model: 'gpt-4o-2024-08-06',
+		output: [{ type: 'message', id: `msg_${id}`, status: 'completed', role: 'assistant', content: [{ type: 'output_text', text }] }],
+		usage: { input_tokens: 10, output_tokens: 20, total_tokens: 30 },
+		...extra,
+	};
+}
+
+async function store(base: string, doc: unknown) {
+	return call(`${base}/responses`, { method: 'POST', body: JSON.stringify(doc) });
+}
+
+describe('responsesStore.v1 full-text search', () => {
+	it('ranks matches with BM25 and returns highlighted snippets', async () => {
+		const base = await createResponsesActor({ search_instructions: true });
+		const long = 'filler '.repeat(400) + 'the hidden treasure is buried under the old oak tree';
+		await store(base, responseDoc('resp_a', 'The quick brown fox jumps over the lazy dog.'));
+		await store(base, responseDoc('resp_b', 'Foxes are quick. A quick fox is a happy fox.'));
+		await store(base, responseDoc('resp_c', long));
+		await store(base, responseDoc('resp_d', 'Nothing to see here', { instructions: 'Answer like a pirate' }));
+
+		const search = async (q: string) =>
+			(await call(`${base}/responses?q=${encodeURIComponent(q)}`)).json<{
+				responses: { response_id: string; search: { score: number; snippet: string } }[];
+			}>();
+
+		const fox = await search('fox');
+		expect(fox.responses.map((r) => r.response_id)).toEqual(['resp_b', 'resp_a']);
+		expect(fox.responses[0].search.snippet).toContain('<mark>fox</mark>');
+
+		expect((await search('"brown fox"')).responses.map((r) => r.response_id)).toEqual(['resp_a']);
+		expect((await search('treas*')).responses.map((r) => r.response_id)).toEqual(['resp_c']);
+		expect((await search('pirate')).responses.map((r) => r.response_id)).toEqual(['resp_d']);
+
+		await call(`${base}/responses/resp_b`, { method: 'DELETE' });
+		expect((await search('fox')).responses.map((r) => r.response_id)).toEqual(['resp_a']);
+
+		expect((await call(`${base}/responses?q=${encodeURIComponent('AND (')}`)).status).toBe(400);
+	});
+
+	it('rejects q when content search is disabled', async () => {
+		const base = await createResponsesActor({ enable_content_search: false });
+		await store(base, responseDoc('resp_x', 'hello'));
+		expect((await call(`${base}/responses?q=hello`)).status).toBe(400);
+	});
+});
+
+describe('responsesStore.v1 conversation threads', () => {
+	// r1 -> r2 -> r3, with r2 also forking into r3b; r5 continues a response that was never stored
+	async function conversation() {
+		const base = await createResponsesActor();
+		await store(base, responseDoc('r1', 'hi', { created_at: 1 }));
+		await store(base, responseDoc('r2', 'how can I help', { created_at: 2, previous_response_id: 'r1' }));
+		await store(base, responseDoc('r3', 'sure', { created_at: 3, previous_response_id: 'r2' }));
+		await store(base, responseDoc('r3b', 'no', { created_at: 4, previous_response_id: 'r2' }));
+		await store(base, responseDoc('r5', 'later', { created_at: 5, previous_response_id: 'r_gone' }));
+		return base;
+	}
+	const ids = (rows: { response_id: string }[]) => rows.map((r) => r.response_id);
+
+	it('returns the ancestor chain oldest first', async () => {
+		const base = await conversation();
+		const thread = await (await call(`${base}/responses/r3/thread`)).json<any>();
+		expect(ids(thread.thread)).toEqual(['r1', 'r2', 'r3']);
+		expect(thread).toMatchObject({ root_response_id: 'r1', missing_parent: null, truncated: false });
+		expect(thread.thread[1].body.output[0].content[0].text).toBe('how can I help');
+
+		expect(await (await call(`${base}/responses/r5/thread`)).json()).toMatchObject({ missing_parent: 'r_gone', root_response_id: null });
+		expect(await (await call(`${base}/responses/r3/thread?max_depth=1`)).json()).toMatchObject({ truncated: true });
+		expect((await call(`${base}/responses/nope/thread`)).status).toBe(404);
+		expect(await (await call(`${base}/responses/r3`)).json()).toMatchObject({ response_id: 'r3', previous_response_id: 'r2' });
+		expect(await (await call(`${base}/responses/r1`)).json()).toMatchObject({ previous_response_id: null });
+	});
+
+	it('lists branches, roots and leaves', async () => {
+		const base = await conversation();
+		const children = await (await call(`${base}/responses/r2/children`)).json<{ children: any[] }>();
+		expect(ids(children.children)).toEqual(['r3', 'r3b']);
+		const all = await (await call(`${base}/responses/r1/children?depth=5`)).json<{ children: any[] }>();
+		expect(all.children.map((c) => [c.response_id, c.depth])).toEqual([['r2', 1], ['r3', 2], ['r3b', 2]]);
+
+		const list = async (q: string) => ids((await (await call(`${base}/responses?${q}`)).json<{ responses: any[] }>()).responses);
+		expect(await list('root=true')).toEqual(['r1', 'r5']);
+		expect(await list('leaf=true')).toEqual(['r3', 'r3b', 'r5']);
+		expect(await list('previous_response_id=r2')).toEqual(['r3', 'r3b']);
+		expect((await call(`${base}/responses?root=yes`)).status).toBe(400);
+	});
+});
+
+describe('responsesStore.v1 usage stats', () => {
+	const DAY = 86400;
+	const t0 = 1735689600; // 2025-01-01T00:00:00Z
+	const usage = (input: number, output: number, extra: Record<string, unknown> = {}) => ({
+		usage: { input_tokens: input, output_tokens: output, total_tokens: input + output, ...extra },
+	});
+
+	it('groups by model and buckets by day', async () => {
+		const base = await createResponsesActor();
+		await store(base, responseDoc('s1', 'a', { created_at: t0 + 10, model: 'gpt-4o', ...usage(10, 10) }));
+		await store(base, responseDoc('s2', 'b', { created_at: t0 + 20, model: 'gpt-4o', ...usage(30, 70, { output_tokens_details: { reasoning_tokens: 40 } }) }));
+		await store(base, responseDoc('s3', 'c', { created_at: t0 + DAY, model: 'gpt-4o', ...usage(5, 5, { input_tokens_details: { cached_tokens: 4 } }) }));
+		await store(base, responseDoc('s4', 'd', { created_at: t0 + 30, model: 'o3', status: 'failed', ...usage(1, 1) }));
+
+		const res = await call(`${base}/responses/stats?group_by=model&bucket=day&from=2025-01-01&to=${t0 + 2 * DAY}`);
+		expect(res.status).toBe(200);
+		const { stats } = await res.json<{ stats: any[] }>();
+		expect(stats.map((s) => [s.group, s.bucket_start, s.count])).toEqual([
+			['gpt-4o', '2025-01-01T00:00:00.000Z', 2],
+			['o3', '2025-01-01T00:00:00.000Z', 1],
+			['gpt-4o', '2025-01-02T00:00:00.000Z', 1],
+		]);
+		expect(stats[0].tokens).toEqual({ input_tokens: 40, output_tokens: 80, reasoning_tokens: 40, cached_tokens: 0, total_tokens: 120 });
+		expect(stats[0].total_tokens_percentiles).toEqual({ p50: 20, p90: 100, p99: 100 });
+		expect(stats[2].tokens.cached_tokens).toBe(4);
+
+		// list filters apply too
+		const failed = await (await call(`${base}/responses/stats?status=failed`)).json<{ stats: any[] }>();
+		expect(failed.stats).toEqual([expect.objectContaining({ group: null, bucket: null, count: 1 })]);
+
+		expect((await call(`${base}/responses/stats?group_by=nope`)).status).toBe(400);
+		expect((await call(`${base}/responses/stats?bucket=month`)).status).toBe(400);
+		expect((await call(`${base}/responses/stats?from=yesterday`)).status).toBe(400);
+	});
+});
+
+describe('responsesStore.v1 streaming ingest', () => {
+	const created = { id: 'resp_s', object: 'response', created_at: 1741476542, status: 'in_progress', model: 'gpt-4o', output: [] };
+	const message = { type: 'message', id: 'msg_s', status: 'in_progress', role: 'assistant', content: [] };
+	const opening = [
+		{ type: 'response.created', sequence_number: 0, response: created },
+		{ type: 'response.output_item.added', output_index: 0, item: message },
+		{ type: 'response.content_part.added', output_index: 0, content_index: 0, part: { type: 'output_text', text: '', annotations: [] } },
+		{ type: 'response.output_text.delta', output_index: 0, content_index: 0, delta: 'Hello' },
+		{ type: 'response.output_text.delta', output_index: 0, content_index: 0, delta: ', world' },
+	];
+	const completed = {
+		type: 'response.completed',
+		response: responseDoc('resp_s', 'Hello, world', { usage: { input_tokens: 3, output_tokens: 4, total_tokens: 7 } }),
+	};
+	const sse = (events: unknown[]) =>
+		events.map((e: any) => `event: ${e.type}\ndata: ${JSON.stringify(e)}\n\n`).join('') + 'data: [DONE]\n\n';
+	const ndjson = (events: unknown[]) => events.map((e) => JSON.stringify(e)).join('\n');
+	const stream = (base: string, body: string, type: string) =>
+		call(`${base}/responses/stream`, { method: 'POST', headers: { 'Content-Type': type }, body });
+
+	it('assembles an SSE stream into the final response', async () => {
+		const base = await createResponsesActor();
+		const res = await stream(base, sse([...opening, completed]), 'text/event-stream');
+		expect(await res.json()).toMatchObject({ response_id: 'resp_s', status: 'completed', complete: true, events: 6 });
+
+		const stored = await (await call(`${base}/responses/resp_s`)).json<any>();
+		expect(stored).toMatchObject({ status: 'completed', total_tokens: 7 });
+		const outputs = await (await call(`${base}/responses/resp_s/outputs`)).json<any>();
+		expect(outputs.outputs[0].output_content_preview).toBe('Hello, world');
+	});
+
+	it('keeps a partial stream as in_progress until it is replaced', async () => {
+		const base = await createResponsesActor();
+		const partial = await stream(base, ndjson(opening), 'application/x-ndjson');
+		expect(await partial.json()).toMatchObject({ status: 'in_progress', complete: false, stored: ['resp_s'] });
+
+		const stored = await (await call(`${base}/responses/resp_s`)).json<any>();
+		expect(stored.status).toBe('in_progress');
+		expect(stored.body.output[0].content[0].text).toBe('Hello, world');
+		const inProgress = await (await call(`${base}/responses?status=in_progress`)).json<{ responses: unknown[] }>();
+		expect(inProgress.responses).toHaveLength(1);
+
+		// a stream never takes over a stored response; PUT finishes it
+		const again = await stream(base, ndjson([completed]), 'application/x-ndjson');
+		expect(again.status).toBe(409);
+		expect(await again.json()).toMatchObject({ error: 'duplicate_id' });
+		expect((await (await call(`${base}/responses/resp_s`)).json<any>()).status).toBe('in_progress');
+		await call(`${base}/responses/resp_s`, { method: 'PUT', body: JSON.stringify(completed.response) });
+		expect((await stream(base, sse([...opening, completed]), 'text/event-stream')).status).toBe(409);
+		const list = await (await call(`${base}/responses`)).json<{ responses: any[] }>();
+		expect(list.responses.map((r) => [r.response_id, r.status])).toEqual([['resp_s', 'completed']]);
+	});
+
+	it('rejects out-of-order events but keeps what came before', async () => {
+		const base = await createResponsesActor();
+		const bad = { type: 'response.output_text.delta', output_index: 3, content_index: 0, delta: '!' };
+		const res = await stream(base, ndjson([...opening, bad]), 'application/x-ndjson');
+		expect(res.status).toBe(400);
+		expect(await res.json()).toMatchObject({ error: 'invalid_stream', event: 6, stored: ['resp_s'] });
+		expect((await (await call(`${base}/responses/resp_s`)).json<any>()).body.output[0].content[0].text).toBe('Hello, world');
+
+		const orphan = await stream(base, ndjson([opening[3]]), 'application/x-ndjson');
+		expect(orphan.status).toBe(400);
+	});
+});
+
+describe('responsesStore.v1 webhooks', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	it('queues response.stored once a response leaves in_progress, and response.failed for failures', async () => {
+		const base = await createResponsesActor();
+		const hook = await (
+			await call(`${base}/webhooks`, {
+				method: 'POST',
+				body: JSON.stringify({ url: 'https://hooks.test/responses', events: ['response.stored', 'response.failed'] }),
+			})
+		).json<{ id: string }>();
+
+		await store(base, responseDoc('resp_a', 'draft', { status: 'in_progress' }));
+		await call(`${base}/responses/resp_a`, { method: 'PUT', body: JSON.stringify(responseDoc('resp_a', 'done')) });
+		await store(base, responseDoc('resp_b', '', { status: 'failed' }));
+
+		const { deliveries } = await (await call(`${base}/webhooks/${hook.id}/deliveries`)).json<any>();
+		const queued = deliveries.map((d: any) => [d.event, d.payload.data.id]).sort();
+		expect(queued).toEqual([
+			['response.failed', 'resp_b'],
+			['response.stored', 'resp_a'],
+			['response.stored', 'resp_b'],
+		]);
+	});
+});
+
+describe('responsesStore.v1 pipelines', () => {
+	const createActor = async (podName: string, config: unknown) => {
+		const res = await call(`/pods/${podName}/actors`, { method: 'POST', body: JSON.stringify({ config }) });
+		return { res, actorId: res.ok ? (await res.json<{ actorId: string }>()).actorId : '' };
+	};
+	// the alarm may already be sending when the test gets to it, so wait for the outbox to empty
+	const drained = async (base: string) => {
+		const [, , podName, , actorId] = base.split('/');
+		for (let i = 0; i < 50; i++) {
+			await runDurableObjectAlarm(env.ACTOR_DO.get(env.ACTOR_DO.idFromName(`${podName}:${actorId}`)));
+			const { pipelines } = await (await call(`${base}/pipelines`)).json<{ pipelines: { pending: number }[] }>();
+			if (pipelines.every((p) => p.pending === 0)) return;
+			await new Promise((resolve) => setTimeout(resolve, 20));
+		}
+		throw new Error('pipelines did not drain');
+	};
+	const toolCall = { type: 'function_call', id: 'fc_1', call_id: 'call_1', name: 'get_weather', arguments: '{"city":"Oslo"}', status: 'completed' };
+
+	it('forwards projected outputs to a sibling actor and reports refusals', async () => {
+		const { podName } = await (await call('/pods', { method: 'POST' })).json<{ podName: string }>();
+		const tools = await createActor(podName, {
+			actorType: 'store',
+			version: 'v1',
+			schema: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+		});
+		const source = await createActor(podName, {
+			actorType: 'responsesStore',
+			version: 'v1',
+			schema: {},
+			pipelines: [
+				{
+					name: 'tool-calls',
+					target: tools.actorId,
+					select: 'output[*]',
+					where: { type: 'function_call' },
+					fields: { name: 'name', arguments: 'arguments', response_id: '$.id' },
+				},
+				// messages have no name, so the target refuses them
+				{ name: 'messages', target: tools.actorId, ops: ['insert'], select: 'output[*]', where: { type: 'message' } },
+			],
+		});
+		expect(source.res.status).toBe(200);
+		const base = `/pods/${podName}/actors/${source.actorId}`;
+
+		const doc = responseDoc('resp_p', 'Checking the weather');
+		await store(base, { ...doc, output: [...doc.output, toolCall] });
+		await drained(base);
+		const items = await (await call(`/pods/${podName}/actors/${tools.actorId}/items`)).json<{ items: any[] }>();
+		expect(items.items.map((i) => i.body)).toEqual([{ name: 'get_weather', arguments: '{"city":"Oslo"}', response_id: 'resp_p' }]);
+
+		const status = await (await call(`${base}/pipelines`)).json<any>();
+		const [tool, messages] = status.pipelines;
+		expect(tool).toMatchObject({ name: 'tool-calls', target: tools.actorId, route: 'items', pending: 0, delivered: 1, rejected: 0, last_error: null });
+		expect(messages).toMatchObject({ pending: 0, delivered: 0, rejected: 1, last_error: { status: 400 } });
+		expect(messages.recent_rejections[0].body).toMatchObject({ type: 'message', id: 'msg_resp_p' });
+	});
+
+	it('refuses pipelines to actors outside the pod', async () => {
+		const { podName } = await (await call('/pods', { method: 'POST' })).json<{ podName: string }>();
+		const { res } = await createActor(podName, {
+			actorType: 'responsesStore',
+			version: 'v1',
+			schema: {},
+			pipelines: [{ name: 'nowhere', target: crypto.randomUUID() }],
+		});
+		expect(res.status).toBe(400);
+		expect(await res.json()).toMatchObject({ error: 'invalid_config' });
+	});
+
+	it('refuses pipelines to internal actor routes', async () => {
+		const { podName } = await (await call('/pods', { method: 'POST' })).json<{ podName: string }>();
+		const victim = await createActor(podName, { actorType: 'store', version: 'v1', schema: {} });
+		for (const route of ['__destroy', '__seed', 'items/__destroy', 'x/%5F%5Fseed']) {
+			const { res } = await createActor(podName, {
+				actorType: 'responsesStore',
+				version: 'v1',
+				schema: {},
+				pipelines: [{ name: 'wipe', target: victim.actorId, route }],
+			});
+			expect(res.status).toBe(400);
+			expect(await res.json()).toMatchObject({ error: 'invalid_config' });
+		}
+		expect((await call(`/pods/${podName}/actors/${victim.actorId}/items`)).status).toBe(200);
+	});
+});
+
+describe('responsesStore.v1 unique response ids', () => {
+	it('refuses a second copy of a response and creates one with PUT', async () => {
+		const base = await createResponsesActor();
+		expect((await store(base, responseDoc('resp_u', 'first'))).status).toBe(200);
+		const dup = await store(base, responseDoc('resp_u', 'second'));
+		expect(dup.status).toBe(409);
+		expect(await dup.json()).toMatchObject({ error: 'duplicate_id' });
+
+		const put = (id: string, doc: unknown) => call(`${base}/responses/${id}`, { method: 'PUT', body: JSON.stringify(doc) });
+		expect((await put('resp_v', responseDoc('resp_v', 'created'))).status).toBe(201);
+		expect((await put('resp_w', responseDoc('resp_v', 'mismatch'))).status).toBe(400);
+		expect((await put('resp_u', responseDoc('resp_u', 'replaced'))).status).toBe(200);
+
+		const { responses } = await (await call(`${base}/responses`)).json<{ responses: { response_id: string }[] }>();
+		expect(responses.map((r) => r.response_id)).toEqual(['resp_u', 'resp_v']);
+		const got = await (await call(`${base}/responses/resp_u`)).json<any>();
+		expect(got.body.output[0].content[0].text).toBe('replaced');
+	});
+});
+
+describe('responsesStore.v1 field projection', () => {
+	it('returns only the requested parts of each response', async () => {
+		const base = await createResponsesActor();
+		await store(base, responseDoc('resp_p', 'projected text', { tools: [{ type: 'web_search' }] }));
+
+		const one = await (await call(`${base}/responses/resp_p?fields=usage,output[*].content[*].text`)).json<any>();
+		expect(one.response_id).toBe('resp_p');
+		expect(one.body).toEqual({
+			usage: { input_tokens: 10, output_tokens: 20, total_tokens: 30 },
+			output: [{ content: [{ text: 'projected text' }] }],
+		});
+
+		const { responses } = await (await call(`${base}/responses?exclude=output,usage,tools`)).json<{ responses: { body: any }[] }>();
+		expect(Object.keys(responses[0].body).sort()).toEqual(['created_at', 'id', 'model', 'object', 'status']);
+
+		const res = await call(`${base}/responses/resp_p?fields=id`);
+		expect(res.headers.get('ETag')).toMatch(/^W\//);
+		expect((await call(`${base}/responses?fields=output[x]`)).status).toBe(400);
+	});
+});
+
+describe('responsesStore.v1 batch ingest', () => {
+	it('stores a batch of responses in one request', async () => {
+		const base = await createResponsesActor();
+		const res = await call(`${base}/responses:batch`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/x-ndjson' },
+			body: [responseDoc('resp_1', 'first'), responseDoc('resp_2', 'second')].map((d) => JSON.stringify(d)).join('\n'),
+		});
+		expect(res.status).toBe(200);
+		const body = await res.json<{ written: number; results: { response_id: string; outputs_indexed: number }[] }>();
+		expect(body.written).toBe(2);
+		expect(body.results.map((r) => r.response_id)).toEqual(['resp_1', 'resp_2']);
+		expect((await call(`${base}/responses/resp_2`)).status).toBe(200);
+
+		const bad = await call(`${base}/responses:batch`, {
+			method: 'POST',
+			body: JSON.stringify([responseDoc('resp_3', 'third'), { id: 'resp_4' }]),
+		});
+		expect(bad.status).toBe(400);
+		expect((await call(`${base}/responses/resp_3`)).status).toBe(404);
+	});
+});
+
+describe('actor export and import', () => {
+	it('round-trips config and rows through an NDJSON snapshot', async () => {
+		const source = await createResponsesActor({ max_output_content_length: 10 });
+		await store(source, responseDoc('resp_x', 'exported text'));
+		await store(source, responseDoc('resp_y', 'another one', { status: 'failed' }));
+
+		const exported = await call(`${source}/export`);
+		expect(exported.headers.get('Content-Type')).toBe('application/x-ndjson');
+		const snapshot = await exported.text();
+		const lines = snapshot.trim().split('\n').map((l) => JSON.parse(l));
+		expect(lines[0]).toMatchObject({ type: 'config', config: { actorType: 'responsesStore', params: { max_output_content_length: 10 } } });
+		expect(lines.slice(1).map((l) => l.body.id).sort()).toEqual(['resp_x', 'resp_y']);
+
+		// a target created without config takes the snapshot's config
+		const { podName } = await (await call('/pods', { method: 'POST' })).json<{ podName: string }>();
+		const { actorId } = await (await call(`/pods/${podName}/actors`, { method: 'POST', body: '{}' })).json<{ actorId: string }>();
+		const target = `/pods/${podName}/actors/${actorId}`;
+		const imported = await call(`${target}/import`, { method: 'POST', body: snapshot });
+		expect(imported.status).toBe(200);
+		expect(await imported.json()).toMatchObject({ actorType: 'responsesStore', config_applied: true, rows_imported: 2 });
+
+		const copy = await (await call(`${target}/responses/resp_y`)).json<{ id: string; ts: number; status: string }>();
+		expect(copy.id).toBe(lines.find((l) => l.body?.id === 'resp_y').id);
+		expect(copy.status).toBe('failed');
+		const outputs = await (await call(`${target}/responses/resp_x/outputs`)).json<{ outputs: { output_content_preview: string }[] }>();
+		expect(outputs.outputs[0].output_content_preview).toBe('exported t');
+		expect((await call(`${target}/responses?q=another`)).status).toBe(200);
+
+		expect((await call(`${target}/import`, { method: 'POST', body: snapshot })).status).toBe(409);
+	});
+
+	it('rejects a snapshot with an invalid row without storing any', async () => {
+		const base = await createResponsesActor();
+		const row = (id: string, body: unknown) => JSON.stringify({ type: 'row', id, ts: 1700000000, schema_version: 'v1', body });
+		const res = await call(`${base}/import`, {
+			method: 'POST',
+			body: [row('a', responseDoc('resp_ok', 'fine')), row('b', { id: 'resp_bad' })].join('\n'),
+		});
+		expect(res.status).toBe(400);
+		expect(await res.json()).toMatchObject({ error: 'invalid_snapshot', line: 2 });
+		expect((await call(`${base}/responses/resp_ok`)).status).toBe(404);
+	});
+});
@@ -0,0 +1,871 @@
+import { env, createExecutionContext, waitOnExecutionContext, runInDurableObject, runDurableObjectAlarm, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import worker from '../src/index';
+import { registry } from '../src/registry';
+import { storeHandlerFactory } from '../src/handlers/store';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+const ADMIN_KEY = 'test-admin-key';
+
+async function call(path: string, init?: RequestInit) {
+	const ctx = createExecutionContext();
+	const headers = { Authorization: `Bearer ${ADMIN_KEY}`, ...(init?.headers as Record<string, string>) };
+	const res = await worker.fetch(new IncomingRequest(`http://example.com${path}`, { ...init, headers }), env, ctx);
+	await waitOnExecutionContext(ctx);
+	return res;
+}
+
+async function createStoreActor(params?: Record<string, unknown>) {
+	const { podName } = await (await call('/pods', { method: 'POST' })).json<{ podName: string }>();
+	const res = await call(`/pods/${podName}/actors`, {
+		method: 'POST',
+		body: JSON.stringify({
+			config: {
+				actorType: 'store',
+				version: 'v1',
+				schema: {
+					type: 'object',
+					properties: { message: { type: 'string' }, meta: { type: 'object', properties: { kind: { type: 'string' } } } },
+					required: ['message'],
+				},
+				indexes: ['meta.kind'],
+				params,
+			},
+		}),
+	});
+	const { actorId } = await res.json<{ actorId: string }>();
+	return `/pods/${podName}/actors/${actorId}`;
+}
+
+describe('store.v1 item updates', () => {
+	it('replaces, patches and deletes items with ETag checks', async () => {
+		const base = await createStoreActor();
+		const created = await call(`${base}/items`, {
+			method: 'POST',
+			body: JSON.stringify({ message: 'hello', meta: { kind: 'a' } }),
+		});
+		const { id } = await created.json<{ id: string }>();
+		const etag = created.headers.get('ETag')!;
+		expect(etag).toMatch(/^"[0-9a-f]+"$/);
+
+		const put = await call(`${base}/items/${id}`, {
+			method: 'PUT',
+			headers: { 'If-Match': etag },
+			body: JSON.stringify({ message: 'replaced', meta: { kind: 'b' } }),
+		});
+		expect(put.status).toBe(200);
+		const etag2 = put.headers.get('ETag')!;
+		expect(etag2).not.toBe(etag);
+
+		const stale = await call(`${base}/items/${id}`, {
+			method: 'PUT',
+			headers: { 'If-Match': etag },
+			body: JSON.stringify({ message: 'lost update' }),
+		});
+		expect(stale.status).toBe(412);
+
+		// If-Match compares strongly: the weak form of the current ETag does not match
+		const weak = await call(`${base}/items/${id}`, {
+			method: 'PUT',
+			headers: { 'If-Match': `W/${etag2}` },
+			body: JSON.stringify({ message: 'weak' }),
+		});
+		expect(weak.status).toBe(412);
+		expect((await call(`${base}/items/${id}`, { headers: { 'If-None-Match': `W/${etag2}` } })).status).toBe(304);
+
+		const filtered = await (await call(`${base}/items?k_meta_kind=b`)).json<{ items: { id: string }[] }>();
+		expect(filtered.items.map((i) => i.id)).toEqual([id]);
+
+		const merge = await call(`${base}/items/${id}`, {
+			method: 'PATCH',
+			headers: { 'Content-Type': 'application/merge-patch+json', 'If-Match': etag2 },
+			body: JSON.stringify({ meta: { kind: 'c' } }),
+		});
+		expect(merge.status).toBe(200);
+
+		const patch = await call(`${base}/items/${id}`, {
+			method: 'PATCH',
+			headers: { 'Content-Type': 'application/json-patch+json' },
+			body: JSON.stringify([
+				{ op: 'test', path: '/meta/kind', value: 'c' },
+				{ op: 'replace', path: '/message', value: 'patched' },
+			]),
+		});
+		expect(patch.status).toBe(200);
+
+		const invalid = await call(`${base}/items/${id}`, {
+			method: 'PATCH',
+			headers: { 'Content-Type': 'application/json-patch+json' },
+			body: JSON.stringify([{ op: 'remove', path: '/message' }]),
+		});
+		expect(invalid.status).toBe(400);
+
+		const got = await call(`${base}/items/${id}`);
+		const item = await got.json<{ body: any }>();
+		expect(item.body).toEqual({ message: 'patched', meta: { kind: 'c' } });
+		expect((await call(`${base}/items/${id}`, { headers: { 'If-None-Match': got.headers.get('ETag')! } })).status).toBe(304);
+
+		expect((await call(`${base}/items/${id}`, { method: 'DELETE' })).status).toBe(204);
+		expect((await call(`${base}/items/${id}`)).status).toBe(404);
+	});
+});
+
+describe('store.v1 retention', () => {
+	it('purges items older than retention_days from the alarm', async () => {
+		const base = await createStoreActor({ retention_days: 1 });
+		const [, , podName, , actorId] = base.split('/');
+		const stub = env.ACTOR_DO.get(env.ACTOR_DO.idFromName(`${podName}:${actorId}`));
+
+		const old = await (await call(`${base}/items`, { method: 'POST', body: JSON.stringify({ message: 'old' }) })).json<{ id: string }>();
+		const fresh = await (await call(`${base}/items`, { method: 'POST', body: JSON.stringify({ message: 'fresh' }) })).json<{ id: string }>();
+		await runInDurableObject(stub, async (_instance, state) => {
+			state.storage.sql.exec('UPDATE items SET ts = ts - 2 * 86400 WHERE id = ?', old.id);
+			await state.storage.put('retention_next_at', Date.now());
+		});
+
+		expect(await runDurableObjectAlarm(stub)).toBe(true);
+
+		const list = await (await call(`${base}/items`)).json<{ items: { id: string }[] }>();
+		expect(list.items.map((i) => i.id)).toEqual([fresh.id]);
+
+		const status = await (await call(`${base}/status`)).json<any>();
+		expect(status.retention.retention_days).toBe(1);
+		expect(status.retention.last_purge.rows_removed.items).toBe(1);
+		expect(status.retention.next_purge_at).toBeGreaterThan(Date.now());
+	});
+});
+
+describe('store.v1 index migrations', () => {
+	it('keeps existing items and backfills new index columns on reseed', async () => {
+		const base = await createStoreActor();
+		const [, , podName, , actorId] = base.split('/');
+		const stub = env.ACTOR_DO.get(env.ACTOR_DO.idFromName(`${podName}:${actorId}`));
+
+		const { id } = await (await call(`${base}/items`, { method: 'POST', body: JSON.stringify({ message: 'hi', meta: { kind: 'a' } }) })).json<{ id: string }>();
+
+		const reseed = await stub.fetch(`http://example.com${base}/__seed`, {
+			method: 'POST',
+			body: JSON.stringify({ indexes: ['message'] }),
+		});
+		expect(reseed.status).toBe(200);
+
+		const byMessage = await (await call(`${base}/items?k_message=hi`)).json<{ items: { id: string }[] }>();
+		expect(byMessage.items.map((i) => i.id)).toEqual([id]);
+
+		const status = await (await call(`${base}/status`)).json<any>();
+		expect(status.index_backfill.pending_columns).toEqual([]);
+
+		await runInDurableObject(stub, async (_instance, state) => {
+			const cols = state.storage.sql.exec('PRAGMA table_info(items)').toArray().map((r) => r.name);
+			expect(cols).toContain('k_message');
+			expect(cols).not.toContain('k_meta_kind');
+		});
+	});
+});
+
+describe('store.v1 config changes', () => {
+	const patchConfig = (base: string, body: unknown, query = '') =>
+		call(`${base}/config${query}`, { method: 'PATCH', body: JSON.stringify(body) });
+	const post = (path: string, body: unknown) => call(path, { method: 'POST', body: JSON.stringify(body) });
+
+	it('reports what a change does with dry_run before applying it', async () => {
+		const base = await createStoreActor();
+		await post(`${base}/items`, { message: 'hi', meta: { kind: 'a' } });
+		await post(`${base}/items`, { message: 'yo' });
+
+		const change = { indexes: ['message'], schema: { required: ['message', 'meta'] } };
+		const dry = await patchConfig(base, change, '?dry_run=true');
+		expect(dry.status).toBe(200);
+		expect(await dry.json()).toMatchObject({
+			dry_run: true,
+			config: { indexes: ['message'] },
+			plan: { columns_added: ['k_message'], columns_dropped: ['k_meta_kind'], rows: 2, rows_reindexed: 2, rows_invalid: 1 },
+		});
+		const current = await (await call(`${base}/config`)).json<any>();
+		expect(current).toMatchObject({ revision: 1, config: { indexes: ['meta.kind'] }, error: null });
+
+		const applied = await patchConfig(base, change);
+		expect(await applied.json()).toMatchObject({ dry_run: false, revision: 2, config: { schema: { required: ['message', 'meta'] } } });
+		const byMessage = await (await call(`${base}/items?k_message=hi`)).json<{ items: unknown[] }>();
+		expect(byMessage.items).toHaveLength(1);
+	});
+
+	it('keeps a history that a bad change can be rolled back to', async () => {
+		const base = await createStoreActor();
+		await patchConfig(base, { indexes: ['message'] });
+		await patchConfig(base, { params: { retention_days: 30 } });
+
+		const { revisions } = await (await call(`${base}/config/history`)).json<{ revisions: any[] }>();
+		expect(revisions.map((r) => [r.revision, r.source])).toEqual([[3, 'patch'], [2, 'patch'], [1, 'create']]);
+
+		const rollback = (body: unknown, query = '') => call(`${base}/config/rollback${query}`, { method: 'POST', body: JSON.stringify(body) });
+		const dry = await (await rollback({ revision: 1 }, '?dry_run=true')).json<any>();
+		expect(dry.plan).toMatchObject({ columns_added: ['k_meta_kind'], columns_dropped: ['k_message'] });
+
+		const res = await rollback({ revision: 1 });
+		expect(res.status).toBe(200);
+		const config = await (await call(`${base}/config`)).json<any>();
+		expect(config.revision).toBe(4);
+		expect(config.config.indexes).toEqual(['meta.kind']);
+		expect(config.config.params).toBeUndefined();
+		const latest = (await (await call(`${base}/config/history`)).json<{ revisions: any[] }>()).revisions[0];
+		expect(latest.source).toBe('rollback:1');
+
+		expect((await rollback({ revision: 99 })).status).toBe(404);
+	});
+
+	it('rejects invalid configs and changes the stored data cannot follow', async () => {
+		const base = await createStoreActor();
+		await post(`${base}/items`, { message: 'hi' });
+
+		const invalid = await patchConfig(base, { indexes: 'message', params: { retention_days: -1 } });
+		expect(invalid.status).toBe(400);
+		const { error, details } = await invalid.json<{ error: string; details: { path: string }[] }>();
+		expect(error).toBe('invalid_config');
+		expect(details.map((d) => d.path).sort()).toEqual(['indexes', 'params.retention_days']);
+
+		const retype = await patchConfig(base, { actorType: 'embeddingStore', dimensions: 4 });
+		expect(retype.status).toBe(409);
+		expect(await retype.json()).toMatchObject({ error: 'config_conflict' });
+		expect((await call(`${base}/config`)).status).toBe(200);
+		expect((await (await call(`${base}/config/history`)).json<{ revisions: unknown[] }>()).revisions).toHaveLength(1);
+	});
+
+	it('lets an actor whose stored config no longer builds be repaired', async () => {
+		const base = await createStoreActor();
+		const [, , podName, , actorId] = base.split('/');
+		const stub = env.ACTOR_DO.get(env.ACTOR_DO.idFromName(`${podName}:${actorId}`));
+		await runInDurableObject(stub, async (instance: any, state) => {
+			instance.cfg = { ...instance.cfg, actorType: 'ledger' };
+			instance.handler = undefined;
+			await state.storage.put('cfg', instance.cfg);
+		});
+
+		const broken = await call(`${base}/items`);
+		expect(broken.status).toBe(500);
+		expect(await broken.json()).toMatchObject({ error: 'config_unusable' });
+		expect((await (await call(`${base}/config`)).json<any>()).error).toBe('unknown actor type: ledger.v1');
+
+		expect((await patchConfig(base, { actorType: 'store' })).status).toBe(200);
+		expect((await call(`${base}/items`)).status).toBe(200);
+	});
+});
+
+describe('store.v2 upgrades', () => {
+	const patchConfig = (base: string, body: unknown, query = '') =>
+		call(`${base}/config${query}`, { method: 'PATCH', body: JSON.stringify(body) });
+	const post = (path: string, body: unknown) => call(path, { method: 'POST', body: JSON.stringify(body) });
+
+	// a store version whose migration always fails, to check that nothing of it sticks
+	beforeAll(() => {
+		registry['store.v3'] = (cfg) => {
+			if (cfg.actorType !== 'store') throw new Error(`Invalid config for store.v3: got '${cfg.actorType}'`);
+			return {
+				...storeHandlerFactory(cfg),
+				migrateFrom(_prevVersion: string, db: SqlStorage) {
+					db.exec('DELETE FROM items');
+					throw new Error('bad data');
+				},
+			};
+		};
+	});
+	afterAll(() => {
+		delete registry['store.v3'];
+	});
+
+	it('rolls a failed migration back with the config change', async () => {
+		const base = await createStoreActor();
+		await post(`${base}/items`, { message: 'kept' });
+
+		const failed = await patchConfig(base, { version: 'v3' });
+		expect(failed.status).toBe(400);
+		expect((await failed.json<any>()).message).toContain('bad data');
+		expect((await (await call(`${base}/config`)).json<any>()).config.version).toBe('v1');
+		expect((await (await call(`${base}/items`)).json<{ items: unknown[] }>()).items).toHaveLength(1);
+		expect((await patchConfig(base, { version: 'v7' })).status).toBe(400);
+	});
+
+	it('adds created_at to stored items in place and refuses downgrades', async () => {
+		const base = await createStoreActor();
+		const { id, ts } = await (await post(`${base}/items`, { message: 'old' })).json<{ id: string; ts: number }>();
+		expect(await (await call(`${base}/items/${id}`)).json()).not.toHaveProperty('created_at');
+
+		const dry = await (await patchConfig(base, { version: 'v2' }, '?dry_run=true')).json<any>();
+		expect(dry.plan.notes).toEqual(['upgrades the actor from store.v1 to store.v2 in place; the stored data is migrated']);
+		expect((await patchConfig(base, { version: 'v2' })).status).toBe(200);
+		expect((await (await call(base)).json<any>()).version).toBe('v2');
+		expect(await (await call(`${base}/items/${id}`)).json()).toMatchObject({ id, ts, created_at: ts, body: { message: 'old' } });
+
+		// created_at survives replacement; new items get their own
+		const [, , podName, , actorId] = base.split('/');
+		const stub = env.ACTOR_DO.get(env.ACTOR_DO.idFromName(`${podName}:${actorId}`));
+		await runInDurableObject(stub, async (_instance, state) => {
+			state.storage.sql.exec('UPDATE items SET ts = ts - 60, created_at = created_at - 60 WHERE id = ?', id);
+		});
+		const put = await call(`${base}/items/${id}`, { method: 'PUT', body: JSON.stringify({ message: 'replaced' }) });
+		expect((await put.json<any>()).ts).toBeGreaterThanOrEqual(ts);
+		const fresh = await (await post(`${base}/items`, { message: 'new' })).json<{ id: string; ts: number }>();
+		expect(await (await call(`${base}/items/${fresh.id}`)).json()).toMatchObject({ created_at: fresh.ts });
+
+		const listed = await (await call(`${base}/items?sort=created_at&created_at[lt]=${ts}`)).json<{ items: any[] }>();
+		expect(listed.items.map((i) => [i.id, i.created_at])).toEqual([[id, ts - 60]]);
+
+		const down = await patchConfig(base, { version: 'v1' });
+		expect(down.status).toBe(409);
+		expect((await down.json<any>()).plan.conflicts).toEqual(['store.v2 cannot be downgraded to store.v1']);
+		const rollback = await call(`${base}/config/rollback`, { method: 'POST', body: JSON.stringify({ revision: 1 }) });
+		expect(rollback.status).toBe(409);
+	});
+});
+
+describe('store.v1 schema versions', () => {
+	const post = (path: string, body: unknown) => call(path, { method: 'POST', body: JSON.stringify(body) });
+	const revalidated = async (base: string) => {
+		const [, , podName, , actorId] = base.split('/');
+		for (let i = 0; i < 50; i++) {
+			await runDurableObjectAlarm(env.ACTOR_DO.get(env.ACTOR_DO.idFromName(`${podName}:${actorId}`)));
+			const job = await (await call(`${base}/schemas/revalidate`)).json<any>();
+			if (job.finished_at) return job;
+			await new Promise((resolve) => setTimeout(resolve, 20));
+		}
+		throw new Error('revalidation did not finish');
+	};
+
+	it('stamps writes with the current version, upcasts on read and migrates in the background', async () => {
+		const base = await createStoreActor();
+		const hello = (await (await post(`${base}/items`, { message: 'hello' })).json<{ id: string }>()).id;
+		const yo = (await (await post(`${base}/items`, { message: 'yo' })).json<{ id: string }>()).id;
+		const { config } = await (await call(`${base}/config`)).json<any>();
+
+		const v2 = {
+			schema_version: 'v2',
+			schema: { type: 'object', properties: { text: { type: 'string', minLength: 3 } }, required: ['text', 'meta'] },
+			schema_versions: [
+				{
+					version: 'v1',
+					schema: config.schema,
+					upcast: [
+						{ op: 'rename', path: 'message', to: 'text' },
+						{ op: 'default', path: 'meta.kind', value: 'note' },
+					],
+				},
+			],
+		};
+		const dry = await (await call(`${base}/config?dry_run=true`, { method: 'PATCH', body: JSON.stringify(v2) })).json<any>();
+		expect(dry.plan.rows_invalid).toBe(1);
+		expect(dry.plan.notes).toEqual(['new writes are stamped v2; POST .../schemas/revalidate checks or migrates the stored documents']);
+		expect((await call(`${base}/config`, { method: 'PATCH', body: JSON.stringify(v2) })).status).toBe(200);
+
+		expect((await post(`${base}/items`, { message: 'hello again' })).status).toBe(400);
+		const fresh = await (await post(`${base}/items`, { text: 'fresh', meta: { kind: 'x' } })).json<{ id: string }>();
+		expect((await (await call(`${base}/items/${fresh.id}`)).json<any>()).schema_version).toBe('v2');
+
+		const stored = await (await call(`${base}/items/${hello}`)).json<any>();
+		expect(stored).toMatchObject({ schema_version: 'v1', body: { message: 'hello' } });
+		const lifted = await (await call(`${base}/items/${hello}?upcast=true`)).json<any>();
+		expect(lifted).toMatchObject({ schema_version: 'v2', upcast_from: 'v1', body: { text: 'hello', meta: { kind: 'note' } } });
+
+		const schemas = await (await call(`${base}/schemas`)).json<any>();
+		expect(schemas.current).toBe('v2');
+		expect(schemas.versions.map((v: any) => [v.version, v.documents])).toEqual([['v1', 2], ['v2', 1]]);
+
+		expect((await post(`${base}/schemas/revalidate`, { mode: 'migrate' })).status).toBe(202);
+		const job = await revalidated(base);
+		expect(job).toMatchObject({ mode: 'migrate', checked: 3, conforming: 2, migrated: 1, invalid: 1 });
+		expect(job.rejected.map((r: any) => [r.id, r.schema_version])).toEqual([[yo, 'v1']]);
+
+		const migrated = await (await call(`${base}/items?k_meta_kind=note`)).json<{ items: any[] }>();
+		expect(migrated.items.map((i) => [i.id, i.schema_version, i.body.text])).toEqual([[hello, 'v2', 'hello']]);
+		expect((await (await call(`${base}/items/${yo}`)).json<any>()).schema_version).toBe('v1');
+	});
+
+	it('rejects duplicate version names and bad revalidation requests', async () => {
+		const base = await createStoreActor();
+		const dup = await call(`${base}/config`, {
+			method: 'PATCH',
+			body: JSON.stringify({ schema_versions: [{ version: 'v1', schema: {} }] }),
+		});
+		expect(dup.status).toBe(400);
+		expect((await post(`${base}/schemas/revalidate`, { mode: 'fix' })).status).toBe(400);
+		expect((await post(`${base}/schemas/revalidate`, null)).status).toBe(400);
+		expect((await post(`${base}/schemas/revalidate`, ['migrate'])).status).toBe(400);
+	});
+});
+
+describe('store.v1 client ids and idempotency', () => {
+	const post = (path: string, body: unknown, headers?: Record<string, string>) =>
+		call(path, { method: 'POST', body: JSON.stringify(body), headers });
+
+	it('takes ids from id_path, keeps them unique and upserts with PUT', async () => {
+		const base = await createStoreActor();
+		expect((await call(`${base}/config`, { method: 'PATCH', body: JSON.stringify({ id_path: 'key' }) })).status).toBe(200);
+
+		expect(await (await post(`${base}/items`, { message: 'a', key: 'hello' })).json()).toMatchObject({ id: 'hello' });
+		const dup = await post(`${base}/items`, { message: 'b', key: 'hello' });
+		expect(dup.status).toBe(409);
+		expect(await dup.json()).toMatchObject({ error: 'duplicate_id' });
+		const batch = await post(`${base}/items:batch`, [{ message: 'c', key: 'fresh' }, { message: 'd', key: 'hello' }]);
+		expect(batch.status).toBe(409);
+		expect((await call(`${base}/items/fresh`)).status).toBe(404);
+
+		const put = (id: string, body: unknown, headers?: Record<string, string>) =>
+			call(`${base}/items/${id}`, { method: 'PUT', body: JSON.stringify(body), headers });
+		const created = await put('made-by-put', { message: 'e' });
+		expect(created.status).toBe(201);
+		expect(created.headers.get('ETag')).toBeTruthy();
+		expect((await (await call(`${base}/items/made-by-put`)).json<any>()).body).toEqual({ message: 'e' });
+		expect((await put('hello', { message: 'f', key: 'other' })).status).toBe(400);
+		expect((await put('hello', { message: 'f' }, { 'If-None-Match': '*' })).status).toBe(412);
+		expect((await put('missing', { message: 'g' }, { 'If-Match': '"abc"' })).status).toBe(412);
+		expect((await put('hello', { message: 'f', key: 'hello' })).status).toBe(200);
+	});
+
+	it('replays writes sent with the same Idempotency-Key', async () => {
+		const base = await createStoreActor();
+		const first = await post(`${base}/items`, { message: 'once' }, { 'Idempotency-Key': 'k1' });
+		const { id } = await first.json<{ id: string }>();
+		const again = await post(`${base}/items`, { message: 'once' }, { 'Idempotency-Key': 'k1' });
+		expect(again.headers.get('Idempotent-Replayed')).toBe('true');
+		expect(again.headers.get('ETag')).toBe(first.headers.get('ETag'));
+		expect(await again.json()).toEqual({ id, ts: expect.any(Number) });
+		const { items } = await (await call(`${base}/items`)).json<{ items: unknown[] }>();
+		expect(items).toHaveLength(1);
+
+		const reused = await post(`${base}/items`, { message: 'other' }, { 'Idempotency-Key': 'k1' });
+		expect(reused.status).toBe(422);
+		expect(await reused.json()).toMatchObject({ error: 'idempotency_key_reused' });
+
+		// rejected writes are replayed too, so a fixed retry needs a new key
+		expect((await post(`${base}/items`, { nope: 1 }, { 'Idempotency-Key': 'k2' })).status).toBe(400);
+		const replayed = await post(`${base}/items`, { nope: 1 }, { 'Idempotency-Key': 'k2' });
+		expect(replayed.status).toBe(400);
+		expect(replayed.headers.get('Idempotent-Replayed')).toBe('true');
+	});
+});
+
+describe('store.v1 field projection', () => {
+	it('trims item bodies with fields and exclude', async () => {
+		const base = await createStoreActor();
+		const doc = { message: 'hi', meta: { kind: 'note', tags: ['a', 'b'] }, parts: [{ text: 'x', n: 1 }, { n: 2 }] };
+		const { id } = await (await call(`${base}/items`, { method: 'POST', body: JSON.stringify(doc) })).json<{ id: string }>();
+
+		const get = (query: string) => call(`${base}/items/${id}?${query}`);
+		expect((await (await get('fields=meta.kind,parts[*].text')).json<any>()).body).toEqual({ meta: { kind: 'note' }, parts: [{ text: 'x' }] });
+		expect((await (await get('exclude=meta.tags,parts')).json<any>()).body).toEqual({ message: 'hi', meta: { kind: 'note' } });
+		expect((await (await get('fields=meta&exclude=meta.tags')).json<any>()).body).toEqual({ meta: { kind: 'note' } });
+		expect((await (await get('fields=parts[1]')).json<any>()).body).toEqual({ parts: [{ n: 2 }] });
+
+		const full = await call(`${base}/items/${id}`);
+		const projected = await get('fields=message');
+		expect(projected.headers.get('ETag')).toBe(`W/${full.headers.get('ETag')}`);
+		const cached = await call(`${base}/items/${id}?fields=message`, { headers: { 'If-None-Match': full.headers.get('ETag')! } });
+		expect(cached.status).toBe(304);
+
+		const { items } = await (await call(`${base}/items?fields=message`)).json<{ items: { id: string; body: unknown }[] }>();
+		expect(items).toEqual([expect.objectContaining({ id, body: { message: 'hi' } })]);
+
+		const bad = await get('fields=meta..kind');
+		expect(bad.status).toBe(400);
+		expect(await bad.json()).toMatchObject({ error: 'invalid_query' });
+		expect((await call(`${base}/items?exclude=`)).status).toBe(400);
+	});
+});
+
+describe('store.v1 JSON Schema validation', () => {
+	async function createWithSchema(schema: unknown) {
+		const { podName } = await (await call('/pods', { method: 'POST' })).json<{ podName: string }>();
+		return call(`/pods/${podName}/actors`, {
+			method: 'POST',
+			body: JSON.stringify({ config: { actorType: 'store', version: 'v1', schema } }),
+		});
+	}
+
+	it('enforces 2020-12 keywords and reports JSON Pointer paths', async () => {
+		const res = await createWithSchema({
+			$schema: 'https://json-schema.org/draft/2020-12/schema',
+			type: 'object',
+			$defs: { tag: { type: 'string', pattern: '^[a-z]+$' } },
+			properties: {
+				name: { type: 'string', minLength: 2 },
+				email: { type: 'string', format: 'email' },
+				level: { enum: [1, 2, 3] },
+				note: { type: ['string', 'null'] },
+				tags: { type: 'array', items: { $ref: '#/$defs/tag' }, uniqueItems: true },
+			},
+			required: ['name'],
+			additionalProperties: false,
+		});
+		expect(res.status).toBe(200);
+		const { podName, actorId } = await res.json<{ podName: string; actorId: string }>();
+		const base = `/pods/${podName}/actors/${actorId}`;
+
+		const ok = await call(`${base}/items`, {
+			method: 'POST',
+			body: JSON.stringify({ name: 'ada', email: 'ada@example.com', level: 2, note: null, tags: ['x', 'y'] }),
+		});
+		expect(ok.status).toBe(200);
+
+		const bad = await call(`${base}/items`, {
+			method: 'POST',
+			body: JSON.stringify({ name: 'a', email: 'nope', level: 4, tags: ['ok', 'Bad'], extra: true }),
+		});
+		expect(bad.status).toBe(400);
+		const { details } = await bad.json<{ details: { path: string; message: string }[] }>();
+		expect(details.map((d) => d.path).sort()).toEqual(['/email', '/extra', '/level', '/name', '/tags/1']);
+	});
+
+	it('rejects schemas it cannot enforce when the actor is created', async () => {
+		for (const schema of [
+			{ type: 'object', properties: { a: { $ref: 'https://example.com/other.json' } } },
+			{ type: 'string', format: 'credit-card' },
+			{ type: 'object', nullable: true },
+			{ type: 'array', items: [{ type: 'string' }] },
+			{ $ref: '#' },
+			{ $defs: { a: { $ref: '#/$defs/b' }, b: { allOf: [{ $ref: '#/$defs/a' }] } }, properties: { x: { $ref: '#/$defs/a' } } },
+			{ $defs: { a: { $anchor: 'self', not: { $ref: '#self' } } } },
+		]) {
+			const res = await createWithSchema(schema);
+			expect(res.status).toBe(400);
+			expect((await res.json<{ error: string }>()).error).toBe('invalid_config');
+		}
+	});
+
+	it('accepts recursive schemas that step into the document', async () => {
+		const res = await createWithSchema({
+			$defs: { node: { type: 'object', properties: { children: { type: 'array', items: { $ref: '#/$defs/node' } } } } },
+			$ref: '#/$defs/node',
+		});
+		expect(res.status).toBe(200);
+		const { podName, actorId } = await res.json<{ podName: string; actorId: string }>();
+		const post = (doc: unknown) => call(`/pods/${podName}/actors/${actorId}/items`, { method: 'POST', body: JSON.stringify(doc) });
+		expect((await post({ children: [{ children: [] }] })).status).toBe(200);
+		expect((await post({ children: [{ children: 1 }] })).status).toBe(400);
+	});
+});
+
+describe('store.v1 list operators', () => {
+	it('filters with operators and pages a sorted list with cursors', async () => {
+		const base = await createStoreActor();
+		for (const kind of ['alpha', 'beta', 'gamma', '10', '9']) {
+			await call(`${base}/items`, { method: 'POST', body: JSON.stringify({ message: kind, meta: { kind } }) });
+		}
+		await call(`${base}/items`, { method: 'POST', body: JSON.stringify({ message: 'none' }) });
+
+		const kinds = async (query: string) => {
+			const res = await (await call(`${base}/items?${query}`)).json<{ items: { body: any }[] }>();
+			return res.items.map((i) => i.body.meta?.kind ?? null);
+		};
+
+		expect(await kinds('k_meta_kind[prefix]=a')).toEqual(['alpha']);
+		expect((await kinds('k_meta_kind[in]=beta,gamma&sort=k_meta_kind'))).toEqual(['beta', 'gamma']);
+		expect(await kinds('k_meta_kind[gt]=9&sort=k_meta_kind')).toEqual(['10']);
+		expect(await kinds('k_meta_kind[exists]=false')).toEqual([null]);
+		expect((await kinds('k_meta_kind[ne]=alpha')).length).toBe(4);
+
+		const seen: string[] = [];
+		let cursor: string | null = null;
+		do {
+			const page: { items: { body: any }[]; next_cursor: string | null } = await (
+				await call(`${base}/items?k_meta_kind[exists]=true&sort=-k_meta_kind&limit=2${cursor ? `&cursor=${cursor}` : ''}`)
+			).json();
+			seen.push(...page.items.map((i) => i.body.meta.kind));
+			cursor = page.next_cursor;
+		} while (cursor);
+		expect(seen).toEqual(['gamma', 'beta', 'alpha', '9', '10']);
+
+		expect((await call(`${base}/items?sort=nope`)).status).toBe(400);
+		expect((await call(`${base}/items?ts[gt]=soon`)).status).toBe(400);
+	});
+});
+
+describe('store.v1 batch ingest', () => {
+	it('writes a JSON array all-or-nothing', async () => {
+		const base = await createStoreActor();
+		const rejected = await call(`${base}/items:batch`, {
+			method: 'POST',
+			body: JSON.stringify([{ message: 'one' }, { meta: { kind: 'x' } }]),
+		});
+		expect(rejected.status).toBe(400);
+		const { results } = await rejected.json<{ results: { line: number; ok: boolean; details?: unknown }[] }>();
+		expect(results.map((r) => r.ok)).toEqual([true, false]);
+		expect((await (await call(`${base}/items`)).json<{ items: unknown[] }>()).items).toEqual([]);
+
+		const ok = await call(`${base}/items:batch`, {
+			method: 'POST',
+			body: JSON.stringify([{ message: 'one' }, { message: 'two', meta: { kind: 'x' } }]),
+		});
+		expect(ok.status).toBe(200);
+		const written = await ok.json<{ written: number; results: { id: string }[] }>();
+		expect(written.written).toBe(2);
+		const listed = await (await call(`${base}/items?k_meta_kind=x`)).json<{ items: { id: string }[] }>();
+		expect(listed.items.map((i) => i.id)).toEqual([written.results[1].id]);
+	});
+
+	it('reports per-line results for NDJSON in partial mode', async () => {
+		const base = await createStoreActor();
+		const res = await call(`${base}/items:batch?mode=partial`, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/x-ndjson' },
+			body: ['{"message":"a"}', '{not json', '', '{"message":3}', '{"message":"b"}'].join('\n'),
+		});
+		expect(res.status).toBe(200);
+		const body = await res.json<{ written: number; failed: number; results: { line: number; ok: boolean; error?: string; id?: string }[] }>();
+		expect(body.written).toBe(2);
+		expect(body.failed).toBe(2);
+		expect(body.results.map((r) => [r.line, r.ok, r.error ?? null])).toEqual([
+			[1, true, null],
+			[2, false, 'invalid_json'],
+			[4, false, 'invalid_document'],
+			[5, true, null],
+		]);
+		expect((await (await call(`${base}/items`)).json<{ items: unknown[] }>()).items.length).toBe(2);
+	});
+});
+
+describe('store.v1 change feed', () => {
+	async function subscribe(base: string, query = '') {
+		const res = await call(`${base}/subscribe${query}`, { headers: { Upgrade: 'websocket' } });
+		expect(res.status).toBe(101);
+		const ws = res.webSocket!;
+		const messages: any[] = [];
+		const waiters: (() => void)[] = [];
+		ws.addEventListener('message', (e) => {
+			messages.push(JSON.parse(e.data as string));
+			waiters.splice(0).forEach((w) => w());
+		});
+		ws.accept();
+		// resolves once `n` messages have arrived
+		const received = async (n: number) => {
+			while (messages.length < n) await new Promise<void>((resolve) => waiters.push(resolve));
+			return messages.slice(0, n);
+		};
+		return { ws, messages, received };
+	}
+	const changes = (messages: any[]) => messages.filter((m) => m.type === 'change').map((m) => [m.op, m.id]);
+
+	it('pushes inserts, updates and deletes matching the filter', async () => {
+		const base = await createStoreActor();
+		const all = await subscribe(base);
+		const chats = await subscribe(base, '?k_meta_kind=chat');
+
+		const post = async (doc: unknown) =>
+			(await (await call(`${base}/items`, { method: 'POST', body: JSON.stringify(doc) })).json<{ id: string }>()).id;
+		const a = await post({ message: 'a', meta: { kind: 'chat' } });
+		const b = await post({ message: 'b', meta: { kind: 'tool' } });
+		await call(`${base}/items/${a}`, { method: 'PUT', body: JSON.stringify({ message: 'a2', meta: { kind: 'chat' } }) });
+		await call(`${base}/items/${a}`, { method: 'DELETE' });
+
+		const events = await all.received(5);
+		expect(events[0]).toMatchObject({ type: 'subscribed', seq: 0 });
+		expect(changes(events)).toEqual([['insert', a], ['insert', b], ['update', a], ['delete', a]]);
+		expect(events[3]).toMatchObject({ collection: 'items', doc: { message: 'a2' } });
+		expect(events[4].doc).toBeNull();
+
+		expect(changes(await chats.received(4))).toEqual([['insert', a], ['update', a], ['delete', a]]);
+		all.ws.close();
+		chats.ws.close();
+	});
+
+	it('resumes from a sequence number', async () => {
+		const base = await createStoreActor();
+		for (const message of ['one', 'two', 'three']) {
+			await call(`${base}/items`, { method: 'POST', body: JSON.stringify({ message }) });
+		}
+		const resumed = await subscribe(base, '?since=1');
+		const events = await resumed.received(3);
+		expect(events.map((e) => e.seq)).toEqual([1, 2, 3]);
+		expect(events.slice(1).map((e) => e.doc.message)).toEqual(['two', 'three']);
+		resumed.ws.close();
+
+		expect((await call(`${base}/subscribe`)).status).toBe(426);
+		expect((await call(`${base}/subscribe?since=soon`, { headers: { Upgrade: 'websocket' } })).status).toBe(400);
+		expect((await call(`${base}/subscribe?ts[gte]=x`, { headers: { Upgrade: 'websocket' } })).status).toBe(400);
+	});
+
+	it('closes with a sendable code when the client sent a reserved one', async () => {
+		const base = await createStoreActor();
+		const [, , podName, , actorId] = base.split('/');
+		const stub = env.ACTOR_DO.get(env.ACTOR_DO.idFromName(`${podName}:${actorId}`));
+		await runInDurableObject(stub, async (instance: any) => {
+			for (const [code, sent] of [[1005, 1000], [1006, 1000], [4001, 4001]]) {
+				const { 0: client, 1: server } = new WebSocketPair();
+				const closed = new Promise<number>((resolve) => client.addEventListener('close', (e) => resolve(e.code)));
+				client.accept();
+				server.accept();
+				await instance.webSocketClose(server, code, 'bye');
+				expect(await closed).toBe(sent);
+			}
+		});
+	});
+});
+
+describe('store.v1 webhooks', () => {
+	const actorStub = (base: string) => {
+		const [, , podName, , actorId] = base.split('/');
+		return env.ACTOR_DO.get(env.ACTOR_DO.idFromName(`${podName}:${actorId}`));
+	};
+	// make pending deliveries due, then run the alarm
+	async function runDueDeliveries(base: string) {
+		const stub = actorStub(base);
+		await runInDurableObject(stub, async (_instance, state) => {
+			state.storage.sql.exec("UPDATE webhook_deliveries SET next_attempt_at = 0 WHERE status = 'pending'");
+			await state.storage.setAlarm(Date.now());
+		});
+		await runDurableObjectAlarm(stub);
+	}
+	async function hmac(secret: string, message: string) {
+		const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+		const sig = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+		return 'sha256=' + [...new Uint8Array(sig)].map((b) => b.toString(16).padStart(2, '0')).join('');
+	}
+
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+	afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+	it('delivers signed payloads for matching events', async () => {
+		const base = await createStoreActor();
+		const res = await call(`${base}/webhooks`, {
+			method: 'POST',
+			body: JSON.stringify({ url: 'https://hooks.test/items', events: ['item.created'], filter: { 'meta.kind': 'chat' } }),
+		});
+		expect(res.status).toBe(201);
+		const hook = await res.json<{ id: string; secret: string; filter: unknown }>();
+		expect(hook.secret).toMatch(/^whsec_/);
+		expect(hook.filter).toEqual({ 'meta.kind': 'chat' });
+
+		const received: { headers: Record<string, string>; body: string }[] = [];
+		fetchMock
+			.get('https://hooks.test')
+			.intercept({ path: '/items', method: 'POST' })
+			.reply((req) => {
+				received.push({ headers: req.headers as Record<string, string>, body: req.body as string });
+				return { statusCode: 204 };
+			});
+
+		const post = async (doc: unknown) =>
+			(await (await call(`${base}/items`, { method: 'POST', body: JSON.stringify(doc) })).json<{ id: string }>()).id;
+		const chat = await post({ message: 'hi', meta: { kind: 'chat' } });
+		await post({ message: 'skipped', meta: { kind: 'tool' } });
+		await runDueDeliveries(base);
+
+		expect(received).toHaveLength(1);
+		const { headers, body } = received[0];
+		expect(headers['x-paseo-event']).toBe('item.created');
+		expect(headers['x-paseo-signature']).toBe(await hmac(hook.secret, `${headers['x-paseo-timestamp']}.${body}`));
+		const payload = JSON.parse(body);
+		expect(payload).toMatchObject({ id: headers['x-paseo-delivery'], type: 'item.created', actor: base, data: { op: 'insert', id: chat } });
+		expect(payload.data.doc.message).toBe('hi');
+
+		const deliveries = await (await call(`${base}/webhooks/${hook.id}/deliveries?status=delivered`)).json<any>();
+		expect(deliveries.deliveries).toHaveLength(1);
+		expect(deliveries.deliveries[0]).toMatchObject({ attempts: 1, last_status: 204 });
+
+		const listed = await (await call(`${base}/webhooks`)).json<any>();
+		expect(listed.webhooks.map((w: any) => w.id)).toEqual([hook.id]);
+		expect(listed.webhooks[0].secret).toBeUndefined();
+		expect((await call(`${base}/webhooks/${hook.id}`, { method: 'DELETE' })).status).toBe(204);
+		expect((await call(`${base}/webhooks/${hook.id}`)).status).toBe(404);
+	});
+
+	it('prunes delivered and dead deliveries after a week', async () => {
+		const base = await createStoreActor();
+		const hook = await (
+			await call(`${base}/webhooks`, { method: 'POST', body: JSON.stringify({ url: 'https://hooks.test/old', events: ['item.created'] }) })
+		).json<{ id: string }>();
+		fetchMock.get('https://hooks.test').intercept({ path: '/old', method: 'POST' }).reply(204).times(2);
+		const deliveries = async (status: string) =>
+			(await (await call(`${base}/webhooks/${hook.id}/deliveries?status=${status}`)).json<{ deliveries: any[] }>()).deliveries;
+
+		await call(`${base}/items`, { method: 'POST', body: JSON.stringify({ message: 'old' }) });
+		await call(`${base}/items`, { method: 'POST', body: JSON.stringify({ message: 'recent' }) });
+		await runDueDeliveries(base);
+		const delivered = await deliveries('delivered');
+		expect(delivered).toHaveLength(2);
+		expect(delivered[0].delivered_at).toBeGreaterThan(Date.now() - 60_000);
+		expect(delivered[0].created_at).toBeGreaterThan(Date.now() - 60_000);
+
+		const weekAgo = Date.now() - 8 * 24 * 3600 * 1000;
+		await runInDurableObject(actorStub(base), async (_instance, state) => {
+			state.storage.sql.exec('UPDATE webhook_deliveries SET delivered_at = ? WHERE id = ?', weekAgo, delivered[1].id);
+			state.storage.sql.exec(
+				"INSERT INTO webhook_deliveries(id, webhook_id, event, seq, payload, status, created_at, dead_at) VALUES ('d-dead', ?, 'item.created', 0, '{}', 'dead', ?, ?)",
+				hook.id,
+				weekAgo,
+				weekAgo,
+			);
+			// created long ago but dead-lettered again just now after a retry
+			state.storage.sql.exec(
+				"INSERT INTO webhook_deliveries(id, webhook_id, event, seq, payload, status, created_at, dead_at) VALUES ('d-redied', ?, 'item.created', 0, '{}', 'dead', ?, ?)",
+				hook.id,
+				weekAgo,
+				Date.now(),
+			);
+		});
+		await runDueDeliveries(base);
+		expect((await deliveries('delivered')).map((d) => d.id)).toEqual([delivered[0].id]);
+		expect((await deliveries('dead')).map((d) => d.id)).toEqual(['d-redied']);
+	});
+
+	it('queues every change of an import larger than the change log', async () => {
+		const base = await createStoreActor();
+		const hook = await (
+			await call(`${base}/webhooks`, { method: 'POST', body: JSON.stringify({ url: 'https://hooks.test/bulk', events: ['item.created'] }) })
+		).json<{ id: string }>();
+		const config = await (await call(`${base}/export`)).text();
+		const rows = Array.from({ length: 10_050 }, (_, i) =>
+			JSON.stringify({ type: 'row', id: `r${i}`, ts: 1735689600, schema_version: 'v1', body: { message: 'bulk' } }),
+		);
+		const imported = await call(`${base}/import`, { method: 'POST', body: config + rows.join('\n') });
+		expect(await imported.json()).toMatchObject({ rows_imported: 10_050 });
+
+		await runInDurableObject(actorStub(base), async (_instance, state) => {
+			// nothing is sent: the deliveries would go out from the alarm
+			await state.storage.deleteAlarm();
+			expect(state.storage.sql.exec('SELECT COUNT(*) AS n FROM webhook_deliveries').one().n).toBe(10_050);
+			expect(state.storage.sql.exec('SELECT COUNT(*) AS n FROM change_log').one().n).toBe(10_000);
+		});
+		expect((await call(`${base}/webhooks/${hook.id}`, { method: 'DELETE' })).status).toBe(204);
+	});
+
+	it('retries failures with backoff and dead-letters them', async () => {
+		const base = await createStoreActor();
+		const hook = await (
+			await call(`${base}/webhooks`, {
+				method: 'POST',
+				body: JSON.stringify({ url: 'https://hooks.test/down', events: ['item.created'], secret: 'a-long-enough-secret' }),
+			})
+		).json<{ id: string }>();
+		fetchMock.get('https://hooks.test').intercept({ path: '/down', method: 'POST' }).reply(503, 'unavailable').times(8);
+
+		await call(`${base}/items`, { method: 'POST', body: JSON.stringify({ message: 'lost' }) });
+		await runDueDeliveries(base);
+		const pending = (await (await call(`${base}/webhooks/${hook.id}/deliveries?status=pending`)).json<any>()).deliveries;
+		expect(pending).toHaveLength(1);
+		expect(pending[0]).toMatchObject({ attempts: 1, last_status: 503, last_error: 'HTTP 503' });
+		expect(pending[0].next_attempt_at).toBeGreaterThan(Date.now() + 20_000);
+
+		for (let i = 1; i < 8; i++) await runDueDeliveries(base);
+		const dead = (await (await call(`${base}/webhooks/${hook.id}/deliveries?status=dead`)).json<any>()).deliveries;
+		expect(dead).toHaveLength(1);
+		expect(dead[0]).toMatchObject({ attempts: 8, next_attempt_at: null });
+
+		// a dead letter can be sent again once the receiver is back
+		fetchMock.get('https://hooks.test').intercept({ path: '/down', method: 'POST' }).reply(200, 'ok');
+		expect((await call(`${base}/webhooks/${hook.id}/deliveries/${dead[0].id}/retry`, { method: 'POST' })).status).toBe(202);
+		await runDueDeliveries(base);
+		const delivered = (await (await call(`${base}/webhooks/${hook.id}/deliveries?status=delivered`)).json<any>()).deliveries;
+		expect(delivered.map((d: any) => d.id)).toEqual([dead[0].id]);
+	});
+
+	it('rejects invalid registrations', async () => {
+		const base = await createStoreActor();
+		const register = (body: unknown) => call(`${base}/webhooks`, { method: 'POST', body: JSON.stringify(body) });
+		expect((await register({ url: 'ftp://hooks.test', events: ['item.created'] })).status).toBe(400);
+		expect((await register({ url: 'https://hooks.test', events: ['response.stored'] })).status).toBe(400);
+		expect((await register({ url: 'https://hooks.test', events: ['item.created'], filter: { message: 'x' } })).status).toBe(400);
+		expect((await register({ url: 'https://hooks.test', events: ['item.created'], secret: 'short' })).status).toBe(400);
+	});
+});
@@ -4,7 +4,11 @@ export default defineWorkersConfig({
 	test: {
 		poolOptions: {
 			workers: {
+				// SQLite-backed Durable Objects leave -shm/-wal files behind, which isolated storage cannot pop
+				isolatedStorage: false,
+				singleWorker: true,
 				wrangler: { configPath: './wrangler.jsonc' },
+				miniflare: { bindings: { PASEO_ADMIN_KEY: 'test-admin-key' } },
 			},
 		},
 	},